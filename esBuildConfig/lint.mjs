@@ -16,20 +16,26 @@ const BANNED_UI_PACKAGES = [
 
 const OVERLAY_TS_FILES = [
   "src/lib/ui/panels/help/help.ts",
+  "src/lib/ui/panels/marks/marks.ts",
+  "src/lib/ui/panels/searchAllTabs/searchAllTabs.ts",
   "src/lib/ui/panels/searchCurrentPage/searchCurrentPage.ts",
   "src/lib/ui/panels/searchOpenTabs/searchOpenTabs.ts",
   "src/lib/ui/panels/sessionMenu/sessionMenu.ts",
   "src/lib/ui/panels/sessionMenu/sessionRestoreOverlay.ts",
   "src/lib/ui/panels/tabManager/tabManager.ts",
+  "src/lib/ui/panels/workspaces/workspaces.ts",
 ];
 
 const OVERLAY_CSS_FILES = [
   "src/lib/ui/panels/help/help.css",
+  "src/lib/ui/panels/marks/marks.css",
+  "src/lib/ui/panels/searchAllTabs/searchAllTabs.css",
   "src/lib/ui/panels/searchCurrentPage/searchCurrentPage.css",
   "src/lib/ui/panels/searchOpenTabs/searchOpenTabs.css",
   "src/lib/ui/panels/sessionMenu/sessionMenu.css",
   "src/lib/ui/panels/sessionMenu/session.css",
   "src/lib/ui/panels/tabManager/tabManager.css",
+  "src/lib/ui/panels/workspaces/workspaces.css",
 ];
 
 const PERF_INSTRUMENTATION_REQUIREMENTS = {
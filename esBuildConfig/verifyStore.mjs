@@ -58,7 +58,12 @@ if (!summaryMatch) {
   }
 }
 
-const requiredPermissionDocs = ["tabs", "activeTab", "storage", "<all_urls>"];
+// Every permission either manifest requests needs a rationale in both documents.
+const requiredPermissionDocs = [...new Set([
+  ...(manifestV2.permissions || []),
+  ...(manifestV3.permissions || []),
+  ...(manifestV3.host_permissions || []),
+])];
 for (const permission of requiredPermissionDocs) {
   if (!store.includes(permission)) {
     errors.push(`STORE.md must document permission: ${permission}`);
@@ -4,9 +4,12 @@ import browser from "webextension-polyfill";
 import { recordFrecencyVisit, removeFrecencyEntry } from "../../lib/common/utils/frecencyScoring";
 import { registerCommandRouter } from "../../lib/backgroundRuntime/handlers/commandRouter";
 import { createSessionMessageHandler } from "../../lib/backgroundRuntime/handlers/sessionMessageHandler";
+import { createGlobalMarksMessageHandler } from "../../lib/backgroundRuntime/handlers/globalMarksMessageHandler";
+import { createJumpListMessageHandler } from "../../lib/backgroundRuntime/handlers/jumpListMessageHandler";
+import { createJumpListDomain } from "../../lib/backgroundRuntime/domains/jumpListDomain";
 import { createTabManagerDomain } from "../../lib/backgroundRuntime/domains/tabManagerDomain";
 import { createTabManagerMessageHandler } from "../../lib/backgroundRuntime/handlers/tabManagerMessageHandler";
-import { miscMessageHandler } from "../../lib/backgroundRuntime/handlers/miscMessageHandler";
+import { createMiscMessageHandler } from "../../lib/backgroundRuntime/handlers/miscMessageHandler";
 import { registerRuntimeMessageRouter } from "../../lib/backgroundRuntime/handlers/runtimeRouter";
 import { registerStartupRestore } from "../../lib/backgroundRuntime/lifecycle/startupRestore";
 import { migrateStorageIfNeeded } from "../../lib/common/utils/storageMigrationsRuntime";
@@ -19,7 +22,8 @@ async function bootstrapBackground(): Promise<void> {
     );
   }
 
-  const tabManager = createTabManagerDomain();
+  const jumpList = createJumpListDomain();
+  const tabManager = createTabManagerDomain(jumpList);
   tabManager.registerLifecycleListeners({
     onTabClosed: async (tabId: number) => {
       await removeFrecencyEntry(tabId);
@@ -42,7 +46,9 @@ async function bootstrapBackground(): Promise<void> {
   registerRuntimeMessageRouter([
     createTabManagerMessageHandler(tabManager),
     createSessionMessageHandler(tabManager.state),
-    miscMessageHandler,
+    createGlobalMarksMessageHandler(tabManager.state),
+    createJumpListMessageHandler(jumpList, tabManager.state),
+    createMiscMessageHandler(jumpList),
   ]);
 
   void tabManager.ensureLoaded();
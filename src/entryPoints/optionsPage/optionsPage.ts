@@ -1,4 +1,5 @@
-// Options page: keybinding editor with collision detection.
+// Options page: keybinding editor with collision detection, Tab Manager slot count,
+// the saved-session cap, and session backup.
 
 import {
   loadKeybindings,
@@ -9,8 +10,14 @@ import {
   ACTION_LABELS,
   SCOPE_LABELS,
   DEFAULT_KEYBINDINGS,
+  MIN_TAB_MANAGER_SLOTS,
+  MAX_TAB_MANAGER_SLOTS,
+  SESSION_LIMIT_CHOICES,
+  getTabManagerSlotCount,
+  isActionEnabled,
 } from "../../lib/common/contracts/keybindings";
 import { escapeHtml } from "../../lib/common/utils/helpers";
+import { initSessionBackup } from "./sessionBackup";
 
 type BindingScope = keyof KeybindingsConfig["bindings"];
 
@@ -28,6 +35,94 @@ document.addEventListener("DOMContentLoaded", async () => {
   const resetAllBtn = document.getElementById("resetAllBtn")!;
   const disableAllBtn = document.getElementById("disableAllBtn")!;
   const statusBar = document.getElementById("statusBar")!;
+  const slotCountSelect = document.getElementById("slotCountSelect") as HTMLSelectElement;
+  const listScopeSelect = document.getElementById("listScopeSelect") as HTMLSelectElement;
+  const sessionLimitSelect = document.getElementById("sessionLimitSelect") as HTMLSelectElement;
+  const sessionLoadSelect = document.getElementById("sessionLoadSelect") as HTMLSelectElement;
+
+  function renderSlotCount(): void {
+    slotCountSelect.innerHTML = "";
+    for (let count = MIN_TAB_MANAGER_SLOTS; count <= MAX_TAB_MANAGER_SLOTS; count++) {
+      const option = document.createElement("option");
+      option.value = String(count);
+      option.textContent = String(count);
+      slotCountSelect.appendChild(option);
+    }
+    slotCountSelect.value = String(getTabManagerSlotCount(config));
+  }
+
+  slotCountSelect.addEventListener("change", async () => {
+    const previousCount = getTabManagerSlotCount(config);
+    config.tabManagerSlots = Number(slotCountSelect.value);
+    const nextCount = getTabManagerSlotCount(config);
+    await saveKeybindings(config);
+    showStatus(
+      nextCount < previousCount
+        ? `Tab Manager slots \u2192 ${nextCount} (entries past slot ${nextCount} are dropped)`
+        : `Tab Manager slots \u2192 ${nextCount}`,
+      "success",
+    );
+    renderBindings();
+  });
+
+  function renderListScope(): void {
+    listScopeSelect.value = config.tabManagerScope;
+  }
+
+  listScopeSelect.addEventListener("change", async () => {
+    config.tabManagerScope = listScopeSelect.value === "window" ? "window" : "global";
+    await saveKeybindings(config);
+    showStatus(
+      config.tabManagerScope === "window"
+        ? "Anchored list \u2192 separate per window"
+        : "Anchored list \u2192 shared by all windows",
+      "success",
+    );
+  });
+
+  function renderSessionLimit(): void {
+    sessionLimitSelect.innerHTML = "";
+    for (const limit of SESSION_LIMIT_CHOICES) {
+      const option = document.createElement("option");
+      option.value = String(limit);
+      option.textContent = limit === 0 ? "Unlimited" : `Up to ${limit}`;
+      sessionLimitSelect.appendChild(option);
+    }
+    // Keep a hand-edited stored value selectable instead of silently showing another choice.
+    if (!SESSION_LIMIT_CHOICES.includes(config.sessionLimit)) {
+      const option = document.createElement("option");
+      option.value = String(config.sessionLimit);
+      option.textContent = `Up to ${config.sessionLimit}`;
+      sessionLimitSelect.appendChild(option);
+    }
+    sessionLimitSelect.value = String(config.sessionLimit);
+  }
+
+  sessionLimitSelect.addEventListener("change", async () => {
+    config.sessionLimit = Number(sessionLimitSelect.value);
+    await saveKeybindings(config);
+    showStatus(
+      config.sessionLimit === 0
+        ? "Saved sessions \u2192 unlimited"
+        : `Saved sessions \u2192 up to ${config.sessionLimit} (existing sessions are kept)`,
+      "success",
+    );
+  });
+
+  function renderSessionLoadMode(): void {
+    sessionLoadSelect.value = config.sessionLoadMode;
+  }
+
+  sessionLoadSelect.addEventListener("change", async () => {
+    config.sessionLoadMode = sessionLoadSelect.value === "lazy" ? "lazy" : "eager";
+    await saveKeybindings(config);
+    showStatus(
+      config.sessionLoadMode === "lazy"
+        ? "Session loads \u2192 background tabs load on first visit"
+        : "Session loads \u2192 every tab loads right away",
+      "success",
+    );
+  });
 
   function renderBindings(): void {
     container.innerHTML = "";
@@ -41,6 +136,8 @@ document.addEventListener("DOMContentLoaded", async () => {
       container.appendChild(header);
 
       for (const [action, binding] of Object.entries(actions)) {
+        // Jump rows past the configured slot count stay stored but hidden.
+        if (!isActionEnabled(config, scope, action)) continue;
         const label = ACTION_LABELS[scope]?.[action] || action;
         const isModified = binding.key !== binding.default;
         const isUnbound = !binding.key;
@@ -182,6 +279,10 @@ document.addEventListener("DOMContentLoaded", async () => {
     config = JSON.parse(JSON.stringify(DEFAULT_KEYBINDINGS));
     await saveKeybindings(config);
     showStatus("All keybindings reset to defaults.", "success");
+    renderSlotCount();
+    renderListScope();
+    renderSessionLimit();
+    renderSessionLoadMode();
     renderBindings();
   });
 
@@ -207,5 +308,10 @@ document.addEventListener("DOMContentLoaded", async () => {
     }, 3500);
   }
 
+  renderSlotCount();
+  renderListScope();
+  renderSessionLimit();
+  renderSessionLoadMode();
   renderBindings();
+  initSessionBackup(showStatus);
 });
@@ -0,0 +1,162 @@
+// Options page session backup: export selected sessions as versioned JSON or a URL list,
+// and import either format with rename/overwrite handling for name conflicts.
+
+import { loadTabManagerSlotCount } from "../../lib/common/contracts/keybindings";
+import { escapeHtml } from "../../lib/common/utils/helpers";
+import {
+  buildSessionExportJson,
+  buildSessionUrlList,
+  parseSessionImport,
+} from "../../lib/common/utils/sessionTransfer";
+import { importSessions, listSessions } from "../../lib/adapters/runtime/sessionApi";
+
+type StatusReporter = (message: string, type: "success" | "error") => void;
+
+function downloadText(filename: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has handed the blob to the download manager.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function exportFileStem(): string {
+  return `harpoon-sessions-${new Date().toISOString().slice(0, 10)}`;
+}
+
+function describeImport(result: SessionImportResult, invalidCount: number): string {
+  const parts = [`Imported ${result.imported ?? 0}`];
+  if (result.renamed) parts.push(`${result.renamed} renamed`);
+  if (result.overwritten) parts.push(`${result.overwritten} overwritten`);
+  if (result.skipped) parts.push(`${result.skipped} over the session cap`);
+  if (invalidCount > 0) parts.push(`${invalidCount} invalid skipped`);
+  return parts.join(" · ");
+}
+
+export function initSessionBackup(showStatus: StatusReporter): void {
+  const listEl = document.getElementById("sessionTransferList")!;
+  const selectAllBtn = document.getElementById("sessionSelectAllBtn")!;
+  const exportJsonBtn = document.getElementById("sessionExportJsonBtn")!;
+  const exportUrlsBtn = document.getElementById("sessionExportUrlsBtn")!;
+  const importText = document.getElementById("sessionImportText") as HTMLTextAreaElement;
+  const importFile = document.getElementById("sessionImportFile") as HTMLInputElement;
+  const importFileBtn = document.getElementById("sessionImportFileBtn")!;
+  const conflictSelect = document.getElementById("sessionImportConflict") as HTMLSelectElement;
+  const importBtn = document.getElementById("sessionImportBtn")!;
+
+  let sessions: TabManagerSession[] = [];
+  const selectedNames = new Set<string>();
+  // URL lists without a `# Name` header import under the file name when one was opened.
+  let importFallbackName = "";
+
+  async function refreshSessions(): Promise<void> {
+    sessions = await listSessions();
+    for (const name of [...selectedNames]) {
+      if (!sessions.some((session) => session.name === name)) selectedNames.delete(name);
+    }
+    renderSessions();
+  }
+
+  function renderSessions(): void {
+    if (sessions.length === 0) {
+      listEl.innerHTML = `<div class="session-transfer-empty">No saved sessions.</div>`;
+      return;
+    }
+    listEl.innerHTML = sessions.map((session, index) => {
+      const path = session.folder ? `${session.folder}/${session.name}` : session.name;
+      const tags = (session.tags || []).map((tag) => ` #${tag}`).join("");
+      return `<label class="binding-row" for="sessionTransfer${index}">
+        <input type="checkbox" id="sessionTransfer${index}" data-name="${escapeHtml(session.name)}"
+          ${selectedNames.has(session.name) ? "checked" : ""} />
+        <span class="binding-action">${escapeHtml(path)}</span>
+        <span class="session-transfer-meta">${session.entries.length} tabs${escapeHtml(tags)}</span>
+      </label>`;
+    }).join("");
+    listEl.querySelectorAll("input[type=checkbox]").forEach((checkbox) => {
+      checkbox.addEventListener("change", () => {
+        const input = checkbox as HTMLInputElement;
+        if (input.checked) selectedNames.add(input.dataset.name!);
+        else selectedNames.delete(input.dataset.name!);
+      });
+    });
+  }
+
+  function selectedSessions(): TabManagerSession[] {
+    return sessions.filter((session) => selectedNames.has(session.name));
+  }
+
+  selectAllBtn.addEventListener("click", () => {
+    const allSelected = sessions.every((session) => selectedNames.has(session.name));
+    selectedNames.clear();
+    if (!allSelected) sessions.forEach((session) => selectedNames.add(session.name));
+    renderSessions();
+  });
+
+  exportJsonBtn.addEventListener("click", () => {
+    const chosen = selectedSessions();
+    if (chosen.length === 0) {
+      showStatus("Select at least one session to export.", "error");
+      return;
+    }
+    downloadText(`${exportFileStem()}.json`, buildSessionExportJson(chosen), "application/json");
+    showStatus(`Exported ${chosen.length} session${chosen.length === 1 ? "" : "s"} as JSON.`, "success");
+  });
+
+  exportUrlsBtn.addEventListener("click", () => {
+    const chosen = selectedSessions();
+    if (chosen.length === 0) {
+      showStatus("Select at least one session to export.", "error");
+      return;
+    }
+    downloadText(`${exportFileStem()}.txt`, buildSessionUrlList(chosen), "text/plain");
+    showStatus(`Exported ${chosen.length} session${chosen.length === 1 ? "" : "s"} as a URL list.`, "success");
+  });
+
+  importFileBtn.addEventListener("click", () => importFile.click());
+
+  importFile.addEventListener("change", async () => {
+    const file = importFile.files?.[0];
+    importFile.value = "";
+    if (!file) return;
+    importText.value = await file.text();
+    importFallbackName = file.name.replace(/\.[^.]+$/, "");
+    showStatus(`Loaded ${file.name} — review, then Import.`, "success");
+  });
+
+  importText.addEventListener("input", () => {
+    importFallbackName = "";
+  });
+
+  importBtn.addEventListener("click", async () => {
+    const fallbackName = importFallbackName || `Imported ${new Date().toLocaleDateString()}`;
+    const parsed = parseSessionImport(importText.value, fallbackName, await loadTabManagerSlotCount());
+    if (!parsed.ok) {
+      showStatus(`Import failed: ${parsed.reason}`, "error");
+      return;
+    }
+    const onConflict: SessionImportConflictMode = conflictSelect.value === "overwrite" ? "overwrite" : "rename";
+    try {
+      const result = await importSessions(parsed.sessions, onConflict);
+      if (!result.ok) {
+        showStatus(`Import failed: ${result.reason || "unknown error"}`, "error");
+        return;
+      }
+      importText.value = "";
+      importFallbackName = "";
+      showStatus(describeImport(result, parsed.skipped), result.skipped ? "error" : "success");
+      await refreshSessions();
+    } catch (error) {
+      console.error("[Harpoon Telescope] Session import failed:", error);
+      showStatus("Import failed: background unavailable", "error");
+    }
+  });
+
+  void refreshSessions().catch((error) => {
+    console.error("[Harpoon Telescope] Failed to list sessions for backup:", error);
+    listEl.innerHTML = `<div class="session-transfer-empty">Sessions unavailable.</div>`;
+  });
+}
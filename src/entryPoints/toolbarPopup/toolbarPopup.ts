@@ -1,6 +1,8 @@
 // Browser-action popup for quick tab-manager actions.
 
+import { getTabManagerSlotCount } from "../../lib/common/contracts/keybindings";
 import { escapeHtml, extractDomain } from "../../lib/common/utils/helpers";
+import { fetchKeybindings } from "../../lib/adapters/runtime/keybindingsApi";
 import {
   addCurrentTabToTabManager,
   jumpToTabManagerSlot,
@@ -11,6 +13,16 @@ import {
 document.addEventListener("DOMContentLoaded", async () => {
   const listEl = document.getElementById("tabManagerList")!;
   const addBtn = document.getElementById("addBtn") as HTMLButtonElement;
+  const jumpSlotShortcut = document.getElementById("jumpSlotShortcut")!;
+
+  async function loadSlotShortcutHint(): Promise<void> {
+    try {
+      const slotCount = getTabManagerSlotCount(await fetchKeybindings());
+      jumpSlotShortcut.textContent = slotCount > 1 ? `Alt+1-${slotCount}` : "Alt+1";
+    } catch (_) {
+      // Keep the static default hint.
+    }
+  }
 
   async function loadTabManagerEntries(): Promise<void> {
     const tabManagerEntries = await listTabManagerEntries();
@@ -30,8 +42,9 @@ document.addEventListener("DOMContentLoaded", async () => {
       <div class="tab-manager-item" data-tab-id="${item.tabId}" data-slot="${item.slot}">
         <span class="slot-badge">${item.slot}</span>
         <div class="item-info">
-          <div class="item-title">${escapeHtml(item.title || "Untitled")}</div>
+          <div class="item-title"${item.label ? ` title="${escapeHtml(item.title || "")}"` : ""}>${escapeHtml(item.label || item.title || "Untitled")}</div>
           <div class="item-url" title="${escapeHtml(item.url)}">${escapeHtml(extractDomain(item.url))}</div>
+          ${item.note ? `<div class="item-note">${escapeHtml(item.note)}</div>` : ""}
         </div>
         <button class="delete-btn" data-tab-id="${item.tabId}" title="Remove">\u00d7</button>
       </div>
@@ -39,7 +52,7 @@ document.addEventListener("DOMContentLoaded", async () => {
       )
       .join("");
 
-    // The list is tiny (<=4), so per-row listeners are simpler than delegation.
+    // The list is tiny (<=9), so per-row listeners are simpler than delegation.
     listEl.querySelectorAll(".tab-manager-item").forEach((itemElement) => {
       itemElement.addEventListener("click", async (event) => {
         if ((event.target as HTMLElement).classList.contains("delete-btn")) return;
@@ -73,4 +86,5 @@ document.addEventListener("DOMContentLoaded", async () => {
   });
 
   await loadTabManagerEntries();
+  await loadSlotShortcutHint();
 });
@@ -0,0 +1,33 @@
+// Lazy tab compat — open a background tab without loading its page. Firefox creates
+// discarded tabs directly (`discarded` + `title`); Chrome rejects those properties, so the
+// tab is opened normally and discarded straight away. Pages that cannot be discarded
+// (privileged URLs, some builds) simply load as usual.
+
+import browser, { Tabs } from "webextension-polyfill";
+import { createTabInContext } from "./tabContextCompat";
+
+function supportsTabDiscard(): boolean {
+  return typeof browser.tabs.discard === "function";
+}
+
+/** createTabInContext for a tab that should only load on first activation. */
+export async function createLazyTabInContext(
+  createProperties: Tabs.CreateCreatePropertiesType,
+  context: TabContext | undefined,
+  title: string,
+): Promise<{ tab: Tabs.Tab; context?: TabContext }> {
+  if (createProperties.active) return await createTabInContext(createProperties, context);
+  try {
+    return await createTabInContext(
+      { ...createProperties, discarded: true, ...(title ? { title } : {}) },
+      context,
+    );
+  } catch (_) {
+    // No create-time discard here (Chrome) or not allowed for this URL; discard after opening.
+  }
+  const created = await createTabInContext(createProperties, context);
+  if (supportsTabDiscard() && created.tab.id != null) {
+    await browser.tabs.discard(created.tab.id).catch(() => {});
+  }
+  return created;
+}
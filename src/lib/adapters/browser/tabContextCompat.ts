@@ -0,0 +1,105 @@
+// Tab context compat — Firefox containers (cookieStoreId) and tab groups (Chrome,
+// Firefox 138+) behind one API so domains can record and restore where a tab lived.
+// Every capability is feature-detected; unsupported browsers degrade to plain tabs.
+
+import browser, { TabGroups, Tabs } from "webextension-polyfill";
+
+// Firefox reports these for tabs outside any container; they are never worth restoring.
+const DEFAULT_COOKIE_STORE_IDS = new Set(["firefox-default", "firefox-private", "0", "1"]);
+
+function supportsTabGroups(): boolean {
+  return typeof browser.tabs.group === "function";
+}
+
+function supportsTabGroupDetails(): boolean {
+  return typeof browser.tabGroups?.get === "function";
+}
+
+/** Container and group identity of a live tab; empty when the tab has neither. */
+export async function readTabContext(tab: Tabs.Tab): Promise<TabContext> {
+  const context: TabContext = {};
+  if (tab.cookieStoreId && !DEFAULT_COOKIE_STORE_IDS.has(tab.cookieStoreId)) {
+    context.cookieStoreId = tab.cookieStoreId;
+  }
+  if (tab.groupId != null && tab.groupId >= 0) {
+    context.group = { id: tab.groupId };
+    if (supportsTabGroupDetails()) {
+      try {
+        const group = await browser.tabGroups.get(tab.groupId);
+        if (group.title) context.group.title = group.title;
+        context.group.color = group.color;
+      } catch (_) {
+        // Group may have been removed between the tab read and this lookup.
+      }
+    }
+  }
+  return context;
+}
+
+export function hasTabContext(context: TabContext | undefined): context is TabContext {
+  return !!context && (!!context.cookieStoreId || !!context.group);
+}
+
+/** Put a tab back in its recorded group: the same group if it still exists in the
+ *  window, else one with the same title/color there, else a recreated group. */
+async function joinRecordedGroup(
+  tab: Tabs.Tab,
+  group: TabGroupIdentity,
+): Promise<number | null> {
+  if (tab.id == null) return null;
+  let targetGroupId: number | null = null;
+  if (supportsTabGroupDetails()) {
+    try {
+      const existing = await browser.tabGroups.get(group.id);
+      if (existing.windowId === tab.windowId) targetGroupId = existing.id;
+    } catch (_) {
+      // Group ids do not survive restarts; fall through to a title/color match.
+    }
+    if (targetGroupId == null && group.title) {
+      const matches = await browser.tabGroups.query({ title: group.title, windowId: tab.windowId })
+        .catch(() => []);
+      targetGroupId = matches.find((candidate) => !group.color || candidate.color === group.color)?.id
+        ?? null;
+    }
+  }
+
+  if (targetGroupId != null) {
+    return await browser.tabs.group({ tabIds: tab.id, groupId: targetGroupId }).catch(() => null);
+  }
+  const createdGroupId = await browser.tabs.group({
+    tabIds: tab.id,
+    ...(tab.windowId != null ? { createProperties: { windowId: tab.windowId } } : {}),
+  }).catch(() => null);
+  if (createdGroupId != null && supportsTabGroupDetails()) {
+    await browser.tabGroups.update(createdGroupId, {
+      ...(group.title ? { title: group.title } : {}),
+      ...(group.color ? { color: group.color as TabGroups.Color } : {}),
+    }).catch(() => {});
+  }
+  return createdGroupId;
+}
+
+/** Create a tab in the recorded container and group when the browser supports them.
+ *  Returns the context to keep on the entry: the recorded identity, with the group id
+ *  refreshed when the group had to be matched or recreated. */
+export async function createTabInContext(
+  createProperties: Tabs.CreateCreatePropertiesType,
+  context: TabContext | undefined,
+): Promise<{ tab: Tabs.Tab; context?: TabContext }> {
+  let tab: Tabs.Tab;
+  if (context?.cookieStoreId) {
+    try {
+      tab = await browser.tabs.create({ ...createProperties, cookieStoreId: context.cookieStoreId });
+    } catch (_) {
+      // Container removed, no container support, or private window: open it plainly.
+      tab = await browser.tabs.create(createProperties);
+    }
+  } else {
+    tab = await browser.tabs.create(createProperties);
+  }
+
+  if (!context?.group || !supportsTabGroups()) return { tab, context };
+  const groupId = await joinRecordedGroup(tab, context.group);
+  if (groupId == null) return { tab, context };
+  return { tab, context: { ...context, group: { ...context.group, id: groupId } } };
+}
@@ -0,0 +1,22 @@
+import { sendRuntimeMessage } from "./runtimeClient";
+
+export interface GlobalMarkMutationResult {
+  ok: boolean;
+  reason?: string;
+}
+
+export function listGlobalMarks(): Promise<GlobalMark[]> {
+  return sendRuntimeMessage<GlobalMark[]>({ type: "GLOBAL_MARK_LIST" });
+}
+
+export function setGlobalMark(name: string): Promise<GlobalMarkMutationResult> {
+  return sendRuntimeMessage<GlobalMarkMutationResult>({ type: "GLOBAL_MARK_SET", name });
+}
+
+export function jumpToGlobalMark(name: string): Promise<GlobalMarkMutationResult> {
+  return sendRuntimeMessage<GlobalMarkMutationResult>({ type: "GLOBAL_MARK_JUMP", name });
+}
+
+export function deleteGlobalMark(name: string): Promise<GlobalMarkMutationResult> {
+  return sendRuntimeMessage<GlobalMarkMutationResult>({ type: "GLOBAL_MARK_DELETE", name });
+}
@@ -0,0 +1,14 @@
+import { sendRuntimeMessage } from "./runtimeClient";
+
+export interface JumpListResult {
+  ok: boolean;
+  reason?: string;
+}
+
+export function jumpListBack(): Promise<JumpListResult> {
+  return sendRuntimeMessage<JumpListResult>({ type: "JUMP_LIST_BACK" });
+}
+
+export function jumpListForward(): Promise<JumpListResult> {
+  return sendRuntimeMessage<JumpListResult>({ type: "JUMP_LIST_FORWARD" });
+}
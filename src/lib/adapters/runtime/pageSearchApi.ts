@@ -0,0 +1,22 @@
+import { sendRuntimeMessage } from "./runtimeClient";
+
+export function listGrepTabTargets(): Promise<GrepTabTarget[]> {
+  return sendRuntimeMessage<GrepTabTarget[]>({ type: "GREP_TAB_TARGETS" });
+}
+
+export function grepTab(
+  tabId: number,
+  query: string,
+  filters: SearchFilter[],
+  mode: SearchQueryMode,
+): Promise<TabGrepResult> {
+  return sendRuntimeMessage<TabGrepResult>({ type: "GREP_TAB", tabId, query, filters, mode });
+}
+
+export function jumpToTabGrepMatch(
+  tabId: number,
+  text: string,
+  frame?: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  return sendRuntimeMessage<{ ok: boolean; reason?: string }>({ type: "GREP_TAB_JUMP", tabId, text, frame });
+}
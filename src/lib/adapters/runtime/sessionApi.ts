@@ -14,12 +14,26 @@ export interface SessionLoadResult {
   replaceCount?: number;
 }
 
+export interface SessionMergeResult {
+  ok: boolean;
+  reason?: string;
+  count?: number;
+  duplicateCount?: number;
+  dropCount?: number;
+}
+
 export interface SessionLoadPlanResult {
   ok: boolean;
   reason?: string;
   summary?: SessionLoadSummary;
 }
 
+export interface SessionRevisionListResult {
+  ok: boolean;
+  reason?: string;
+  revisions?: SessionRevisionView[];
+}
+
 export function listSessions(): Promise<TabManagerSession[]> {
   return sendRuntimeMessage<TabManagerSession[]>({ type: "SESSION_LIST" });
 }
@@ -37,12 +51,30 @@ export function saveSessionByName(name: string): Promise<SessionMutationResult>
   return sendRuntimeMessage<SessionMutationResult>({ type: "SESSION_SAVE", name });
 }
 
-export function loadSessionByName(name: string): Promise<SessionLoadResult> {
-  return sendRuntimeMessage<SessionLoadResult>({ type: "SESSION_LOAD", name });
+export function saveWindowSessionByName(name: string): Promise<SessionMutationResult> {
+  return sendRuntimeMessage<SessionMutationResult>({ type: "SESSION_SAVE_WINDOW", name });
+}
+
+export function loadSessionByName(
+  name: string,
+  window?: SessionLoadWindowOptions,
+): Promise<SessionLoadResult> {
+  return sendRuntimeMessage<SessionLoadResult>({ type: "SESSION_LOAD", name, ...(window ? { window } : {}) });
+}
+
+export function loadSessionPlanByName(
+  name: string,
+  window?: SessionLoadWindowOptions,
+): Promise<SessionLoadPlanResult> {
+  return sendRuntimeMessage<SessionLoadPlanResult>({ type: "SESSION_LOAD_PLAN", name, ...(window ? { window } : {}) });
+}
+
+export function loadSessionMergePlanByName(name: string): Promise<SessionLoadPlanResult> {
+  return sendRuntimeMessage<SessionLoadPlanResult>({ type: "SESSION_MERGE_PLAN", name });
 }
 
-export function loadSessionPlanByName(name: string): Promise<SessionLoadPlanResult> {
-  return sendRuntimeMessage<SessionLoadPlanResult>({ type: "SESSION_LOAD_PLAN", name });
+export function mergeSessionByName(name: string): Promise<SessionMergeResult> {
+  return sendRuntimeMessage<SessionMergeResult>({ type: "SESSION_MERGE", name });
 }
 
 export function deleteSessionByName(name: string): Promise<{ ok: boolean }> {
@@ -67,3 +99,38 @@ export function replaceSession(
     newName,
   });
 }
+
+export function getAutoSnapshot(): Promise<TabManagerAutoSnapshot | null> {
+  return sendRuntimeMessage<TabManagerAutoSnapshot | null>({ type: "SESSION_AUTO_SNAPSHOT" });
+}
+
+export function restoreAutoSnapshot(): Promise<SessionLoadResult> {
+  return sendRuntimeMessage<SessionLoadResult>({ type: "SESSION_AUTO_SNAPSHOT_RESTORE" });
+}
+
+export function listSessionRevisions(name: string): Promise<SessionRevisionListResult> {
+  return sendRuntimeMessage<SessionRevisionListResult>({ type: "SESSION_REVISIONS", name });
+}
+
+export function rollbackSession(name: string, replacedAt: number): Promise<SessionLoadResult> {
+  return sendRuntimeMessage<SessionLoadResult>({ type: "SESSION_ROLLBACK", name, replacedAt });
+}
+
+export function diffSessions(leftName: string, rightName: string): Promise<SessionDiffResult> {
+  return sendRuntimeMessage<SessionDiffResult>({ type: "SESSION_DIFF", leftName, rightName });
+}
+
+export function copySessionEntriesBetween(
+  fromName: string,
+  toName: string,
+  urls: string[],
+): Promise<SessionLoadResult> {
+  return sendRuntimeMessage<SessionLoadResult>({ type: "SESSION_COPY_ENTRIES", fromName, toName, urls });
+}
+
+export function importSessions(
+  sessions: TabManagerSession[],
+  onConflict: SessionImportConflictMode,
+): Promise<SessionImportResult> {
+  return sendRuntimeMessage<SessionImportResult>({ type: "SESSION_IMPORT", sessions, onConflict });
+}
@@ -6,6 +6,21 @@ export interface TabManagerMutationResult {
   slot?: number;
 }
 
+export interface TabManagerLockResult extends TabManagerMutationResult {
+  locked?: boolean;
+}
+
+export interface TabManagerHistoryResult {
+  ok: boolean;
+  reason?: string;
+  count?: number;
+}
+
+export interface TabManagerWorkspaceResult extends TabManagerMutationResult {
+  name?: string;
+  count?: number;
+}
+
 export function listTabManagerEntries(): Promise<TabManagerEntry[]> {
   return sendRuntimeMessage<TabManagerEntry[]>({ type: "TAB_MANAGER_LIST" });
 }
@@ -35,6 +50,50 @@ export function cycleTabManagerSlot(direction: "prev" | "next"): Promise<void> {
   return sendRuntimeMessage<void>({ type: "TAB_MANAGER_CYCLE", direction });
 }
 
+export function undoTabManagerChange(): Promise<TabManagerHistoryResult> {
+  return sendRuntimeMessage<TabManagerHistoryResult>({ type: "TAB_MANAGER_UNDO" });
+}
+
+export function redoTabManagerChange(): Promise<TabManagerHistoryResult> {
+  return sendRuntimeMessage<TabManagerHistoryResult>({ type: "TAB_MANAGER_REDO" });
+}
+
+export function toggleTabManagerLock(tabId: number): Promise<TabManagerLockResult> {
+  return sendRuntimeMessage<TabManagerLockResult>({ type: "TAB_MANAGER_LOCK_TOGGLE", tabId });
+}
+
+export function annotateTabManagerEntry(
+  tabId: number,
+  field: TabManagerAnnotationField,
+  value: string,
+): Promise<TabManagerMutationResult> {
+  return sendRuntimeMessage<TabManagerMutationResult>({ type: "TAB_MANAGER_ANNOTATE", tabId, field, value });
+}
+
+export function switchToAlternateTab(): Promise<TabManagerMutationResult> {
+  return sendRuntimeMessage<TabManagerMutationResult>({ type: "ALTERNATE_TAB" });
+}
+
 export function reorderTabManagerEntries(list: TabManagerEntry[]): Promise<{ ok: boolean; reason?: string }> {
   return sendRuntimeMessage<{ ok: boolean; reason?: string }>({ type: "TAB_MANAGER_REORDER", list });
 }
+
+export function setTabManagerMark(mark: string): Promise<TabManagerMutationResult> {
+  return sendRuntimeMessage<TabManagerMutationResult>({ type: "TAB_MANAGER_MARK_SET", mark });
+}
+
+export function jumpToTabManagerMark(mark: string, slot?: number): Promise<TabManagerMutationResult> {
+  return sendRuntimeMessage<TabManagerMutationResult>({ type: "TAB_MANAGER_MARK_JUMP", mark, slot });
+}
+
+export function listTabManagerWorkspaces(): Promise<TabManagerWorkspaceSummary[]> {
+  return sendRuntimeMessage<TabManagerWorkspaceSummary[]>({ type: "TAB_MANAGER_WORKSPACE_LIST" });
+}
+
+export function switchTabManagerWorkspace(name: string): Promise<TabManagerWorkspaceResult> {
+  return sendRuntimeMessage<TabManagerWorkspaceResult>({ type: "TAB_MANAGER_WORKSPACE_SWITCH", name });
+}
+
+export function deleteTabManagerWorkspace(name: string): Promise<TabManagerWorkspaceResult> {
+  return sendRuntimeMessage<TabManagerWorkspaceResult>({ type: "TAB_MANAGER_WORKSPACE_DELETE", name });
+}
@@ -2,15 +2,29 @@
 // Imported by contentScript.ts as the single bootstrap for all content-side logic.
 
 import browser from "webextension-polyfill";
-import { DEFAULT_KEYBINDINGS, matchesAction } from "../common/contracts/keybindings";
-import { grepPage, getPageContent } from "../ui/panels/searchCurrentPage/grep";
-import { scrollToText } from "../common/utils/scroll";
+import {
+  DEFAULT_KEYBINDINGS,
+  MAX_TAB_MANAGER_SLOTS,
+  isGlobalMarkName,
+  isLocalMarkName,
+  jumpSlotAction,
+  matchesAction,
+} from "../common/contracts/keybindings";
+import { grepPage, getPageContent, invalidateUnobservedCache } from "../ui/panels/searchCurrentPage/grep";
+import {
+  captureScrollAnchor,
+  restoreScrollPosition,
+  scrollToText,
+} from "../common/utils/scroll";
 import { showFeedback } from "../common/utils/feedback";
 import { toastMessages } from "../common/utils/toastMessages";
 import { openTabManager } from "../ui/panels/tabManager/tabManager";
 import { openSessionMenu } from "../ui/panels/sessionMenu/sessionMenu";
 import { openSearchCurrentPage } from "../ui/panels/searchCurrentPage/searchCurrentPage";
 import { openSearchOpenTabs } from "../ui/panels/searchOpenTabs/searchOpenTabs";
+import { openSearchAllTabs } from "../ui/panels/searchAllTabs/searchAllTabs";
+import { openWorkspaces } from "../ui/panels/workspaces/workspaces";
+import { openMarks } from "../ui/panels/marks/marks";
 import { openHelpOverlay } from "../ui/panels/help/help";
 import { dismissPanel } from "../common/utils/panelHost";
 import { ContentRuntimeMessage } from "../common/contracts/runtimeMessages";
@@ -18,8 +32,13 @@ import { openSessionRestoreOverlay } from "../ui/panels/sessionMenu/sessionResto
 import {
   addCurrentTabToTabManager,
   cycleTabManagerSlot,
+  jumpToTabManagerMark,
   jumpToTabManagerSlot,
+  setTabManagerMark,
+  switchToAlternateTab,
 } from "../adapters/runtime/tabManagerApi";
+import { jumpToGlobalMark, setGlobalMark } from "../adapters/runtime/globalMarksApi";
+import { jumpListBack, jumpListForward } from "../adapters/runtime/jumpListApi";
 import { fetchKeybindings } from "../adapters/runtime/keybindingsApi";
 import { notifyContentScriptReady } from "../adapters/runtime/contentLifecycleApi";
 
@@ -119,6 +138,40 @@ export function initApp(): void {
     return true;
   }
 
+  // -- Mark Prompt --
+  // Set/jump mark bindings arm a one-shot listener for the mark letter (vim `ma` / `'a`).
+  // Lowercase letters target the current slot's marks; uppercase letters are global.
+  const MARK_PROMPT_TIMEOUT_MS = 3000;
+  let cancelMarkPrompt: (() => void) | null = null;
+
+  function promptForMark(prompt: string, onMark: (mark: string) => void): void {
+    if (cancelMarkPrompt) cancelMarkPrompt();
+    showFeedback(prompt);
+
+    const timeoutId = setTimeout(() => cancel(), MARK_PROMPT_TIMEOUT_MS);
+    function cancel(): void {
+      clearTimeout(timeoutId);
+      document.removeEventListener("keydown", onMarkKey, true);
+      cancelMarkPrompt = null;
+    }
+    function onMarkKey(event: KeyboardEvent): void {
+      if (["Control", "Alt", "Shift", "Meta"].includes(event.key)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      cancel();
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+      if (isLocalMarkName(event.key) || isGlobalMarkName(event.key)) onMark(event.key);
+    }
+
+    document.addEventListener("keydown", onMarkKey, true);
+    cancelMarkPrompt = cancel;
+  }
+
+  function reportMarkResult(result: { ok: boolean; reason?: string }, successMessage?: string): void {
+    if (!result.ok) showFeedback(result.reason || toastMessages.markActionFailed);
+    else if (successMessage) showFeedback(successMessage);
+  }
+
   // -- Global Keybinding Handler --
   // Runs on capture phase so pages that call stopPropagation() on keydown
   // can't break our keybinds. Fully synchronous — no microtask overhead.
@@ -137,21 +190,36 @@ export function initApp(): void {
       action: "addTab",
       run: () => { void addCurrentTabToTabManager(); },
     },
+    // One jump action per possible slot; matchesAction skips slots past the configured count.
+    ...Array.from({ length: MAX_TAB_MANAGER_SLOTS }, (_, index): GlobalActionRegistration => ({
+      action: jumpSlotAction(index + 1),
+      run: () => { void jumpToTabManagerSlot(index + 1); },
+    })),
     {
-      action: "jumpSlot1",
-      run: () => { void jumpToTabManagerSlot(1); },
+      action: "setMark",
+      run: () => promptForMark(toastMessages.markPrompt, (mark) => {
+        if (isGlobalMarkName(mark)) {
+          setGlobalMark(mark)
+            .then((result) => reportMarkResult(result, toastMessages.globalMarkSet(mark)))
+            .catch(() => showFeedback(toastMessages.markActionFailed));
+          return;
+        }
+        setTabManagerMark(mark)
+          .then((result) => reportMarkResult(result, toastMessages.markSet(mark, result.slot ?? 0)))
+          .catch(() => showFeedback(toastMessages.markActionFailed));
+      }),
     },
     {
-      action: "jumpSlot2",
-      run: () => { void jumpToTabManagerSlot(2); },
+      action: "jumpToMark",
+      run: () => promptForMark(toastMessages.markJumpPrompt, (mark) => {
+        (isGlobalMarkName(mark) ? jumpToGlobalMark(mark) : jumpToTabManagerMark(mark))
+          .then((result) => reportMarkResult(result))
+          .catch(() => showFeedback(toastMessages.markActionFailed));
+      }),
     },
     {
-      action: "jumpSlot3",
-      run: () => { void jumpToTabManagerSlot(3); },
-    },
-    {
-      action: "jumpSlot4",
-      run: () => { void jumpToTabManagerSlot(4); },
+      action: "openMarks",
+      run: (config) => openPanel(() => openMarks(config)),
     },
     {
       action: "cyclePrev",
@@ -161,6 +229,30 @@ export function initApp(): void {
       action: "cycleNext",
       run: () => { void cycleTabManagerSlot("next"); },
     },
+    {
+      action: "jumpBack",
+      run: () => {
+        jumpListBack()
+          .then((result) => { if (!result.ok && result.reason) showFeedback(result.reason); })
+          .catch(() => showFeedback(toastMessages.jumpListFailed));
+      },
+    },
+    {
+      action: "jumpForward",
+      run: () => {
+        jumpListForward()
+          .then((result) => { if (!result.ok && result.reason) showFeedback(result.reason); })
+          .catch(() => showFeedback(toastMessages.jumpListFailed));
+      },
+    },
+    {
+      action: "alternateTab",
+      run: () => {
+        switchToAlternateTab()
+          .then((result) => { if (!result.ok && result.reason) showFeedback(result.reason); })
+          .catch(() => showFeedback(toastMessages.alternateTabFailed));
+      },
+    },
     {
       action: "searchInPage",
       run: (config) => openPanel(() => openSearchCurrentPage(config)),
@@ -169,6 +261,10 @@ export function initApp(): void {
       action: "openFrecency",
       run: (config) => openPanel(() => openSearchOpenTabs(config)),
     },
+    {
+      action: "searchAllTabs",
+      run: (config) => openPanel(() => openSearchAllTabs(config)),
+    },
     {
       action: "openSessions",
       run: (config) => openPanel(() => openSessionMenu(config)),
@@ -177,6 +273,10 @@ export function initApp(): void {
       action: "openSessionSave",
       run: (config) => openPanel(() => openSessionMenu(config, "saveSession")),
     },
+    {
+      action: "openWorkspaces",
+      run: (config) => openPanel(() => openWorkspaces(config)),
+    },
     {
       action: "openHelp",
       run: (config) => openPanel(() => openHelpOverlay(config)),
@@ -221,16 +321,24 @@ export function initApp(): void {
         return Promise.resolve({
           scrollX: window.scrollX,
           scrollY: window.scrollY,
+          anchor: captureScrollAnchor() ?? undefined,
         });
       case "SET_SCROLL":
-        window.scrollTo(receivedMessage.scrollX, receivedMessage.scrollY);
+        restoreScrollPosition(
+          receivedMessage.scrollX,
+          receivedMessage.scrollY,
+          receivedMessage.anchor,
+        );
         return Promise.resolve({ ok: true });
       case "GREP":
+        invalidateUnobservedCache();
         return Promise.resolve(
+          // Node refs can't cross the message boundary; the receiver scrolls by text.
           grepPage(
             receivedMessage.query,
             receivedMessage.filters || [],
-          ),
+            receivedMessage.mode,
+          ).map(({ nodeRef: _nodeRef, ...result }) => result),
         );
       case "GET_CONTENT":
         return Promise.resolve(getPageContent());
@@ -259,7 +367,7 @@ export function initApp(): void {
           openSessionRestoreOverlay();
         return Promise.resolve({ ok: true });
       case "SCROLL_TO_TEXT":
-        scrollToText(receivedMessage.text);
+        scrollToText(receivedMessage.text, undefined, receivedMessage.frame);
         return Promise.resolve({ ok: true });
       case "TAB_MANAGER_ADDED_FEEDBACK":
         showFeedback(
@@ -291,6 +399,7 @@ export function initApp(): void {
 
   // Allow next injection to clean up this one
   window.__harpoonTelescopeCleanup = () => {
+    if (cancelMarkPrompt) cancelMarkPrompt();
     document.removeEventListener("keydown", globalKeyHandler, true);
     document.removeEventListener("visibilitychange", visibilityHandler);
     browser.runtime.onMessage.removeListener(messageHandler);
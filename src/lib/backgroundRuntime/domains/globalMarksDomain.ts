@@ -0,0 +1,102 @@
+// Global mark handlers — uppercase A-Z marks that remember a URL and scroll position.
+// Jumping reuses an open tab with the same normalized URL before opening a new one.
+
+import browser, { Tabs } from "webextension-polyfill";
+import { isGlobalMarkName } from "../../common/contracts/keybindings";
+import { normalizeUrlForMatch } from "../../common/utils/helpers";
+import { TabManagerState } from "./sessionDomain";
+
+async function loadGlobalMarks(): Promise<GlobalMark[]> {
+  const stored = await browser.storage.local.get("globalMarks");
+  return (stored.globalMarks as GlobalMark[]) || [];
+}
+
+async function saveGlobalMarks(globalMarks: GlobalMark[]): Promise<void> {
+  await browser.storage.local.set({ globalMarks });
+}
+
+export async function globalMarkSet(
+  tab: Tabs.Tab,
+  name: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  if (!isGlobalMarkName(name)) return { ok: false, reason: "Global marks must be A-Z" };
+  if (tab.id == null || !tab.url) return { ok: false, reason: "Active tab unavailable." };
+
+  let scrollX = 0;
+  let scrollY = 0;
+  let anchor: ScrollAnchor | undefined;
+  try {
+    const response = (await browser.tabs.sendMessage(tab.id, {
+      type: "GET_SCROLL",
+    })) as ScrollData;
+    scrollX = response.scrollX || 0;
+    scrollY = response.scrollY || 0;
+    anchor = response.anchor;
+  } catch (_) {
+    return { ok: false, reason: "Page scroll unavailable" };
+  }
+
+  const globalMarks = (await loadGlobalMarks()).filter((mark) => mark.name !== name);
+  globalMarks.push({
+    name,
+    url: tab.url,
+    title: tab.title || "",
+    scrollX,
+    scrollY,
+    ...(anchor ? { anchor } : {}),
+    savedAt: Date.now(),
+  });
+  globalMarks.sort((a, b) => a.name.localeCompare(b.name));
+  await saveGlobalMarks(globalMarks);
+  return { ok: true };
+}
+
+export async function globalMarkList(): Promise<GlobalMark[]> {
+  return await loadGlobalMarks();
+}
+
+/** Find an open tab for the mark's URL, preferring the focused window. */
+async function findOpenTabForUrl(url: string): Promise<Tabs.Tab | null> {
+  const normalizedUrl = normalizeUrlForMatch(url);
+  if (!normalizedUrl) return null;
+  const [currentTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  const matches = (await browser.tabs.query({})).filter((tab) =>
+    tab.id != null && normalizeUrlForMatch(tab.url || "") === normalizedUrl);
+  return matches.find((tab) => tab.windowId === currentTab?.windowId) ?? matches[0] ?? null;
+}
+
+export async function globalMarkJump(
+  state: TabManagerState,
+  name: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  const mark = (await loadGlobalMarks()).find((candidate) => candidate.name === name);
+  if (!mark) return { ok: false, reason: `Mark '${name}' not set` };
+
+  const existing = await findOpenTabForUrl(mark.url);
+  const [originTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  if (originTab?.id !== existing?.id) await state.recordJump(originTab?.id);
+  let tabId: number | undefined;
+  // The matching tab may close between the lookup and the switch; reopen by URL then.
+  const switched = existing?.id != null
+    ? await browser.tabs.update(existing.id, { active: true }).catch(() => null)
+    : null;
+  if (switched) {
+    if (switched.windowId != null) {
+      await browser.windows.update(switched.windowId, { focused: true }).catch(() => {});
+    }
+    tabId = switched.id;
+  } else {
+    const created = await browser.tabs.create({ url: mark.url, active: true }).catch(() => null);
+    tabId = created?.id;
+  }
+
+  if (tabId == null) return { ok: false, reason: "Could not open tab" };
+  state.queueScrollRestore(tabId, mark.scrollX, mark.scrollY, mark.anchor);
+  return { ok: true };
+}
+
+export async function globalMarkDelete(name: string): Promise<{ ok: boolean }> {
+  const globalMarks = await loadGlobalMarks();
+  await saveGlobalMarks(globalMarks.filter((mark) => mark.name !== name));
+  return { ok: true };
+}
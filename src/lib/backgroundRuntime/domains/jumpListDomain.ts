@@ -0,0 +1,170 @@
+// Jumplist — vim-style Ctrl+O / Ctrl+I history of tab switches the extension performs.
+// One instance per background, reached through TabManagerState.recordJump: callers record
+// the tab they are leaving before switching;// back/forward hop through the recorded tabs and restore each one's scroll.
+
+import browser from "webextension-polyfill";
+import { normalizeUrlForMatch } from "../../common/utils/helpers";
+import { TabManagerState } from "./sessionDomain";
+
+interface JumpListEntry {
+  tabId: number;
+  url: string;
+  scrollX: number;
+  scrollY: number;
+  anchor?: ScrollAnchor;
+}
+
+interface StoredJumpList {
+  entries: JumpListEntry[];
+  index: number;
+}
+
+export interface JumpListDomain {
+  /** Record the tab being left before the extension switches away from it */
+  record(fromTabId: number | undefined): Promise<void>;
+  back(state: TabManagerState): Promise<{ ok: boolean; reason?: string }>;
+  forward(state: TabManagerState): Promise<{ ok: boolean; reason?: string }>;
+}
+
+const MAX_JUMP_LIST_ENTRIES = 50;
+
+async function capturePosition(tabId: number): Promise<JumpListEntry | null> {
+  try {
+    const tab = await browser.tabs.get(tabId);
+    if (!tab.url) return null;
+    const position: JumpListEntry = { tabId, url: tab.url, scrollX: 0, scrollY: 0 };
+    try {
+      const response = (await browser.tabs.sendMessage(tabId, {
+        type: "GET_SCROLL",
+      })) as ScrollData;
+      position.scrollX = response.scrollX || 0;
+      position.scrollY = response.scrollY || 0;
+      if (response.anchor) position.anchor = response.anchor;
+    } catch (_) {
+      // Content script may be unavailable on restricted pages.
+    }
+    return position;
+  } catch (_) {
+    return null;
+  }
+}
+
+async function activeTabId(): Promise<number | undefined> {
+  const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  return activeTab?.id;
+}
+
+/** Activate a recorded tab if it still shows the recorded page. */
+async function hopTo(state: TabManagerState, entry: JumpListEntry): Promise<boolean> {
+  try {
+    const tab = await browser.tabs.get(entry.tabId);
+    if (normalizeUrlForMatch(tab.url || "") !== normalizeUrlForMatch(entry.url)) return false;
+    await browser.tabs.update(entry.tabId, { active: true });
+    if (tab.windowId != null) {
+      await browser.windows.update(tab.windowId, { focused: true }).catch(() => {});
+    }
+  } catch (_) {
+    return false;
+  }
+  state.queueScrollRestore(entry.tabId, entry.scrollX, entry.scrollY, entry.anchor);
+  return true;
+}
+
+export function createJumpListDomain(): JumpListDomain {
+  // Entries before `jumpIndex` are behind us; `jumpIndex === length` means we are
+  // past the newest entry (no hop in progress), like vim's jumplist pointer.
+  let jumpList: JumpListEntry[] = [];
+  let jumpIndex = 0;
+  let jumpListLoaded = false;
+
+  async function ensureJumpListLoaded(): Promise<void> {
+    if (jumpListLoaded) return;
+    // Persisted so MV3 service-worker restarts keep history; stale tab ids are
+    // caught by the URL check when hopping.
+    const data = await browser.storage.local.get("jumpList");
+    const stored = data.jumpList as StoredJumpList | undefined;
+    jumpList = Array.isArray(stored?.entries) ? stored.entries : [];
+    jumpIndex = Math.min(Math.max(0, Number(stored?.index) || 0), jumpList.length);
+    jumpListLoaded = true;
+  }
+
+  async function saveJumpList(): Promise<void> {
+    const jumpListData: StoredJumpList = { entries: jumpList, index: jumpIndex };
+    await browser.storage.local.set({ jumpList: jumpListData });
+  }
+
+  /** Append a position, dropping any older entry for the same tab (vim keeps one entry per line). */
+  function pushPosition(position: JumpListEntry): void {
+    jumpList = jumpList.filter((entry) => entry.tabId !== position.tabId);
+    jumpList.push(position);
+    if (jumpList.length > MAX_JUMP_LIST_ENTRIES) {
+      jumpList = jumpList.slice(jumpList.length - MAX_JUMP_LIST_ENTRIES);
+    }
+    jumpIndex = jumpList.length;
+  }
+
+  /** A new jump discards any forward history, like browser back/forward. */
+  async function recordJump(fromTabId: number | undefined): Promise<void> {
+    if (fromTabId == null) return;
+    await ensureJumpListLoaded();
+    const position = await capturePosition(fromTabId);
+    if (!position) return;
+    jumpList = jumpList.slice(0, jumpIndex);
+    pushPosition(position);
+    await saveJumpList();
+  }
+
+  async function walkJumpList(
+    state: TabManagerState,
+    direction: "back" | "forward",
+  ): Promise<{ ok: boolean; reason?: string }> {
+    await ensureJumpListLoaded();
+    const currentTabId = await activeTabId();
+
+    if (direction === "back" && jumpIndex >= jumpList.length) {
+      // Leaving the newest position: remember it so jumpForward can return here.
+      // When it cannot be read (restricted page), start from the newest entry itself.
+      const current = currentTabId != null ? await capturePosition(currentTabId) : null;
+      if (current) {
+        pushPosition(current);
+        jumpIndex = jumpList.length - 1;
+      }
+    } else if (jumpList[jumpIndex]?.tabId === currentTabId && currentTabId != null) {
+      // Refresh the scroll of the entry we are leaving.
+      const current = await capturePosition(currentTabId);
+      if (current) jumpList[jumpIndex] = current;
+    }
+
+    const step = direction === "back" ? -1 : 1;
+    let target = jumpIndex + step;
+    while (target >= 0 && target < jumpList.length) {
+      const entry = jumpList[target];
+      if (entry.tabId !== currentTabId && await hopTo(state, entry)) {
+        jumpIndex = target;
+        await saveJumpList();
+        return { ok: true };
+      }
+      if (entry.tabId === currentTabId) {
+        target += step;
+        continue;
+      }
+      // Tab closed or navigated elsewhere: drop it and keep walking.
+      jumpList.splice(target, 1);
+      if (target < jumpIndex) jumpIndex--;
+      if (direction === "back") target--;
+    }
+
+    jumpIndex = Math.min(Math.max(0, jumpIndex), jumpList.length);
+    await saveJumpList();
+    return {
+      ok: false,
+      reason: direction === "back" ? "No older jumps" : "No newer jumps",
+    };
+  }
+
+  return {
+    record: recordJump,
+    back: async (state) => await walkJumpList(state, "back"),
+    forward: async (state) => await walkJumpList(state, "forward"),
+  };
+}
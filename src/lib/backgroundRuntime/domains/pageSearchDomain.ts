@@ -1,8 +1,16 @@
-import browser from "webextension-polyfill";
+import browser, { Tabs } from "webextension-polyfill";
+import { JumpListDomain } from "./jumpListDomain";
+import { validateSearchQuery } from "../../common/utils/searchRegex";
+
+// A tab that doesn't answer within this window (busy page, frozen renderer) is skipped
+// so one slow tab can't hold up a multi-tab grep.
+const TAB_GREP_TIMEOUT_MS = 2000;
+const GREPPABLE_PROTOCOLS = ["http:", "https:", "file:"];
 
 export async function grepCurrentTab(
   query: string,
   filters: SearchFilter[] = [],
+  mode: SearchQueryMode = "fuzzy",
 ): Promise<GrepResult[]> {
   const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
   if (!tab || tab.id == null) return [];
@@ -12,6 +20,7 @@ export async function grepCurrentTab(
       type: "GREP",
       query,
       filters,
+      mode,
     })) as GrepResult[];
   } catch (_) {
     return [];
@@ -27,3 +36,90 @@ export async function getPageContent(tabId: number): Promise<PageContent> {
     return { text: "", lines: [] };
   }
 }
+
+function isGreppableUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    return GREPPABLE_PROTOCOLS.includes(new URL(url).protocol);
+  } catch (_) {
+    return false;
+  }
+}
+
+/** Tabs in every window that have a live content script to grep, current window first.
+ *  Discarded tabs are skipped: they hold no page until visited. */
+export async function listGrepTabTargets(): Promise<GrepTabTarget[]> {
+  const [currentTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  const tabs = await browser.tabs.query({});
+  const targets: GrepTabTarget[] = [];
+  for (const tab of tabs) {
+    if (tab.id == null || tab.discarded || !isGreppableUrl(tab.url)) continue;
+    targets.push({
+      tabId: tab.id,
+      windowId: tab.windowId ?? -1,
+      title: tab.title || "",
+      url: tab.url!,
+      isCurrent: tab.id === currentTab?.id,
+    });
+  }
+  const currentWindowId = currentTab?.windowId;
+  return targets.sort((a, b) =>
+    Number(b.isCurrent) - Number(a.isCurrent)
+    || Number(b.windowId === currentWindowId) - Number(a.windowId === currentWindowId));
+}
+
+/** GREP one tab, giving up after TAB_GREP_TIMEOUT_MS. The timeout only stops the wait,
+ *  not the tab's own scan, so a query the regex guard rejects is never sent. */
+export async function grepTab(
+  tabId: number,
+  query: string,
+  filters: SearchFilter[] = [],
+  mode: SearchQueryMode = "fuzzy",
+): Promise<TabGrepResult> {
+  const validation = validateSearchQuery(query, mode);
+  if (!validation.ok) return { ok: false, reason: validation.reason };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), TAB_GREP_TIMEOUT_MS);
+  });
+  try {
+    const response = await Promise.race([
+      browser.tabs.sendMessage(tabId, { type: "GREP", query, filters, mode }) as Promise<GrepResult[]>,
+      timeout,
+    ]);
+    if (response === "timeout") return { ok: false, reason: "Tab did not respond", timedOut: true };
+    return { ok: true, results: Array.isArray(response) ? response : [] };
+  } catch (_) {
+    return { ok: false, reason: "Tab unavailable" };
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+/** Switch to a grep match's tab (recording the jump) and scroll to the matched text */
+export async function jumpToTabGrepMatch(
+  jumpList: JumpListDomain,
+  tabId: number,
+  text: string,
+  frame?: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  let tab: Tabs.Tab;
+  try {
+    tab = await browser.tabs.get(tabId);
+  } catch (_) {
+    return { ok: false, reason: "Tab was closed" };
+  }
+  const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  if (activeTab?.id !== tabId) await jumpList.record(activeTab?.id);
+  await browser.tabs.update(tabId, { active: true });
+  if (tab.windowId != null) {
+    await browser.windows.update(tab.windowId, { focused: true }).catch(() => {});
+  }
+  try {
+    await browser.tabs.sendMessage(tabId, { type: "SCROLL_TO_TEXT", text, frame });
+  } catch (_) {
+    return { ok: false, reason: "Could not scroll to match" };
+  }
+  return { ok: true };
+}
@@ -1,9 +1,30 @@
 // Session CRUD handlers — save, list, load, and delete tab manager sessions.
 // Extracted from background.ts; requires access to tab manager state via TabManagerState interface.
 
-import browser from "webextension-polyfill";
-import { MAX_SESSIONS } from "../../common/contracts/keybindings";
+import browser, { Tabs } from "webextension-polyfill";
+import {
+  loadSessionLazyLoad,
+  loadSessionLimit,
+  loadTabManagerPerWindow,
+  loadTabManagerSlotCount,
+} from "../../common/contracts/keybindings";
+import { MAX_SESSION_REVISIONS } from "../../common/contracts/tabManagerLimits";
 import { normalizeUrlForMatch } from "../../common/utils/helpers";
+import { copySessionEntries, diffSessionEntries } from "../../common/utils/sessionDiff";
+import { applySessionLabel, parseSessionLabel } from "../../common/utils/sessionLabels";
+import {
+  computeSessionMerge,
+  resolveDisplayTitle,
+  savedTabStripOrder,
+  splitSessionEntries,
+} from "../../common/utils/sessionPlans";
+import { normalizeSessions } from "../../common/utils/storageMigrations";
+import {
+  createTabInContext,
+  hasTabContext,
+  readTabContext,
+} from "../../adapters/browser/tabContextCompat";
+import { createLazyTabInContext } from "../../adapters/browser/lazyTabCompat";
 
 /** Interface for accessing tab manager state from the background script */
 export interface TabManagerState {
@@ -11,8 +32,22 @@ export interface TabManagerState {
   setList(list: TabManagerEntry[]): void;
   recompactSlots(): void;
   save(): Promise<void>;
-  ensureLoaded(): Promise<void>;
-  queueScrollRestore(tabId: number, scrollX: number, scrollY: number): void;
+  /** Bind the list for a window (defaults to the focused one when lists are per-window) */
+  ensureLoaded(windowId?: number): Promise<void>;
+  queueScrollRestore(tabId: number, scrollX: number, scrollY: number, anchor?: ScrollAnchor): void;
+  /** Restore scroll only once the tab's content script reports ready (lazily loaded tabs) */
+  deferScrollRestore(tabId: number, scrollX: number, scrollY: number, anchor?: ScrollAnchor): void;
+  /** Put the tab being left on the jumplist before switching away from it */
+  recordJump(fromTabId: number | undefined): Promise<void>;
+}
+
+interface SessionLoadOutcome {
+  ok: boolean;
+  reason?: string;
+  count?: number;
+  replaceCount?: number;
+  openCount?: number;
+  reuseCount?: number;
 }
 
 interface SessionLoadComputation {
@@ -21,17 +56,28 @@ interface SessionLoadComputation {
   reuseCount: number;
 }
 
-function resolveDisplayTitle(title: string | undefined, url: string | undefined): string {
-  const trimmedTitle = (title || "").trim();
-  if (trimmedTitle) return trimmedTitle;
-  const trimmedUrl = (url || "").trim();
-  if (trimmedUrl) return trimmedUrl;
-  return "Untitled";
+function toSessionEntry(entry: TabManagerEntry): TabManagerSessionEntry {
+  return {
+    url: entry.url,
+    title: entry.title,
+    scrollX: entry.scrollX,
+    scrollY: entry.scrollY,
+    ...(entry.scrollAnchor ? { scrollAnchor: entry.scrollAnchor } : {}),
+    ...(entry.locked ? { locked: true } : {}),
+    ...(entry.context ? { context: entry.context } : {}),
+    ...(entry.label ? { label: entry.label } : {}),
+    ...(entry.note ? { note: entry.note } : {}),
+  };
 }
 
+type SlotDiffEntry = Pick<TabManagerSessionEntry, "url" | "title">;
+
+// Earlier versions of each saved session, keyed by lowercase session name.
+type SessionRevisionStore = Record<string, TabManagerSessionRevision[]>;
+
 function buildSessionSlotDiffs(
-  currentList: TabManagerEntry[],
-  incomingEntries: TabManagerSessionEntry[],
+  currentList: SlotDiffEntry[],
+  incomingEntries: SlotDiffEntry[],
 ): SessionLoadSlotDiff[] {
   const diffRows: SessionLoadSlotDiff[] = [];
   const maxLen = Math.max(currentList.length, incomingEntries.length);
@@ -119,6 +165,8 @@ function computeSessionLoad(
       && incomingUrl
       && currentUrl
       && incomingUrl === currentUrl
+      // Same page in another container is a different login; open a fresh tab.
+      && (current.context?.cookieStoreId ?? "") === (entry.context?.cookieStoreId ?? "")
     );
 
     if (isUnchangedSlot) {
@@ -133,26 +181,99 @@ function computeSessionLoad(
   return { reuseTabIds, reuseCount, openCount };
 }
 
-export async function sessionSave(
-  state: TabManagerState,
-  name: string,
-): Promise<{ ok: boolean; reason?: string }> {
-  await state.ensureLoaded();
-  const currentList = state.getList();
-  if (currentList.length === 0) {
-    return { ok: false, reason: "Cannot save empty tab manager list" };
-  }
-  const sessionEntries: TabManagerSessionEntry[] = currentList.map((entry) => ({
+/** Background-tab create properties for a saved entry: keeps its pin and, when given, its window */
+function createPropertiesFor(
+  entry: TabManagerSessionEntry,
+  windowId?: number,
+): Tabs.CreateCreatePropertiesType {
+  return {
     url: entry.url,
-    title: entry.title,
-    scrollX: entry.scrollX,
-    scrollY: entry.scrollY,
-  }));
-  const session: TabManagerSession = {
-    name,
-    entries: sessionEntries,
-    savedAt: Date.now(),
+    active: false,
+    ...(entry.pinned ? { pinned: true } : {}),
+    ...(windowId != null ? { windowId } : {}),
   };
+}
+
+/** Open a background tab for a saved entry and queue its scroll restore. Lazy tabs stay
+ *  discarded until first visit, so their restore waits for CONTENT_SCRIPT_READY. */
+async function openSessionTab(
+  state: TabManagerState,
+  entry: TabManagerSessionEntry,
+  createProperties: Tabs.CreateCreatePropertiesType,
+  lazy: boolean,
+): Promise<{ tab: Tabs.Tab; context?: TabContext }> {
+  const opened = lazy
+    ? await createLazyTabInContext(createProperties, entry.context, entry.title)
+    : await createTabInContext(createProperties, entry.context);
+  if (opened.tab.id != null && (entry.scrollX || entry.scrollY)) {
+    if (lazy) state.deferScrollRestore(opened.tab.id, entry.scrollX, entry.scrollY, entry.scrollAnchor);
+    else state.queueScrollRestore(opened.tab.id, entry.scrollX, entry.scrollY, entry.scrollAnchor);
+  }
+  return opened;
+}
+
+function summarizeRevisionDiff(
+  previous: TabManagerSessionEntry[],
+  next: TabManagerSessionEntry[],
+): SessionRevisionDiffSummary {
+  const summary: SessionRevisionDiffSummary = { added: 0, removed: 0, replaced: 0, unchanged: 0 };
+  for (const row of buildSessionSlotDiffs(previous, next)) {
+    if (row.change === "add") summary.added++;
+    else if (row.change === "remove") summary.removed++;
+    else if (normalizeUrlForMatch(row.currentUrl || "") === normalizeUrlForMatch(row.incomingUrl || "")) {
+      summary.unchanged++;
+    } else {
+      summary.replaced++;
+    }
+  }
+  return summary;
+}
+
+function revisionKey(name: string): string {
+  return name.toLowerCase();
+}
+
+async function loadRevisionStore(): Promise<SessionRevisionStore> {
+  const stored = await browser.storage.local.get("tabManagerSessionRevisions");
+  const store = stored.tabManagerSessionRevisions;
+  return store && typeof store === "object" && !Array.isArray(store)
+    ? store as SessionRevisionStore
+    : {};
+}
+
+/** Keep the session's current entries as a revision before they are overwritten.
+ *  Newest first; identical overwrites are not recorded. */
+function pushSessionRevision(
+  revisions: SessionRevisionStore,
+  session: TabManagerSession,
+  nextEntries: TabManagerSessionEntry[],
+  reason: SessionRevisionReason,
+): void {
+  if (JSON.stringify(session.entries) === JSON.stringify(nextEntries)) return;
+  const key = revisionKey(session.name);
+  const history = revisions[key] || [];
+  history.unshift({
+    entries: session.entries,
+    savedAt: session.savedAt,
+    replacedAt: Date.now(),
+    reason,
+    diff: summarizeRevisionDiff(session.entries, nextEntries),
+  });
+  revisions[key] = history.slice(0, MAX_SESSION_REVISIONS);
+}
+
+/** Carry a session's history over to its new name. */
+function moveSessionRevisions(revisions: SessionRevisionStore, oldName: string, newName: string): void {
+  const oldKey = revisionKey(oldName);
+  const newKey = revisionKey(newName);
+  if (oldKey === newKey || !revisions[oldKey]) return;
+  revisions[newKey] = revisions[oldKey];
+  delete revisions[oldKey];
+}
+
+/** Append a new session unless its name is taken, it repeats a saved one, or the cap is reached. */
+async function insertSession(session: TabManagerSession): Promise<{ ok: boolean; reason?: string }> {
+  const name = session.name;
   const stored = await browser.storage.local.get("tabManagerSessions");
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
   // Reject duplicate names (case-insensitive)
@@ -162,8 +283,9 @@ export async function sessionSave(
   if (nameTaken) {
     return { ok: false, reason: `"${name}" already exists` };
   }
-  const currentUrls = currentList.map((entry) => normalizeUrlForMatch(entry.url)).join("\n");
+  const currentUrls = session.entries.map((entry) => normalizeUrlForMatch(entry.url)).join("\n");
   const identicalSession = sessions.find((existingSession) => {
+    if (existingSession.kind !== session.kind) return false;
     const sessionUrls = existingSession.entries
       .map((entry) => normalizeUrlForMatch(entry.url))
       .join("\n");
@@ -172,14 +294,93 @@ export async function sessionSave(
   if (identicalSession) {
     return { ok: false, reason: `Identical to "${identicalSession.name}"` };
   }
-  if (sessions.length >= MAX_SESSIONS) {
-    return { ok: false, reason: `Max ${MAX_SESSIONS} sessions — delete one first` };
+  const sessionLimit = await loadSessionLimit();
+  if (sessionLimit > 0 && sessions.length >= sessionLimit) {
+    return { ok: false, reason: `Max ${sessionLimit} sessions — delete one first` };
   }
   sessions.push(session);
   await browser.storage.local.set({ tabManagerSessions: sessions });
   return { ok: true };
 }
 
+export async function sessionSave(
+  state: TabManagerState,
+  label: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  await state.ensureLoaded();
+  const currentList = state.getList();
+  if (currentList.length === 0) {
+    return { ok: false, reason: "Cannot save empty tab manager list" };
+  }
+  const parts = parseSessionLabel(label);
+  const name = parts.name;
+  if (!name) return { ok: false, reason: "Name cannot be empty" };
+  const sessionEntries: TabManagerSessionEntry[] = currentList.map(toSessionEntry);
+  const session: TabManagerSession = {
+    name,
+    entries: sessionEntries,
+    savedAt: Date.now(),
+  };
+  applySessionLabel(session, parts);
+  return await insertSession(session);
+}
+
+/** Every tab in the focused window in tab-strip order, with live scroll from GET_SCROLL.
+ *  Tabs anchored in the Tab Manager keep their slot (and label/note/lock) as anchorSlot. */
+async function captureWindowEntries(state: TabManagerState): Promise<TabManagerSessionEntry[]> {
+  const tabs = await browser.tabs.query({ currentWindow: true });
+  const anchoredByTabId = new Map(
+    state.getList()
+      .filter((entry) => !entry.closed)
+      .map((entry) => [entry.tabId, entry] as const),
+  );
+  const captured = await Promise.all(tabs.map(async (tab): Promise<TabManagerSessionEntry | null> => {
+    if (tab.id == null || !tab.url) return null;
+    let scroll: ScrollData | null = null;
+    try {
+      scroll = (await browser.tabs.sendMessage(tab.id, { type: "GET_SCROLL" })) as ScrollData;
+    } catch (_) {
+      // Restricted or unloaded pages have no content script; keep the saved or zero offset.
+    }
+    const anchored = anchoredByTabId.get(tab.id);
+    const base: TabManagerSessionEntry = anchored
+      ? { ...toSessionEntry(anchored), anchorSlot: anchored.slot }
+      : { url: tab.url, title: tab.title || "", scrollX: 0, scrollY: 0 };
+    if (!anchored) {
+      const context = await readTabContext(tab);
+      if (hasTabContext(context)) base.context = context;
+    }
+    if (scroll) {
+      base.scrollX = scroll.scrollX || 0;
+      base.scrollY = scroll.scrollY || 0;
+      if (scroll.anchor) base.scrollAnchor = scroll.anchor;
+    }
+    if (tab.pinned) base.pinned = true;
+    return base;
+  }));
+  return captured.filter((entry): entry is TabManagerSessionEntry => entry !== null);
+}
+
+/** Save every tab in the window as a "window" session; anchored tabs keep their slots. */
+export async function sessionSaveWindow(
+  state: TabManagerState,
+  label: string,
+): Promise<{ ok: boolean; reason?: string }> {
+  await state.ensureLoaded();
+  const parts = parseSessionLabel(label);
+  if (!parts.name) return { ok: false, reason: "Name cannot be empty" };
+  const entries = await captureWindowEntries(state);
+  if (entries.length === 0) return { ok: false, reason: "No tabs to save in this window" };
+  const session: TabManagerSession = {
+    name: parts.name,
+    entries,
+    savedAt: Date.now(),
+    kind: "window",
+  };
+  applySessionLabel(session, parts);
+  return await insertSession(session);
+}
+
 export async function sessionList(): Promise<TabManagerSession[]> {
   const stored = await browser.storage.local.get("tabManagerSessions");
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
@@ -188,9 +389,12 @@ export async function sessionList(): Promise<TabManagerSession[]> {
     .sort((a, b) => b.savedAt - a.savedAt);
 }
 
+/** Preview a load into the target window: a new window reuses none of the current tabs,
+ *  and with per-window lists it starts from an empty list instead of replacing this one. */
 export async function sessionLoadPlan(
   state: TabManagerState,
   name: string,
+  windowOptions?: SessionLoadWindowOptions,
 ): Promise<{ ok: boolean; reason?: string; summary?: SessionLoadSummary }> {
   await state.ensureLoaded();
   const stored = await browser.storage.local.get("tabManagerSessions");
@@ -198,21 +402,27 @@ export async function sessionLoadPlan(
   const session = sessions.find((savedSession) => savedSession.name === name);
   if (!session) return { ok: false, reason: "Session not found" };
 
-  const currentList = state.getList();
-  const computation = computeSessionLoad(session.entries, currentList);
-  const slotDiffs = buildSessionSlotDiffs(currentList, session.entries);
-  const reuseMatches = buildSessionReuseMatches(session.entries, computation.reuseTabIds, currentList);
+  const newWindow = !!windowOptions?.newWindow;
+  const currentList = newWindow && await loadTabManagerPerWindow() ? [] : state.getList();
+  const { slotEntries: entries, extraEntries } = splitSessionEntries(
+    session,
+    await loadTabManagerSlotCount(),
+  );
+  const computation = computeSessionLoad(entries, newWindow ? [] : currentList);
+  const slotDiffs = buildSessionSlotDiffs(currentList, entries);
+  const reuseMatches = buildSessionReuseMatches(entries, computation.reuseTabIds, currentList);
 
   return {
     ok: true,
     summary: {
       sessionName: session.name,
-      totalCount: session.entries.length,
+      totalCount: entries.length + extraEntries.length,
       replaceCount: currentList.length,
-      openCount: computation.openCount,
+      openCount: computation.openCount + extraEntries.length,
       reuseCount: computation.reuseCount,
       slotDiffs,
       reuseMatches,
+      ...(session.kind === "window" ? { extraCount: extraEntries.length } : {}),
     },
   };
 }
@@ -220,35 +430,63 @@ export async function sessionLoadPlan(
 export async function sessionLoad(
   state: TabManagerState,
   name: string,
-): Promise<{
-  ok: boolean;
-  reason?: string;
-  count?: number;
-  replaceCount?: number;
-  openCount?: number;
-  reuseCount?: number;
-}> {
+  windowOptions?: SessionLoadWindowOptions,
+): Promise<SessionLoadOutcome> {
   await state.ensureLoaded();
   const stored = await browser.storage.local.get("tabManagerSessions");
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
   const session = sessions.find((savedSession) => savedSession.name === name);
   if (!session) return { ok: false, reason: "Session not found" };
+  return await loadSessionEntries(state, session, windowOptions);
+}
+
+/** Replace the tab manager list with saved entries, reusing unchanged slots' tabs.
+ *  Window snapshots also reopen their unanchored tabs, in their saved order. */
+async function loadSessionEntries(
+  state: TabManagerState,
+  source: Pick<TabManagerSession, "entries" | "kind">,
+  windowOptions?: SessionLoadWindowOptions,
+): Promise<SessionLoadOutcome> {
+  const [originTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  let targetWindowId: number | undefined;
+  let blankTabIds: number[] = [];
+  if (windowOptions?.newWindow) {
+    const createdWindow = await browser.windows.create({ focused: true });
+    targetWindowId = createdWindow.id;
+    blankTabIds = (createdWindow.tabs || [])
+      .map((tab) => tab.id)
+      .filter((tabId): tabId is number => tabId != null);
+    // Per-window lists: the session becomes the new window's list, not the origin's.
+    await state.ensureLoaded(targetWindowId);
+  }
 
   const currentList = state.getList();
   const replaceCount = currentList.length;
-  const loadPlan = computeSessionLoad(session.entries, currentList);
+  // Sessions saved under a larger slot setting only fill the slots available now.
+  const { slotEntries: entries, extraEntries } = splitSessionEntries(
+    source,
+    await loadTabManagerSlotCount(),
+  );
+  const loadPlan = computeSessionLoad(entries, currentList);
+  const lazy = await loadSessionLazyLoad();
 
   const newList: TabManagerEntry[] = [];
+  const openedTabIds = new Map<TabManagerSessionEntry, number>();
   let openedCount = 0;
   let reusedCount = 0;
 
-  for (let i = 0; i < session.entries.length; i++) {
-    const entry = session.entries[i];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
     const reusableTabId = loadPlan.reuseTabIds[i];
     if (reusableTabId != null) {
       try {
         const reusedTab = await browser.tabs.get(reusableTabId);
         if (reusedTab.id == null) throw new Error("Reusable tab missing id");
+        // A new window only reuses tabs that already live in it.
+        if (targetWindowId != null && reusedTab.windowId !== targetWindowId) {
+          throw new Error("Reusable tab outside target window");
+        }
+        const reusedContext = await readTabContext(reusedTab);
         newList.push({
           tabId: reusedTab.id,
           url: reusedTab.url || entry.url,
@@ -256,9 +494,14 @@ export async function sessionLoad(
           scrollX: entry.scrollX,
           scrollY: entry.scrollY,
           slot: newList.length + 1,
+          ...(entry.scrollAnchor ? { scrollAnchor: entry.scrollAnchor } : {}),
+          ...(entry.locked ? { locked: true } : {}),
+          ...(hasTabContext(reusedContext) ? { context: reusedContext } : {}),
+          ...(entry.label ? { label: entry.label } : {}),
+          ...(entry.note ? { note: entry.note } : {}),
         });
         if (entry.scrollX || entry.scrollY) {
-          state.queueScrollRestore(reusedTab.id, entry.scrollX, entry.scrollY);
+          state.queueScrollRestore(reusedTab.id, entry.scrollX, entry.scrollY, entry.scrollAnchor);
         }
         reusedCount++;
         continue;
@@ -268,7 +511,8 @@ export async function sessionLoad(
     }
 
     try {
-      const tab = await browser.tabs.create({ url: entry.url, active: false });
+      const { tab, context } = await openSessionTab(state, entry, createPropertiesFor(entry, targetWindowId), lazy);
+      openedTabIds.set(entry, tab.id!);
       newList.push({
         tabId: tab.id!,
         url: entry.url,
@@ -276,16 +520,31 @@ export async function sessionLoad(
         scrollX: entry.scrollX,
         scrollY: entry.scrollY,
         slot: newList.length + 1,
+        ...(entry.scrollAnchor ? { scrollAnchor: entry.scrollAnchor } : {}),
+        ...(entry.locked ? { locked: true } : {}),
+        ...(context ? { context } : {}),
+        ...(entry.label ? { label: entry.label } : {}),
+        ...(entry.note ? { note: entry.note } : {}),
       });
       openedCount++;
+    } catch (_) {
+      // Skip entries that fail to open
+    }
+  }
 
-      if (entry.scrollX || entry.scrollY) {
-        state.queueScrollRestore(tab.id!, entry.scrollX, entry.scrollY);
-      }
+  for (const entry of extraEntries) {
+    try {
+      const { tab } = await openSessionTab(state, entry, createPropertiesFor(entry, targetWindowId), lazy);
+      openedTabIds.set(entry, tab.id!);
+      openedCount++;
     } catch (_) {
       // Skip entries that fail to open
     }
   }
+  if (extraEntries.length > 0) {
+    // Slot tabs opened first; put every opened tab back in the saved tab-strip order.
+    await browser.tabs.move(savedTabStripOrder(source.entries, openedTabIds), { index: -1 }).catch(() => {});
+  }
 
   state.setList(newList);
   state.recompactSlots();
@@ -293,22 +552,146 @@ export async function sessionLoad(
 
   // Activate the first tab if any were created
   if (newList.length > 0) {
+    if (originTab?.id !== newList[0].tabId) await state.recordJump(originTab?.id);
     await browser.tabs.update(newList[0].tabId, { active: true });
+    // Keep the blank tab when nothing opened so the new window does not close itself.
+    if (windowOptions?.closeBlankTab && blankTabIds.length > 0) {
+      await browser.tabs.remove(blankTabIds).catch(() => {});
+    }
   }
   return {
     ok: true,
-    count: newList.length,
+    count: openedCount + reusedCount,
     replaceCount,
     openCount: openedCount,
     reuseCount: reusedCount,
   };
 }
 
+export async function sessionMergePlan(
+  state: TabManagerState,
+  name: string,
+): Promise<{ ok: boolean; reason?: string; summary?: SessionLoadSummary }> {
+  await state.ensureLoaded();
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const session = sessions.find((savedSession) => savedSession.name === name);
+  if (!session) return { ok: false, reason: "Session not found" };
+
+  const currentList = state.getList();
+  // Window snapshots merge only their anchored tabs; the rest never held a slot.
+  const mergeEntries = splitSessionEntries(session, Number.MAX_SAFE_INTEGER).slotEntries;
+  const merge = computeSessionMerge(mergeEntries, currentList, await loadTabManagerSlotCount());
+
+  return {
+    ok: true,
+    summary: {
+      sessionName: session.name,
+      mode: "merge",
+      totalCount: mergeEntries.length,
+      replaceCount: 0,
+      openCount: merge.fillEntries.length,
+      reuseCount: 0,
+      slotDiffs: merge.slotDiffs,
+      reuseMatches: [],
+      duplicateCount: merge.duplicateCount,
+      dropCount: merge.dropCount,
+    },
+  };
+}
+
+/** Append a session's tabs into the empty slots; the current list and active tab stay put. */
+export async function sessionMerge(
+  state: TabManagerState,
+  name: string,
+): Promise<{
+  ok: boolean;
+  reason?: string;
+  count?: number;
+  duplicateCount?: number;
+  dropCount?: number;
+}> {
+  // Merged tabs open in the window whose list they join, even if focus moves meanwhile.
+  const [originTab] = await browser.tabs.query({ active: true, currentWindow: true });
+  const targetWindowId = originTab?.windowId;
+  await state.ensureLoaded(targetWindowId);
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const session = sessions.find((savedSession) => savedSession.name === name);
+  if (!session) return { ok: false, reason: "Session not found" };
+
+  const currentList = state.getList();
+  // Window snapshots merge only their anchored tabs; the rest never held a slot.
+  const mergeEntries = splitSessionEntries(session, Number.MAX_SAFE_INTEGER).slotEntries;
+  const merge = computeSessionMerge(mergeEntries, currentList, await loadTabManagerSlotCount());
+  const added: TabManagerEntry[] = [];
+  const lazy = await loadSessionLazyLoad();
+
+  for (const entry of merge.fillEntries) {
+    try {
+      const { tab, context } = await openSessionTab(state, entry, createPropertiesFor(entry, targetWindowId), lazy);
+      added.push({
+        tabId: tab.id!,
+        url: entry.url,
+        title: entry.title,
+        scrollX: entry.scrollX,
+        scrollY: entry.scrollY,
+        slot: currentList.length + added.length + 1,
+        ...(entry.scrollAnchor ? { scrollAnchor: entry.scrollAnchor } : {}),
+        ...(entry.locked ? { locked: true } : {}),
+        ...(context ? { context } : {}),
+        ...(entry.label ? { label: entry.label } : {}),
+        ...(entry.note ? { note: entry.note } : {}),
+      });
+    } catch (_) {
+      // Skip entries that fail to open
+    }
+  }
+
+  if (added.length > 0) {
+    state.setList([...currentList, ...added]);
+    state.recompactSlots();
+    await state.save();
+  }
+  return {
+    ok: true,
+    count: added.length,
+    duplicateCount: merge.duplicateCount,
+    dropCount: merge.dropCount,
+  };
+}
+
+/** Rolling copy of the live list, so a crash or restart never loses the working set.
+ *  Empty lists are skipped: the startup clear must not erase the set worth restoring. */
+export async function saveAutoSnapshot(list: TabManagerEntry[]): Promise<void> {
+  if (list.length === 0) return;
+  const snapshot: TabManagerAutoSnapshot = {
+    entries: list.map(toSessionEntry),
+    savedAt: Date.now(),
+  };
+  await browser.storage.local.set({ tabManagerAutoSnapshot: snapshot });
+}
+
+export async function loadAutoSnapshot(): Promise<TabManagerAutoSnapshot | null> {
+  const stored = await browser.storage.local.get("tabManagerAutoSnapshot");
+  const snapshot = stored.tabManagerAutoSnapshot as TabManagerAutoSnapshot | undefined;
+  if (!snapshot || !Array.isArray(snapshot.entries) || snapshot.entries.length === 0) return null;
+  return snapshot;
+}
+
+export async function sessionRestoreAutoSnapshot(state: TabManagerState): Promise<SessionLoadOutcome> {
+  await state.ensureLoaded();
+  const snapshot = await loadAutoSnapshot();
+  if (!snapshot) return { ok: false, reason: "No working set to restore" };
+  return await loadSessionEntries(state, snapshot);
+}
+
 export async function sessionRename(
   oldName: string,
-  newName: string,
+  newLabel: string,
 ): Promise<{ ok: boolean; reason?: string }> {
-  const trimmed = newName.trim();
+  const parts = parseSessionLabel(newLabel);
+  const trimmed = parts.name;
   if (!trimmed) return { ok: false, reason: "Name cannot be empty" };
   const stored = await browser.storage.local.get("tabManagerSessions");
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
@@ -321,8 +704,10 @@ export async function sessionRename(
       && savedSession.name.toLowerCase() === trimmed.toLowerCase(),
   );
   if (nameTaken) return { ok: false, reason: `"${trimmed}" already exists` };
-  session.name = trimmed;
-  await browser.storage.local.set({ tabManagerSessions: sessions });
+  applySessionLabel(session, parts);
+  const revisions = await loadRevisionStore();
+  moveSessionRevisions(revisions, oldName, session.name);
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
   return { ok: true };
 }
 
@@ -338,28 +723,29 @@ export async function sessionUpdate(
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
   const session = sessions.find((savedSession) => savedSession.name === name);
   if (!session) return { ok: false, reason: "Session not found" };
-  session.entries = state.getList().map((entry) => ({
-    url: entry.url,
-    title: entry.title,
-    scrollX: entry.scrollX,
-    scrollY: entry.scrollY,
-  }));
+  const nextEntries = session.kind === "window"
+    ? await captureWindowEntries(state)
+    : state.getList().map(toSessionEntry);
+  const revisions = await loadRevisionStore();
+  pushSessionRevision(revisions, session, nextEntries, "update");
+  session.entries = nextEntries;
   session.savedAt = Date.now();
-  await browser.storage.local.set({ tabManagerSessions: sessions });
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
   return { ok: true };
 }
 
 export async function sessionReplace(
   state: TabManagerState,
   oldName: string,
-  newName: string,
+  newLabel: string,
 ): Promise<{ ok: boolean; reason?: string }> {
   await state.ensureLoaded();
   if (state.getList().length === 0) {
     return { ok: false, reason: "Cannot replace — tab manager list is empty" };
   }
 
-  const trimmed = newName.trim();
+  const parts = parseSessionLabel(newLabel);
+  const trimmed = parts.name;
   if (!trimmed) return { ok: false, reason: "Name cannot be empty" };
 
   const stored = await browser.storage.local.get("tabManagerSessions");
@@ -374,18 +760,23 @@ export async function sessionReplace(
   );
   if (nameTaken) return { ok: false, reason: `"${trimmed}" already exists` };
 
-  sessions[targetIndex] = {
+  const replacement: TabManagerSession = {
     name: trimmed,
-    entries: state.getList().map((entry) => ({
-      url: entry.url,
-      title: entry.title,
-      scrollX: entry.scrollX,
-      scrollY: entry.scrollY,
-    })),
+    entries: state.getList().map(toSessionEntry),
     savedAt: Date.now(),
   };
+  applySessionLabel(replacement, parts);
+  const revisions = await loadRevisionStore();
+  moveSessionRevisions(revisions, oldName, replacement.name);
+  pushSessionRevision(
+    revisions,
+    { ...sessions[targetIndex], name: replacement.name },
+    replacement.entries,
+    "replace",
+  );
+  sessions[targetIndex] = replacement;
 
-  await browser.storage.local.set({ tabManagerSessions: sessions });
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
   return { ok: true };
 }
 
@@ -393,6 +784,152 @@ export async function sessionDelete(name: string): Promise<{ ok: boolean }> {
   const stored = await browser.storage.local.get("tabManagerSessions");
   const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
   const filtered = sessions.filter((savedSession) => savedSession.name !== name);
-  await browser.storage.local.set({ tabManagerSessions: filtered });
+  const revisions = await loadRevisionStore();
+  delete revisions[revisionKey(name)];
+  await browser.storage.local.set({ tabManagerSessions: filtered, tabManagerSessionRevisions: revisions });
   return { ok: true };
 }
+
+/** Revisions of a saved session, newest first, each with the slot diffs a rollback would apply */
+export async function sessionRevisionList(
+  name: string,
+): Promise<{ ok: boolean; reason?: string; revisions?: SessionRevisionView[] }> {
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const session = sessions.find((savedSession) => savedSession.name === name);
+  if (!session) return { ok: false, reason: "Session not found" };
+  const history = (await loadRevisionStore())[revisionKey(name)] || [];
+  return {
+    ok: true,
+    revisions: history.map((revision) => ({
+      ...revision,
+      slotDiffs: buildSessionSlotDiffs(session.entries, revision.entries),
+    })),
+  };
+}
+
+/** Restore a revision's entries; the version being rolled back becomes a revision itself. */
+export async function sessionRollback(
+  name: string,
+  replacedAt: number,
+): Promise<{ ok: boolean; reason?: string; count?: number }> {
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const session = sessions.find((savedSession) => savedSession.name === name);
+  if (!session) return { ok: false, reason: "Session not found" };
+  const revisions = await loadRevisionStore();
+  const target = (revisions[revisionKey(name)] || []).find(
+    (revision) => revision.replacedAt === replacedAt,
+  );
+  if (!target) return { ok: false, reason: "Revision not found" };
+  pushSessionRevision(revisions, session, target.entries, "rollback");
+  session.entries = target.entries;
+  session.savedAt = Date.now();
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
+  return { ok: true, count: target.entries.length };
+}
+
+/** Entry diff between two saved sessions, matched by normalized URL. */
+export async function sessionDiff(leftName: string, rightName: string): Promise<SessionDiffResult> {
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const left = sessions.find((savedSession) => savedSession.name === leftName);
+  const right = sessions.find((savedSession) => savedSession.name === rightName);
+  if (!left || !right) return { ok: false, reason: "Session not found" };
+  return {
+    ok: true,
+    leftName: left.name,
+    rightName: right.name,
+    rows: diffSessionEntries(left.entries, right.entries),
+  };
+}
+
+/** Copy the entries with the given URLs from one saved session into another; the target's
+ *  previous version joins its history. A plain session only loads its first slot-count
+ *  entries, so a copy that would grow it past them is refused. */
+export async function sessionCopyEntries(
+  fromName: string,
+  toName: string,
+  urls: string[],
+): Promise<{ ok: boolean; reason?: string; count?: number }> {
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const source = sessions.find((savedSession) => savedSession.name === fromName);
+  const target = sessions.find((savedSession) => savedSession.name === toName);
+  if (!source || !target) return { ok: false, reason: "Session not found" };
+  if (source === target) return { ok: false, reason: "Pick two different sessions" };
+  const { entries, copied } = copySessionEntries(target.entries, source.entries, urls);
+  if (copied === 0) return { ok: false, reason: "Nothing to copy" };
+  const slotCount = await loadTabManagerSlotCount();
+  if (target.kind !== "window" && entries.length > slotCount && entries.length > target.entries.length) {
+    return { ok: false, reason: `"${target.name}" is full (${slotCount} slots)` };
+  }
+  const revisions = await loadRevisionStore();
+  pushSessionRevision(revisions, target, entries, "copy");
+  target.entries = entries;
+  target.savedAt = Date.now();
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
+  return { ok: true, count: copied };
+}
+
+/** Next free "Name (2)", "Name (3)", ... against names already taken (case-insensitive). */
+function uniqueSessionName(name: string, takenNames: Set<string>): string {
+  if (!takenNames.has(name.toLowerCase())) return name;
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${name} (${suffix})`;
+    if (!takenNames.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+export async function sessionImport(
+  incoming: TabManagerSession[],
+  onConflict: SessionImportConflictMode,
+): Promise<SessionImportResult> {
+  // Options-page input already passed validation; normalize again since messages are untrusted.
+  const valid = normalizeSessions(incoming) || [];
+  if (valid.length === 0) return { ok: false, reason: "No valid sessions to import" };
+
+  const stored = await browser.storage.local.get("tabManagerSessions");
+  const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
+  const sessionLimit = await loadSessionLimit();
+  const revisions = await loadRevisionStore();
+  const counts = { imported: 0, renamed: 0, overwritten: 0, skipped: 0 };
+
+  for (const session of valid) {
+    const existingIndex = sessions.findIndex(
+      (savedSession) => savedSession.name.toLowerCase() === session.name.toLowerCase(),
+    );
+    if (existingIndex !== -1 && onConflict === "overwrite") {
+      moveSessionRevisions(revisions, sessions[existingIndex].name, session.name);
+      pushSessionRevision(
+        revisions,
+        { ...sessions[existingIndex], name: session.name },
+        session.entries,
+        "import",
+      );
+      sessions[existingIndex] = session;
+      counts.overwritten++;
+      continue;
+    }
+    if (sessionLimit > 0 && sessions.length >= sessionLimit) {
+      counts.skipped++;
+      continue;
+    }
+    if (existingIndex !== -1) {
+      session.name = uniqueSessionName(
+        session.name,
+        new Set(sessions.map((savedSession) => savedSession.name.toLowerCase())),
+      );
+      counts.renamed++;
+    }
+    sessions.push(session);
+    counts.imported++;
+  }
+
+  await browser.storage.local.set({ tabManagerSessions: sessions, tabManagerSessionRevisions: revisions });
+  return {
+    ok: true,
+    ...counts,
+    ...(counts.skipped > 0 ? { reason: `Max ${sessionLimit} sessions — ${counts.skipped} not imported` } : {}),
+  };
+}
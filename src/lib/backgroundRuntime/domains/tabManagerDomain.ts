@@ -1,13 +1,37 @@
 import browser, { Tabs } from "webextension-polyfill";
-import { MAX_TAB_MANAGER_SLOTS } from "../../common/contracts/keybindings";
-import { TabManagerState } from "./sessionDomain";
+import {
+  isLocalMarkName,
+  loadTabManagerPerWindow,
+  loadTabManagerSlotCount,
+} from "../../common/contracts/keybindings";
+import { TabManagerState, saveAutoSnapshot } from "./sessionDomain";
+import { JumpListDomain } from "./jumpListDomain";
+import {
+  createTabInContext,
+  hasTabContext,
+  readTabContext,
+} from "../../adapters/browser/tabContextCompat";
 import { normalizeUrlForMatch } from "../../common/utils/helpers";
+import { findRestoredWindowMatch } from "../../common/utils/windowListMatch";
 
 export interface TabManagerDomainHooks {
   onTabClosed(tabId: number): Promise<void>;
   onTabActivated(tabId: number): Promise<void>;
 }
 
+export interface TabManagerWorkspaceResult {
+  ok: boolean;
+  reason?: string;
+  name?: string;
+  count?: number;
+}
+
+export interface TabManagerHistoryResult {
+  ok: boolean;
+  reason?: string;
+  count?: number;
+}
+
 export interface TabManagerDomain {
   state: TabManagerState;
   list(): TabManagerEntry[];
@@ -16,56 +40,329 @@ export interface TabManagerDomain {
   add(tab: Tabs.Tab): Promise<{ ok: boolean; reason?: string; slot?: number }>;
   remove(tabId: number): Promise<void>;
   jump(slot: number): Promise<void>;
+  setMark(tabId: number, mark: string): Promise<{ ok: boolean; reason?: string; slot?: number }>;
+  jumpToMark(slot: number, mark: string): Promise<{ ok: boolean; reason?: string; slot?: number }>;
+  findSlotForTab(tabId: number): Promise<number | null>;
+  toggleLock(tabId: number): Promise<{ ok: boolean; reason?: string; slot?: number; locked?: boolean }>;
+  annotate(tabId: number, field: TabManagerAnnotationField, value: string): Promise<{ ok: boolean; reason?: string; slot?: number }>;
+  undo(): Promise<TabManagerHistoryResult>;
+  redo(): Promise<TabManagerHistoryResult>;
   cycle(direction: "prev" | "next"): Promise<{ ok: boolean }>;
+  alternateTab(): Promise<{ ok: boolean; reason?: string }>;
   saveCurrentTabScroll(): Promise<void>;
   reorder(list: TabManagerEntry[]): Promise<void>;
-  consumePendingScrollRestore(tabId: number): { scrollX: number; scrollY: number } | null;
+  consumePendingScrollRestore(tabId: number): ScrollData | null;
   clearAll(): Promise<void>;
+  listWorkspaces(): Promise<TabManagerWorkspaceSummary[]>;
+  switchWorkspace(name: string): Promise<TabManagerWorkspaceResult>;
+  deleteWorkspace(name: string): Promise<TabManagerWorkspaceResult>;
   captureInitialActiveTab(): Promise<void>;
   registerLifecycleListeners(hooks: TabManagerDomainHooks): void;
 }
 
-export function createTabManagerDomain(): TabManagerDomain {
+const DEFAULT_WORKSPACE_NAME = "default";
+
+function isOnAnchoredUrl(entry: TabManagerEntry, url: string | undefined): boolean {
+  return normalizeUrlForMatch(url || "") === normalizeUrlForMatch(entry.url);
+}
+
+const MAX_RECENT_TABS = 20;
+const MAX_LIST_HISTORY = 30;
+const MAX_LABEL_LENGTH = 60;
+const MAX_NOTE_LENGTH = 200;
+// Alternate-tab presses closer together than this walk further back the MRU order.
+const ALTERNATE_TAB_REPEAT_MS = 1200;
+// Lists of closed windows kept so a restored window can reclaim its anchors.
+const MAX_ORPHANED_WINDOW_LISTS = 10;
+// Quiet period after the last list save before the rolling working-set snapshot is written.
+const AUTO_SNAPSHOT_DEBOUNCE_MS = 2000;
+
+export function createTabManagerDomain(jumpList: JumpListDomain): TabManagerDomain {
   let tabManagerList: TabManagerEntry[] = [];
   let tabManagerLoaded = false;
+  // Workspaces: the active list lives in tabManagerList; inactive lists are
+  // parked here and stay live (tab IDs tracked by the lifecycle listeners).
+  let activeWorkspaceName = DEFAULT_WORKSPACE_NAME;
+  let parkedWorkspaces: TabManagerWorkspace[] = [];
+  // Per-window mode: tabManagerList is bound to one window's list at a time while the
+  // shared list and other windows' lists wait in globalList / windowLists.
+  let boundScope: "global" | number | null = "global";
+  let globalList: TabManagerEntry[] = [];
+  const windowLists = new Map<number, TabManagerWindowList>();
   let lastActiveTabId: number | null = null;
+  // Most-recently-used tabs across all windows (front = current) for the alternate-tab toggle.
+  let recentTabIds: number[] = [];
+  let alternateTabCycle: { order: number[]; depth: number; at: number } | null = null;
+  const alternateTabScroll = new Map<number, ScrollData>();
   let onUpdatedSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  let autoSnapshotTimer: ReturnType<typeof setTimeout> | null = null;
   let scrollRestoreSeq = 0;
 
+  // Undo/redo snapshots of tabManagerList, kept per bound list (workspace or window)
+  // so undo never restores one list's entries into another.
+  const listHistory = new Map<string, { undo: TabManagerEntry[][]; redo: TabManagerEntry[][] }>();
+
   // Pending scroll restores are consumed once a content script confirms readiness.
-  const pendingScrollRestore = new Map<number, { scrollX: number; scrollY: number }>();
+  const pendingScrollRestore = new Map<number, ScrollData>();
   const pendingScrollRestoreTokens = new Map<number, number>();
 
   async function ensureTabManagerLoaded(): Promise<void> {
     if (!tabManagerLoaded) {
       const data = await browser.storage.local.get("tabManagerList");
       tabManagerList = (data.tabManagerList as TabManagerEntry[]) || [];
+      const workspaceData = await browser.storage.local.get([
+        "tabManagerWorkspaces",
+        "tabManagerActiveWorkspace",
+        "tabManagerWindowLists",
+      ]);
+      parkedWorkspaces = (workspaceData.tabManagerWorkspaces as TabManagerWorkspace[]) || [];
+      activeWorkspaceName = (workspaceData.tabManagerActiveWorkspace as string) || DEFAULT_WORKSPACE_NAME;
+      for (const record of (workspaceData.tabManagerWindowLists as TabManagerWindowList[]) || []) {
+        windowLists.set(record.windowId, record);
+      }
       tabManagerLoaded = true;
     }
   }
 
   async function saveTabManager(): Promise<void> {
+    if (boundScope === null) return;
+    scheduleAutoSnapshot();
+    if (boundScope !== "global") {
+      await saveWindowLists();
+      return;
+    }
     await browser.storage.local.set({ tabManagerList });
   }
 
+  function scheduleAutoSnapshot(): void {
+    if (autoSnapshotTimer) clearTimeout(autoSnapshotTimer);
+    autoSnapshotTimer = setTimeout(() => {
+      autoSnapshotTimer = null;
+      void saveAutoSnapshot(tabManagerList).catch(() => {});
+    }, AUTO_SNAPSHOT_DEBOUNCE_MS);
+  }
+
+  /** Write the snapshot now instead of waiting out the debounce. */
+  async function flushAutoSnapshot(list: TabManagerEntry[]): Promise<void> {
+    if (autoSnapshotTimer) {
+      clearTimeout(autoSnapshotTimer);
+      autoSnapshotTimer = null;
+    }
+    await saveAutoSnapshot(list).catch(() => {});
+  }
+
+  function syncBoundWindowList(): void {
+    if (typeof boundScope !== "number") return;
+    const record = windowLists.get(boundScope);
+    if (record) record.entries = tabManagerList;
+    else windowLists.set(boundScope, { windowId: boundScope, entries: tabManagerList });
+  }
+
+  async function saveWindowLists(): Promise<void> {
+    syncBoundWindowList();
+    await browser.storage.local.set({ tabManagerWindowLists: [...windowLists.values()] });
+  }
+
+  async function resolveFocusedWindowId(): Promise<number | null> {
+    const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
+    return activeTab?.windowId ?? null;
+  }
+
+  /** Point tabManagerList at the shared list, or at a window's own list in per-window mode. */
+  async function bindListScope(windowId?: number): Promise<void> {
+    await ensureTabManagerLoaded();
+    let nextScope: "global" | number = "global";
+    if (await loadTabManagerPerWindow()) {
+      const targetWindowId = windowId ?? await resolveFocusedWindowId();
+      if (targetWindowId == null) return;
+      nextScope = targetWindowId;
+    }
+    if (nextScope === boundScope) return;
+
+    if (boundScope === "global") globalList = tabManagerList;
+    else syncBoundWindowList();
+    tabManagerList = nextScope === "global"
+      ? globalList
+      : windowLists.get(nextScope)?.entries ?? [];
+    boundScope = nextScope;
+  }
+
+  function restoreSharedScope(): void {
+    if (boundScope === "global") return;
+    syncBoundWindowList();
+    tabManagerList = globalList;
+    boundScope = "global";
+  }
+
+  function listForWindow(windowId: number): TabManagerEntry[] {
+    if (boundScope === windowId) return tabManagerList;
+    return windowLists.get(windowId)?.entries ?? [];
+  }
+
+  function pruneOrphanedWindowLists(): void {
+    const orphans = [...windowLists.values()]
+      .filter((record) => record.closedAt != null)
+      .sort((a, b) => (b.closedAt ?? 0) - (a.closedAt ?? 0));
+    for (const record of orphans.slice(MAX_ORPHANED_WINDOW_LISTS)) {
+      windowLists.delete(record.windowId);
+    }
+  }
+
+  /**
+   * Window IDs change when a window is restored (undo close, browser restart), so
+   * orphaned lists are re-keyed onto the open window whose tabs best match their URLs.
+   */
+  function adoptRestoredWindowLists(tabs: Tabs.Tab[]): boolean {
+    const openWindowIds = new Set<number>();
+    for (const tab of tabs) if (tab.windowId != null) openWindowIds.add(tab.windowId);
+
+    let changed = false;
+    for (const record of windowLists.values()) {
+      if (record.closedAt != null || openWindowIds.has(record.windowId)) continue;
+      if (record.windowId === boundScope) continue;
+      // Window vanished without windows.onRemoved (e.g. browser restart).
+      record.closedAt = Date.now();
+      for (const entry of record.entries) entry.closed = true;
+      changed = true;
+    }
+
+    const orphans = [...windowLists.values()]
+      .filter((record) => record.closedAt != null)
+      .sort((a, b) => (b.closedAt ?? 0) - (a.closedAt ?? 0));
+    for (const record of orphans) {
+      // Only windows without a list of their own can adopt one.
+      const candidates = [...openWindowIds].filter((windowId) => listForWindow(windowId).length === 0);
+      const best = findRestoredWindowMatch(record.entries, tabs, candidates);
+      if (!best) continue;
+
+      for (const [entry, tab] of best.matches) {
+        entry.tabId = tab.id!;
+        entry.closed = false;
+      }
+      windowLists.delete(record.windowId);
+      record.windowId = best.windowId;
+      delete record.closedAt;
+      windowLists.set(best.windowId, record);
+      if (boundScope === best.windowId) tabManagerList = record.entries;
+      changed = true;
+    }
+    return changed;
+  }
+
+  async function saveWorkspaces(): Promise<void> {
+    await browser.storage.local.set({
+      tabManagerWorkspaces: parkedWorkspaces,
+      tabManagerActiveWorkspace: activeWorkspaceName,
+    });
+  }
+
+  /** Tracked lists other than the bound one; lifecycle listeners keep them live too. */
+  function backgroundLists(): TabManagerEntry[][] {
+    const lists = parkedWorkspaces.map((workspace) => workspace.entries);
+    if (boundScope !== "global") lists.push(globalList);
+    for (const record of windowLists.values()) {
+      if (record.windowId !== boundScope) lists.push(record.entries);
+    }
+    return lists;
+  }
+
+  function findBackgroundEntries(tabId: number): TabManagerEntry[] {
+    const matches: TabManagerEntry[] = [];
+    for (const entries of backgroundLists()) {
+      for (const entry of entries) {
+        if (entry.tabId === tabId && !entry.closed) matches.push(entry);
+      }
+    }
+    return matches;
+  }
+
+  async function saveBackgroundLists(): Promise<void> {
+    await saveWorkspaces();
+    if (windowLists.size > 0) await saveWindowLists();
+    if (boundScope !== "global") await browser.storage.local.set({ tabManagerList: globalList });
+  }
+
   function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  function historyForBoundList(): { undo: TabManagerEntry[][]; redo: TabManagerEntry[][] } {
+    const key = typeof boundScope === "number"
+      ? `window:${boundScope}`
+      : `workspace:${activeWorkspaceName}`;
+    let history = listHistory.get(key);
+    if (!history) {
+      history = { undo: [], redo: [] };
+      listHistory.set(key, history);
+    }
+    return history;
+  }
+
+  function cloneList(list: TabManagerEntry[]): TabManagerEntry[] {
+    return JSON.parse(JSON.stringify(list)) as TabManagerEntry[];
+  }
+
+  /** Snapshot the bound list before a user-facing mutation; a new change drops the redo branch. */
+  function recordListChange(): void {
+    const history = historyForBoundList();
+    history.undo.push(cloneList(tabManagerList));
+    if (history.undo.length > MAX_LIST_HISTORY) history.undo.shift();
+    history.redo = [];
+  }
+
+  async function stepListHistory(direction: "undo" | "redo"): Promise<TabManagerHistoryResult> {
+    await bindListScope();
+    const history = historyForBoundList();
+    const source = direction === "undo" ? history.undo : history.redo;
+    const snapshot = source.pop();
+    if (!snapshot) {
+      return { ok: false, reason: direction === "undo" ? "Nothing to undo" : "Nothing to redo" };
+    }
+    // Reconcile would cut an oversized snapshot straight back down to the slot limit.
+    const slotLimit = await loadTabManagerSlotCount();
+    if (snapshot.length > slotLimit) {
+      source.push(snapshot);
+      return { ok: false, reason: `Raise the slot count to ${snapshot.length} to bring these entries back` };
+    }
+    (direction === "undo" ? history.redo : history.undo).push(cloneList(tabManagerList));
+    tabManagerList = snapshot;
+    recompactSlots();
+    await saveTabManager();
+    // Tabs may have closed since the snapshot; reconcile marks those entries closed.
+    await reconcileTabManager();
+    return { ok: true, count: tabManagerList.length };
+  }
+
   function recompactSlots(): void {
     tabManagerList.forEach((entry, index) => {
       entry.slot = index + 1;
     });
   }
 
-  async function reconcileTabManager(): Promise<void> {
+  async function reconcileTabManager(windowId?: number): Promise<void> {
     await ensureTabManagerLoaded();
     const tabs = await browser.tabs.query({});
+    if (await loadTabManagerPerWindow() && adoptRestoredWindowLists(tabs)) {
+      await saveWindowLists();
+    }
+    await bindListScope(windowId);
     const tabIds = new Set(tabs.map((tab) => tab.id));
+    const tabUrlsById = new Map(tabs.map((tab) => [tab.id, normalizeUrlForMatch(tab.url || "")]));
     let changed = false;
+    // Lowering the slot-count setting drops entries past the new limit. The drop is
+    // recorded, so undo brings them back once the limit is raised again.
+    const slotLimit = await loadTabManagerSlotCount();
+    if (tabManagerList.length > slotLimit) {
+      recordListChange();
+      tabManagerList = tabManagerList.slice(0, slotLimit);
+      changed = true;
+    }
     for (const entry of tabManagerList) {
-      const shouldBeClosed = !tabIds.has(entry.tabId);
-      if (entry.closed !== shouldBeClosed) {
+      // A closed entry only comes back when its ID still points at the same page;
+      // IDs are reused across browser restarts, so an ID match alone is not enough.
+      const shouldBeClosed = !tabIds.has(entry.tabId)
+        || (!!entry.closed && tabUrlsById.get(entry.tabId) !== normalizeUrlForMatch(entry.url));
+      if (!!entry.closed !== shouldBeClosed) {
         entry.closed = shouldBeClosed;
         changed = true;
       }
@@ -87,17 +384,18 @@ export function createTabManagerDomain(): TabManagerDomain {
       return { ok: false, reason: "Active tab unavailable." };
     }
 
-    await reconcileTabManager();
-    if (tabManagerList.length >= MAX_TAB_MANAGER_SLOTS) {
+    await reconcileTabManager(tab.windowId);
+    const slotLimit = await loadTabManagerSlotCount();
+    if (tabManagerList.length >= slotLimit) {
       try {
         await browser.tabs.sendMessage(tab.id, {
           type: "TAB_MANAGER_FULL_FEEDBACK",
-          max: MAX_TAB_MANAGER_SLOTS,
+          max: slotLimit,
         });
       } catch (_) {
         // Toast delivery is best-effort.
       }
-      return { ok: false, reason: `Tab Manager list is full (max ${MAX_TAB_MANAGER_SLOTS}).` };
+      return { ok: false, reason: `Tab Manager list is full (max ${slotLimit}).` };
     }
 
     const normalizedTabUrl = normalizeUrlForMatch(tab.url || "");
@@ -129,16 +427,20 @@ export function createTabManagerDomain(): TabManagerDomain {
 
     let scrollX = 0;
     let scrollY = 0;
+    let scrollAnchor: ScrollAnchor | undefined;
     try {
       const response = (await browser.tabs.sendMessage(tab.id, {
         type: "GET_SCROLL",
       })) as ScrollData;
       scrollX = response.scrollX || 0;
       scrollY = response.scrollY || 0;
+      scrollAnchor = response.anchor;
     } catch (_) {
       // Content script may be unavailable on restricted pages.
     }
 
+    const context = await readTabContext(tab);
+    recordListChange();
     const slot = tabManagerList.length + 1;
     tabManagerList.push({
       tabId: tab.id,
@@ -147,6 +449,8 @@ export function createTabManagerDomain(): TabManagerDomain {
       scrollX,
       scrollY,
       slot,
+      ...(scrollAnchor ? { scrollAnchor } : {}),
+      ...(hasTabContext(context) ? { context } : {}),
     });
     await saveTabManager();
 
@@ -164,7 +468,8 @@ export function createTabManagerDomain(): TabManagerDomain {
   }
 
   async function tabManagerRemove(tabId: number): Promise<void> {
-    await ensureTabManagerLoaded();
+    await bindListScope();
+    if (tabManagerList.some((entry) => entry.tabId === tabId)) recordListChange();
     tabManagerList = tabManagerList.filter((entry) => entry.tabId !== tabId);
     pendingScrollRestore.delete(tabId);
     pendingScrollRestoreTokens.delete(tabId);
@@ -173,8 +478,17 @@ export function createTabManagerDomain(): TabManagerDomain {
   }
 
   async function captureManagedTabScroll(tabId: number): Promise<boolean> {
-    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId);
+    // Per-window lists remember scroll even while another window's list is bound.
+    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId)
+      ?? [...windowLists.values()]
+        .flatMap((record) => record.windowId === boundScope ? [] : record.entries)
+        .find((candidate) => candidate.tabId === tabId);
     if (!entry || entry.closed) return false;
+    // A locked tab that wandered off its anchor keeps the anchor's scroll.
+    if (entry.locked) {
+      const tab = await browser.tabs.get(tabId).catch(() => null);
+      if (!tab || !isOnAnchoredUrl(entry, tab.url)) return false;
+    }
 
     try {
       const response = (await browser.tabs.sendMessage(tabId, {
@@ -185,6 +499,8 @@ export function createTabManagerDomain(): TabManagerDomain {
       if (entry.scrollX === nextX && entry.scrollY === nextY) return false;
       entry.scrollX = nextX;
       entry.scrollY = nextY;
+      if (response.anchor) entry.scrollAnchor = response.anchor;
+      else delete entry.scrollAnchor;
       return true;
     } catch (_) {
       // Content script may be unavailable on restricted pages.
@@ -193,20 +509,25 @@ export function createTabManagerDomain(): TabManagerDomain {
   }
 
   async function saveCurrentTabScroll(): Promise<void> {
-    await ensureTabManagerLoaded();
+    await bindListScope();
     const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
     if (!activeTab || activeTab.id == null) return;
     if (await captureManagedTabScroll(activeTab.id)) await saveTabManager();
   }
 
-  function scheduleScrollRestore(tabId: number, scrollX: number, scrollY: number): void {
+  function scheduleScrollRestore(
+    tabId: number,
+    scrollX: number,
+    scrollY: number,
+    anchor?: ScrollAnchor,
+  ): void {
     if (!scrollX && !scrollY) {
       pendingScrollRestore.delete(tabId);
       pendingScrollRestoreTokens.delete(tabId);
       return;
     }
 
-    pendingScrollRestore.set(tabId, { scrollX, scrollY });
+    pendingScrollRestore.set(tabId, { scrollX, scrollY, anchor });
     const token = ++scrollRestoreSeq;
     pendingScrollRestoreTokens.set(tabId, token);
     const retryDelaysMs = [0, 80, 220, 420];
@@ -221,6 +542,7 @@ export function createTabManagerDomain(): TabManagerDomain {
             type: "SET_SCROLL",
             scrollX,
             scrollY,
+            anchor,
           });
           if (pendingScrollRestoreTokens.get(tabId) !== token) return;
           pendingScrollRestore.delete(tabId);
@@ -233,27 +555,51 @@ export function createTabManagerDomain(): TabManagerDomain {
     })();
   }
 
-  async function tabManagerJump(slot: number): Promise<void> {
-    await ensureTabManagerLoaded();
+  /** Hold a restore until the tab's CONTENT_SCRIPT_READY, for pages that have not started loading. */
+  function deferScrollRestore(
+    tabId: number,
+    scrollX: number,
+    scrollY: number,
+    anchor?: ScrollAnchor,
+  ): void {
+    pendingScrollRestore.set(tabId, { scrollX, scrollY, anchor });
+    pendingScrollRestoreTokens.set(tabId, ++scrollRestoreSeq);
+  }
+
+  /** Activate (or reopen) a slot, restoring the entry's scroll or an explicit position such as a mark. */
+  async function tabManagerJump(slot: number, position?: ScrollData): Promise<void> {
+    await bindListScope();
     const entry = tabManagerList.find((candidate) => candidate.slot === slot);
     if (!entry) return;
+    const target: ScrollData = position
+      ?? { scrollX: entry.scrollX, scrollY: entry.scrollY, anchor: entry.scrollAnchor };
 
     const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
     const previousTabId = activeTab?.id;
     if (previousTabId != null && previousTabId !== entry.tabId) {
       if (await captureManagedTabScroll(previousTabId)) await saveTabManager();
+      await jumpList.record(previousTabId);
     }
+    await activateEntry(entry, target);
+  }
 
+  /** Switch to an entry's tab, reopening it when the tab is gone. */
+  async function activateEntry(entry: TabManagerEntry, target: ScrollData): Promise<void> {
     if (entry.closed) {
       try {
-        const newTab = await browser.tabs.create({ url: entry.url, active: true });
+        const { tab: newTab, context } = await createTabInContext({
+          url: entry.url,
+          active: true,
+          ...(typeof boundScope === "number" ? { windowId: boundScope } : {}),
+        }, entry.context);
         if (newTab.id == null) return;
         entry.tabId = newTab.id;
         entry.closed = false;
+        if (context) entry.context = context;
         await saveTabManager();
-        scheduleScrollRestore(newTab.id, entry.scrollX, entry.scrollY);
+        scheduleScrollRestore(newTab.id, target.scrollX, target.scrollY, target.anchor);
       } catch (_) {
-        tabManagerList = tabManagerList.filter((candidate) => candidate.slot !== slot);
+        tabManagerList = tabManagerList.filter((candidate) => candidate.slot !== entry.slot);
         recompactSlots();
         await saveTabManager();
       }
@@ -265,15 +611,103 @@ export function createTabManagerDomain(): TabManagerDomain {
     if (!switched) {
       entry.closed = true;
       await saveTabManager();
-      await tabManagerJump(slot);
+      await activateEntry(entry, target);
+      return;
+    }
+
+    if (entry.locked && !isOnAnchoredUrl(entry, switched.url)) {
+      // Navigate back to the anchored page; the restore waits for its CONTENT_SCRIPT_READY
+      // so the outgoing page cannot swallow it.
+      await browser.tabs.update(entry.tabId, { url: entry.url }).catch(() => {});
+      deferScrollRestore(entry.tabId, target.scrollX, target.scrollY, target.anchor);
       return;
     }
 
-    scheduleScrollRestore(entry.tabId, entry.scrollX, entry.scrollY);
+    scheduleScrollRestore(entry.tabId, target.scrollX, target.scrollY, target.anchor);
+  }
+
+  async function setMark(
+    tabId: number,
+    mark: string,
+  ): Promise<{ ok: boolean; reason?: string; slot?: number }> {
+    if (!isLocalMarkName(mark)) return { ok: false, reason: "Marks must be a-z" };
+    await bindListScope();
+    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId && !candidate.closed);
+    if (!entry) return { ok: false, reason: "Tab is not in Tab Manager" };
+
+    try {
+      const response = (await browser.tabs.sendMessage(tabId, {
+        type: "GET_SCROLL",
+      })) as ScrollData;
+      recordListChange();
+      entry.marks = {
+        ...entry.marks,
+        [mark]: {
+          scrollX: response.scrollX || 0,
+          scrollY: response.scrollY || 0,
+          ...(response.anchor ? { anchor: response.anchor } : {}),
+        },
+      };
+    } catch (_) {
+      return { ok: false, reason: "Page scroll unavailable" };
+    }
+    await saveTabManager();
+    return { ok: true, slot: entry.slot };
+  }
+
+  async function jumpToMark(
+    slot: number,
+    mark: string,
+  ): Promise<{ ok: boolean; reason?: string; slot?: number }> {
+    await bindListScope();
+    const entry = tabManagerList.find((candidate) => candidate.slot === slot);
+    if (!entry) return { ok: false, reason: `Slot ${slot} is empty` };
+    const position = entry.marks?.[mark];
+    if (!position) return { ok: false, reason: `Mark '${mark}' not set` };
+    await tabManagerJump(slot, position);
+    return { ok: true, slot };
+  }
+
+  async function findSlotForTab(tabId: number): Promise<number | null> {
+    await bindListScope();
+    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId && !candidate.closed);
+    return entry ? entry.slot : null;
+  }
+
+  async function toggleLock(
+    tabId: number,
+  ): Promise<{ ok: boolean; reason?: string; slot?: number; locked?: boolean }> {
+    await bindListScope();
+    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId);
+    if (!entry) return { ok: false, reason: "Tab is not in Tab Manager" };
+    recordListChange();
+    if (entry.locked) delete entry.locked;
+    else entry.locked = true;
+    await saveTabManager();
+    return { ok: true, slot: entry.slot, locked: entry.locked === true };
+  }
+
+  async function annotate(
+    tabId: number,
+    field: TabManagerAnnotationField,
+    value: string,
+  ): Promise<{ ok: boolean; reason?: string; slot?: number }> {
+    await bindListScope();
+    const entry = tabManagerList.find((candidate) => candidate.tabId === tabId);
+    if (!entry) return { ok: false, reason: "Tab is not in Tab Manager" };
+    // Collapse whitespace so a pasted multi-line note still renders as one row.
+    const text = String(value ?? "").replace(/\s+/g, " ").trim()
+      .slice(0, field === "label" ? MAX_LABEL_LENGTH : MAX_NOTE_LENGTH);
+    if ((entry[field] ?? "") === text) return { ok: true, slot: entry.slot };
+    recordListChange();
+    if (text) entry[field] = text;
+    else delete entry[field];
+    await saveTabManager();
+    return { ok: true, slot: entry.slot };
   }
 
   async function tabManagerCycle(direction: "prev" | "next"): Promise<{ ok: boolean }> {
-    await ensureTabManagerLoaded();
+    await bindListScope();
     if (tabManagerList.length === 0) return { ok: false };
 
     const [currentTab] = await browser.tabs.query({ active: true, currentWindow: true });
@@ -295,14 +729,82 @@ export function createTabManagerDomain(): TabManagerDomain {
     return { ok: true };
   }
 
+  /** Move a tab to the front of the MRU order. The tab it replaces keeps its scroll,
+   *  so alternate-tab restores it however it was left (click, shortcut, other window). */
+  function noteRecentTab(tabId: number): void {
+    const leftTabId = recentTabIds[0];
+    recentTabIds = [tabId, ...recentTabIds.filter((candidate) => candidate !== tabId)]
+      .slice(0, MAX_RECENT_TABS);
+    if (leftTabId != null && leftTabId !== tabId) void rememberAlternateTabScroll(leftTabId);
+  }
+
+  async function rememberAlternateTabScroll(tabId: number): Promise<void> {
+    try {
+      const response = (await browser.tabs.sendMessage(tabId, {
+        type: "GET_SCROLL",
+      })) as ScrollData;
+      alternateTabScroll.set(tabId, response);
+    } catch (_) {
+      // Content script may be unavailable on restricted pages.
+    }
+  }
+
+  /** MRU order for a new alternate-tab cycle. After a background restart the
+   *  in-memory stack is short, so fall back to the browser's lastAccessed order. */
+  async function resolveRecentTabOrder(): Promise<number[]> {
+    if (recentTabIds.length >= 2) return [...recentTabIds];
+    const tabs = await browser.tabs.query({});
+    return tabs
+      .filter((tab) => tab.id != null)
+      .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0))
+      .slice(0, MAX_RECENT_TABS)
+      .map((tab) => tab.id!);
+  }
+
+  /** Toggle to the previously active tab (vim's Ctrl+^), in any window. Repeated
+   *  presses within ALTERNATE_TAB_REPEAT_MS keep walking back the MRU order. */
+  async function alternateTab(): Promise<{ ok: boolean; reason?: string }> {
+    const now = Date.now();
+    if (!alternateTabCycle || now - alternateTabCycle.at > ALTERNATE_TAB_REPEAT_MS) {
+      alternateTabCycle = { order: await resolveRecentTabOrder(), depth: 0, at: now };
+    }
+    const cycle = alternateTabCycle;
+    cycle.at = now;
+
+    const [currentTab] = await browser.tabs.query({ active: true, currentWindow: true });
+    while (++cycle.depth < cycle.order.length) {
+      const targetId = cycle.order[cycle.depth];
+      if (targetId === currentTab?.id) continue;
+      const target = await browser.tabs.get(targetId).catch(() => null);
+      if (!target) continue;
+
+      if (currentTab?.id != null) {
+        await rememberAlternateTabScroll(currentTab.id);
+        await jumpList.record(currentTab.id);
+      }
+
+      await browser.tabs.update(targetId, { active: true });
+      if (target.windowId != null) {
+        await browser.windows.update(target.windowId, { focused: true }).catch(() => {});
+      }
+      const scroll = alternateTabScroll.get(targetId);
+      if (scroll) scheduleScrollRestore(targetId, scroll.scrollX || 0, scroll.scrollY || 0, scroll.anchor);
+      return { ok: true };
+    }
+
+    alternateTabCycle = null;
+    return { ok: false, reason: "No previous tab" };
+  }
+
   async function reorder(list: TabManagerEntry[]): Promise<void> {
-    await ensureTabManagerLoaded();
+    await bindListScope();
+    recordListChange();
     tabManagerList = list;
     recompactSlots();
     await saveTabManager();
   }
 
-  function consumePendingScrollRestore(tabId: number): { scrollX: number; scrollY: number } | null {
+  function consumePendingScrollRestore(tabId: number): ScrollData | null {
     const pending = pendingScrollRestore.get(tabId) || null;
     if (pending) {
       pendingScrollRestore.delete(tabId);
@@ -313,14 +815,93 @@ export function createTabManagerDomain(): TabManagerDomain {
 
   async function clearAll(): Promise<void> {
     await ensureTabManagerLoaded();
+    restoreSharedScope();
+    if (tabManagerList.length > 0) recordListChange();
     tabManagerList = [];
     await saveTabManager();
+    // Parked workspaces keep their URLs, but their tab IDs are stale after a restart.
+    for (const workspace of parkedWorkspaces) {
+      for (const entry of workspace.entries) entry.closed = true;
+    }
+    await saveWorkspaces();
+    // Window lists wait for reconcile() to match them onto restored windows.
+    if (windowLists.size > 0) {
+      const closedAt = Date.now();
+      for (const record of windowLists.values()) {
+        record.closedAt = record.closedAt ?? closedAt;
+        for (const entry of record.entries) entry.closed = true;
+      }
+      await saveWindowLists();
+    }
+  }
+
+  function findParkedWorkspaceIndex(name: string): number {
+    const lowerName = name.toLowerCase();
+    return parkedWorkspaces.findIndex((workspace) => workspace.name.toLowerCase() === lowerName);
+  }
+
+  async function listWorkspaces(): Promise<TabManagerWorkspaceSummary[]> {
+    await ensureTabManagerLoaded();
+    const sharedList = boundScope === "global" ? tabManagerList : globalList;
+    const summaries: TabManagerWorkspaceSummary[] = [
+      { name: activeWorkspaceName, count: sharedList.length, active: true },
+      ...parkedWorkspaces.map((workspace) => ({
+        name: workspace.name,
+        count: workspace.entries.length,
+        active: false,
+      })),
+    ];
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Park the active list and make the named one live; unknown names create an empty list. */
+  async function switchWorkspace(name: string): Promise<TabManagerWorkspaceResult> {
+    const trimmed = name.trim();
+    if (!trimmed) return { ok: false, reason: "Name cannot be empty" };
+    await bindListScope();
+    if (boundScope !== "global") {
+      return { ok: false, reason: "Workspaces are unavailable with per-window lists" };
+    }
+    if (trimmed.toLowerCase() === activeWorkspaceName.toLowerCase()) {
+      return { ok: true, name: activeWorkspaceName, count: tabManagerList.length };
+    }
+
+    // Capture scroll into the outgoing list so it is remembered when switching back.
+    await saveCurrentTabScroll();
+
+    const targetIndex = findParkedWorkspaceIndex(trimmed);
+    const target = targetIndex === -1
+      ? { name: trimmed, entries: [] }
+      : parkedWorkspaces.splice(targetIndex, 1)[0];
+    parkedWorkspaces.push({ name: activeWorkspaceName, entries: tabManagerList });
+    tabManagerList = target.entries;
+    activeWorkspaceName = target.name;
+
+    await saveTabManager();
+    await saveWorkspaces();
+    await reconcileTabManager();
+    return { ok: true, name: activeWorkspaceName, count: tabManagerList.length };
+  }
+
+  async function deleteWorkspace(name: string): Promise<TabManagerWorkspaceResult> {
+    await ensureTabManagerLoaded();
+    if (name.toLowerCase() === activeWorkspaceName.toLowerCase()) {
+      return { ok: false, reason: "Cannot delete the active workspace" };
+    }
+    const targetIndex = findParkedWorkspaceIndex(name);
+    if (targetIndex === -1) return { ok: false, reason: "Workspace not found" };
+    const [removed] = parkedWorkspaces.splice(targetIndex, 1);
+    await saveWorkspaces();
+    return { ok: true, name: removed.name };
   }
 
   async function captureInitialActiveTab(): Promise<void> {
     try {
       const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-      if (tab?.id != null) lastActiveTabId = tab.id;
+      if (tab?.id != null) {
+        lastActiveTabId = tab.id;
+        noteRecentTab(tab.id);
+      }
     } catch (_) {
       // Best effort only.
     }
@@ -331,27 +912,59 @@ export function createTabManagerDomain(): TabManagerDomain {
       await ensureTabManagerLoaded();
       pendingScrollRestore.delete(tabId);
       pendingScrollRestoreTokens.delete(tabId);
+      recentTabIds = recentTabIds.filter((candidate) => candidate !== tabId);
+      alternateTabScroll.delete(tabId);
       const entry = tabManagerList.find((candidate) => candidate.tabId === tabId);
       if (entry) {
         entry.closed = true;
         await saveTabManager();
       }
+      const backgroundEntries = findBackgroundEntries(tabId);
+      if (backgroundEntries.length > 0) {
+        for (const backgroundEntry of backgroundEntries) backgroundEntry.closed = true;
+        await saveBackgroundLists();
+      }
       await hooks.onTabClosed(tabId);
     });
 
-    browser.tabs.onUpdated.addListener(async (tabId: number, changeInfo: Tabs.OnUpdatedChangeInfoType) => {
+    browser.tabs.onUpdated.addListener(async (
+      tabId: number,
+      changeInfo: Tabs.OnUpdatedChangeInfoType,
+      tab: Tabs.Tab,
+    ) => {
       await ensureTabManagerLoaded();
       const entry = tabManagerList.find((candidate) => candidate.tabId === tabId);
-      if (!entry) return;
+      const trackedEntries = [
+        ...(entry ? [entry] : []),
+        ...findBackgroundEntries(tabId),
+      ];
+      if (trackedEntries.length === 0) return;
 
       let changed = false;
-      if (changeInfo.url) {
-        entry.url = changeInfo.url;
-        changed = true;
-      }
-      if (changeInfo.title) {
-        entry.title = changeInfo.title;
-        changed = true;
+      // Moving a tab into or out of a group updates where it would reopen.
+      const context = changeInfo.groupId !== undefined ? await readTabContext(tab) : null;
+      for (const trackedEntry of trackedEntries) {
+        if (context) {
+          if (hasTabContext(context)) trackedEntry.context = context;
+          else delete trackedEntry.context;
+          changed = true;
+        }
+        // Locked entries keep their anchored URL; the title follows only while on it.
+        if (trackedEntry.locked) {
+          if (changeInfo.title && isOnAnchoredUrl(trackedEntry, tab.url)) {
+            trackedEntry.title = changeInfo.title;
+            changed = true;
+          }
+          continue;
+        }
+        if (changeInfo.url) {
+          trackedEntry.url = changeInfo.url;
+          changed = true;
+        }
+        if (changeInfo.title) {
+          trackedEntry.title = changeInfo.title;
+          changed = true;
+        }
       }
 
       if (!changed) return;
@@ -359,45 +972,102 @@ export function createTabManagerDomain(): TabManagerDomain {
       onUpdatedSaveTimer = setTimeout(() => {
         onUpdatedSaveTimer = null;
         saveTabManager();
+        saveBackgroundLists();
       }, 500);
     });
 
+    browser.windows.onRemoved.addListener(async (windowId: number) => {
+      await ensureTabManagerLoaded();
+      // The closing window's own list (or the shared one) is the working set to keep.
+      await flushAutoSnapshot(
+        typeof boundScope === "number" && boundScope !== windowId
+          ? listForWindow(windowId)
+          : tabManagerList,
+      );
+      if (boundScope === windowId) {
+        syncBoundWindowList();
+        tabManagerList = [];
+        boundScope = null;
+      }
+      const record = windowLists.get(windowId);
+      if (!record) return;
+      if (record.entries.length === 0) {
+        windowLists.delete(windowId);
+      } else {
+        record.closedAt = Date.now();
+        for (const entry of record.entries) entry.closed = true;
+      }
+      pruneOrphanedWindowLists();
+      await saveWindowLists();
+    });
+
+    // Switching windows does not fire tabs.onActivated; keep the MRU order current.
+    browser.windows.onFocusChanged.addListener(async (windowId: number) => {
+      if (windowId === browser.windows.WINDOW_ID_NONE) return;
+      try {
+        const [tab] = await browser.tabs.query({ active: true, windowId });
+        if (tab?.id != null) noteRecentTab(tab.id);
+      } catch (_) {
+        // Window may close before we can read it.
+      }
+    });
+
     browser.tabs.onActivated.addListener(async (activeInfo: Tabs.OnActivatedActiveInfoType) => {
       const previousTabId = lastActiveTabId;
       lastActiveTabId = activeInfo.tabId;
+      noteRecentTab(activeInfo.tabId);
 
       await hooks.onTabActivated(activeInfo.tabId);
 
       if (previousTabId == null) return;
       await ensureTabManagerLoaded();
-      if (await captureManagedTabScroll(previousTabId)) await saveTabManager();
+      if (await captureManagedTabScroll(previousTabId)) {
+        await saveTabManager();
+        if (windowLists.size > 0) await saveWindowLists();
+      }
     });
   }
 
   const state: TabManagerState = {
     getList: () => tabManagerList,
-    setList: (list) => { tabManagerList = list; },
+    setList: (list) => {
+      recordListChange();
+      tabManagerList = list;
+    },
     recompactSlots,
     save: saveTabManager,
-    ensureLoaded: ensureTabManagerLoaded,
-    queueScrollRestore: (tabId, scrollX, scrollY) => {
-      scheduleScrollRestore(tabId, scrollX, scrollY);
+    ensureLoaded: (windowId) => bindListScope(windowId),
+    queueScrollRestore: (tabId, scrollX, scrollY, anchor) => {
+      scheduleScrollRestore(tabId, scrollX, scrollY, anchor);
     },
+    deferScrollRestore,
+    recordJump: jumpList.record,
   };
 
   return {
     state,
     list: () => tabManagerList,
     ensureLoaded: ensureTabManagerLoaded,
-    reconcile: reconcileTabManager,
+    reconcile: () => reconcileTabManager(),
     add: tabManagerAdd,
     remove: tabManagerRemove,
-    jump: tabManagerJump,
+    jump: (slot) => tabManagerJump(slot),
+    setMark,
+    jumpToMark,
+    findSlotForTab,
+    toggleLock,
+    annotate,
+    undo: () => stepListHistory("undo"),
+    redo: () => stepListHistory("redo"),
     cycle: tabManagerCycle,
+    alternateTab,
     saveCurrentTabScroll,
     reorder,
     consumePendingScrollRestore,
     clearAll,
+    listWorkspaces,
+    switchWorkspace,
+    deleteWorkspace,
     captureInitialActiveTab,
     registerLifecycleListeners,
   };
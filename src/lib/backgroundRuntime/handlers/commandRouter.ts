@@ -1,4 +1,5 @@
 import browser, { Tabs } from "webextension-polyfill";
+import { MAX_TAB_MANAGER_SLOTS } from "../../common/contracts/keybindings";
 import { ContentRuntimeMessage } from "../../common/contracts/runtimeMessages";
 
 interface CommandRouterDeps {
@@ -6,12 +7,11 @@ interface CommandRouterDeps {
   jumpToSlot(slot: number): Promise<void>;
 }
 
-const TAB_MANAGER_SLOT_COMMANDS: Record<string, number> = {
-  "tab-manager-tab-1": 1,
-  "tab-manager-tab-2": 2,
-  "tab-manager-tab-3": 3,
-  "tab-manager-tab-4": 4,
-};
+// Manifest commands "tab-manager-tab-1".."tab-manager-tab-9"; slots past the
+// configured count resolve to no entry, so jumping to them is a no-op.
+const TAB_MANAGER_SLOT_COMMANDS: Record<string, number> = Object.fromEntries(
+  Array.from({ length: MAX_TAB_MANAGER_SLOTS }, (_, index) => [`tab-manager-tab-${index + 1}`, index + 1]),
+);
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
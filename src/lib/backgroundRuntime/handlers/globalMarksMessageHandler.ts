@@ -0,0 +1,32 @@
+import {
+  globalMarkDelete,
+  globalMarkJump,
+  globalMarkList,
+  globalMarkSet,
+} from "../domains/globalMarksDomain";
+import { TabManagerState } from "../domains/sessionDomain";
+import { RuntimeMessageHandler, UNHANDLED } from "./runtimeRouter";
+
+export function createGlobalMarksMessageHandler(
+  tabManagerState: TabManagerState,
+): RuntimeMessageHandler {
+  return async (message, sender) => {
+    switch (message.type) {
+      case "GLOBAL_MARK_SET":
+        if (!sender.tab) return { ok: false, reason: "No active tab" };
+        return await globalMarkSet(sender.tab, message.name);
+
+      case "GLOBAL_MARK_LIST":
+        return await globalMarkList();
+
+      case "GLOBAL_MARK_JUMP":
+        return await globalMarkJump(tabManagerState, message.name);
+
+      case "GLOBAL_MARK_DELETE":
+        return await globalMarkDelete(message.name);
+
+      default:
+        return UNHANDLED;
+    }
+  };
+}
@@ -0,0 +1,21 @@
+import { JumpListDomain } from "../domains/jumpListDomain";
+import { TabManagerState } from "../domains/sessionDomain";
+import { RuntimeMessageHandler, UNHANDLED } from "./runtimeRouter";
+
+export function createJumpListMessageHandler(
+  jumpList: JumpListDomain,
+  tabManagerState: TabManagerState,
+): RuntimeMessageHandler {
+  return async (message) => {
+    switch (message.type) {
+      case "JUMP_LIST_BACK":
+        return await jumpList.back(tabManagerState);
+
+      case "JUMP_LIST_FORWARD":
+        return await jumpList.forward(tabManagerState);
+
+      default:
+        return UNHANDLED;
+    }
+  };
+}
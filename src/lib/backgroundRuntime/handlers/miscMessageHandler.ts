@@ -1,41 +1,61 @@
 import browser from "webextension-polyfill";
 import { loadKeybindings, saveKeybindings } from "../../common/contracts/keybindings";
 import { getFrecencyList } from "../../common/utils/frecencyScoring";
-import { grepCurrentTab, getPageContent } from "../domains/pageSearchDomain";
+import {
+  getPageContent,
+  grepCurrentTab,
+  grepTab,
+  jumpToTabGrepMatch,
+  listGrepTabTargets,
+} from "../domains/pageSearchDomain";
+import { JumpListDomain } from "../domains/jumpListDomain";
 import { RuntimeMessageHandler, UNHANDLED } from "./runtimeRouter";
 
-export const miscMessageHandler: RuntimeMessageHandler = async (message) => {
-  switch (message.type) {
-    case "GREP_CURRENT":
-      return await grepCurrentTab(message.query, message.filters || []);
+export function createMiscMessageHandler(jumpList: JumpListDomain): RuntimeMessageHandler {
+  return async (message) => {
+    switch (message.type) {
+      case "GREP_CURRENT":
+        return await grepCurrentTab(message.query, message.filters || [], message.mode);
 
-    case "GET_PAGE_CONTENT":
-      return await getPageContent(message.tabId);
+      case "GET_PAGE_CONTENT":
+        return await getPageContent(message.tabId);
 
-    case "GET_CURRENT_TAB": {
-      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-      return tab || null;
-    }
+      case "GREP_TAB_TARGETS":
+        return await listGrepTabTargets();
 
-    case "GET_KEYBINDINGS":
-      return await loadKeybindings();
+      case "GREP_TAB":
+        return await grepTab(message.tabId, message.query, message.filters || [], message.mode);
 
-    case "SAVE_KEYBINDINGS":
-      await saveKeybindings(message.config);
-      return { ok: true };
+      case "GREP_TAB_JUMP":
+        return await jumpToTabGrepMatch(jumpList, message.tabId, message.text, message.frame);
 
-    case "SWITCH_TO_TAB":
-      try {
-        await browser.tabs.update(message.tabId, { active: true });
-      } catch (_) {
-        // Best effort switch.
+      case "GET_CURRENT_TAB": {
+        const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+        return tab || null;
       }
-      return { ok: true };
 
-    case "FRECENCY_LIST":
-      return await getFrecencyList();
+      case "GET_KEYBINDINGS":
+        return await loadKeybindings();
+
+      case "SAVE_KEYBINDINGS":
+        await saveKeybindings(message.config);
+        return { ok: true };
+
+      case "SWITCH_TO_TAB":
+        try {
+          const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
+          if (activeTab?.id !== message.tabId) await jumpList.record(activeTab?.id);
+          await browser.tabs.update(message.tabId, { active: true });
+        } catch (_) {
+          // Best effort switch.
+        }
+        return { ok: true };
 
-    default:
-      return UNHANDLED;
-  }
-};
+      case "FRECENCY_LIST":
+        return await getFrecencyList();
+
+      default:
+        return UNHANDLED;
+    }
+  };
+}
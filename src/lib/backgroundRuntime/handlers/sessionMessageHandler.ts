@@ -1,12 +1,22 @@
 import {
   TabManagerState,
+  loadAutoSnapshot,
+  sessionCopyEntries,
   sessionDelete,
+  sessionDiff,
+  sessionImport,
   sessionList,
   sessionLoad,
   sessionLoadPlan,
+  sessionMerge,
+  sessionMergePlan,
   sessionRename,
   sessionReplace,
+  sessionRestoreAutoSnapshot,
+  sessionRevisionList,
+  sessionRollback,
   sessionSave,
+  sessionSaveWindow,
   sessionUpdate,
 } from "../domains/sessionDomain";
 import { RuntimeMessageHandler, UNHANDLED } from "./runtimeRouter";
@@ -19,14 +29,23 @@ export function createSessionMessageHandler(
       case "SESSION_SAVE":
         return await sessionSave(tabManagerState, message.name);
 
+      case "SESSION_SAVE_WINDOW":
+        return await sessionSaveWindow(tabManagerState, message.name);
+
       case "SESSION_LIST":
         return await sessionList();
 
       case "SESSION_LOAD_PLAN":
-        return await sessionLoadPlan(tabManagerState, message.name);
+        return await sessionLoadPlan(tabManagerState, message.name, message.window);
 
       case "SESSION_LOAD":
-        return await sessionLoad(tabManagerState, message.name);
+        return await sessionLoad(tabManagerState, message.name, message.window);
+
+      case "SESSION_MERGE_PLAN":
+        return await sessionMergePlan(tabManagerState, message.name);
+
+      case "SESSION_MERGE":
+        return await sessionMerge(tabManagerState, message.name);
 
       case "SESSION_DELETE":
         return await sessionDelete(message.name);
@@ -40,6 +59,27 @@ export function createSessionMessageHandler(
       case "SESSION_REPLACE":
         return await sessionReplace(tabManagerState, message.oldName, message.newName);
 
+      case "SESSION_AUTO_SNAPSHOT":
+        return await loadAutoSnapshot();
+
+      case "SESSION_AUTO_SNAPSHOT_RESTORE":
+        return await sessionRestoreAutoSnapshot(tabManagerState);
+
+      case "SESSION_REVISIONS":
+        return await sessionRevisionList(message.name);
+
+      case "SESSION_ROLLBACK":
+        return await sessionRollback(message.name, message.replacedAt);
+
+      case "SESSION_DIFF":
+        return await sessionDiff(message.leftName, message.rightName);
+
+      case "SESSION_COPY_ENTRIES":
+        return await sessionCopyEntries(message.fromName, message.toName, message.urls);
+
+      case "SESSION_IMPORT":
+        return await sessionImport(message.sessions, message.onConflict);
+
       default:
         return UNHANDLED;
     }
@@ -28,6 +28,21 @@ export function createTabManagerMessageHandler(
       case "TAB_MANAGER_CYCLE":
         return await domain.cycle(message.direction);
 
+      case "TAB_MANAGER_UNDO":
+        return await domain.undo();
+
+      case "TAB_MANAGER_REDO":
+        return await domain.redo();
+
+      case "TAB_MANAGER_LOCK_TOGGLE":
+        return await domain.toggleLock(message.tabId);
+
+      case "TAB_MANAGER_ANNOTATE":
+        return await domain.annotate(message.tabId, message.field, message.value);
+
+      case "ALTERNATE_TAB":
+        return await domain.alternateTab();
+
       case "TAB_MANAGER_SAVE_SCROLL":
         await domain.saveCurrentTabScroll();
         return { ok: true };
@@ -36,6 +51,29 @@ export function createTabManagerMessageHandler(
         await domain.reorder(message.list);
         return { ok: true };
 
+      case "TAB_MANAGER_MARK_SET": {
+        const tabId = sender.tab?.id;
+        if (tabId == null) return { ok: false, reason: "No active tab" };
+        return await domain.setMark(tabId, message.mark);
+      }
+
+      case "TAB_MANAGER_MARK_JUMP": {
+        // Without a slot, the mark belongs to the sender tab's own entry.
+        const slot = message.slot
+          ?? (sender.tab?.id != null ? await domain.findSlotForTab(sender.tab.id) : null);
+        if (slot == null) return { ok: false, reason: "Tab is not in Tab Manager" };
+        return await domain.jumpToMark(slot, message.mark);
+      }
+
+      case "TAB_MANAGER_WORKSPACE_LIST":
+        return await domain.listWorkspaces();
+
+      case "TAB_MANAGER_WORKSPACE_SWITCH":
+        return await domain.switchWorkspace(message.name);
+
+      case "TAB_MANAGER_WORKSPACE_DELETE":
+        return await domain.deleteWorkspace(message.name);
+
       case "CONTENT_SCRIPT_READY": {
         const tabId = sender.tab?.id;
         if (tabId == null) return { ok: true };
@@ -46,6 +84,7 @@ export function createTabManagerMessageHandler(
             type: "SET_SCROLL",
             scrollX: pending.scrollX,
             scrollY: pending.scrollY,
+            anchor: pending.anchor,
           }).catch(() => {});
         }
         return { ok: true };
@@ -1,4 +1,5 @@
 import browser from "webextension-polyfill";
+import { loadAutoSnapshot } from "../domains/sessionDomain";
 
 interface StartupRestoreDeps {
   clearTabManager(): Promise<void>;
@@ -8,9 +9,13 @@ export function registerStartupRestore(deps: StartupRestoreDeps): void {
   browser.runtime.onStartup.addListener(async () => {
     const stored = await browser.storage.local.get("tabManagerSessions");
     const sessions = (stored.tabManagerSessions as TabManagerSession[]) || [];
-    if (sessions.length === 0) return;
+    // The auto-snapshot was written before shutdown; the clear below never overwrites it.
+    const snapshot = await loadAutoSnapshot();
+    if (sessions.length === 0 && !snapshot) return;
 
-    // Tab IDs are ephemeral across browser restarts, so clear stale state first.
+    // Tab IDs are ephemeral across browser restarts, so clear stale state first: the old
+    // IDs now point at unrelated tabs, and tracking those would rewrite the auto-snapshot
+    // before the prompt even shows. Undo brings the list back when nothing is restored.
     await deps.clearTabManager();
 
     let attempts = 0;
@@ -2,26 +2,65 @@
 // Used by background, contentScript, popup, and options page.
 
 import browser from "webextension-polyfill";
+import {
+  DEFAULT_SESSION_LIMIT,
+  DEFAULT_TAB_MANAGER_SLOTS,
+  MAX_TAB_MANAGER_SLOTS,
+  resolveSessionLimit,
+  resolveTabManagerSlotCount,
+} from "./tabManagerLimits";
+
+export {
+  DEFAULT_TAB_MANAGER_SLOTS,
+  MAX_TAB_MANAGER_SLOTS,
+  MIN_TAB_MANAGER_SLOTS,
+  SESSION_LIMIT_CHOICES,
+} from "./tabManagerLimits";
+
+const JUMP_SLOT_ACTION_PREFIX = "jumpSlot";
+
+/** Jump bindings exist for every possible slot; the slot-count setting decides which are live. */
+function buildJumpSlotBindings(): Record<string, KeyBinding> {
+  const bindings: Record<string, KeyBinding> = {};
+  for (let slot = 1; slot <= MAX_TAB_MANAGER_SLOTS; slot++) {
+    bindings[`${JUMP_SLOT_ACTION_PREFIX}${slot}`] = { key: `Alt+${slot}`, default: `Alt+${slot}` };
+  }
+  return bindings;
+}
 
-export const MAX_TAB_MANAGER_SLOTS = 4;
-export const MAX_SESSIONS = 4;
+function buildJumpSlotLabels(): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (let slot = 1; slot <= MAX_TAB_MANAGER_SLOTS; slot++) {
+    labels[`${JUMP_SLOT_ACTION_PREFIX}${slot}`] = `Jump to slot ${slot}`;
+  }
+  return labels;
+}
 
 export const DEFAULT_KEYBINDINGS: KeybindingsConfig = {
   navigationMode: "standard",
+  tabManagerSlots: DEFAULT_TAB_MANAGER_SLOTS,
+  tabManagerScope: "global",
+  sessionLimit: DEFAULT_SESSION_LIMIT,
+  sessionLoadMode: "eager",
   bindings: {
     global: {
       openTabManager:    { key: "Alt+T",       default: "Alt+T"       },
       addTab:         { key: "Alt+Shift+T", default: "Alt+Shift+T" },
-      jumpSlot1:      { key: "Alt+1",       default: "Alt+1"       },
-      jumpSlot2:      { key: "Alt+2",       default: "Alt+2"       },
-      jumpSlot3:      { key: "Alt+3",       default: "Alt+3"       },
-      jumpSlot4:      { key: "Alt+4",       default: "Alt+4"       },
+      ...buildJumpSlotBindings(),
       cyclePrev:      { key: "Alt+-",       default: "Alt+-"       },
       cycleNext:      { key: "Alt+=",       default: "Alt+="       },
+      jumpBack:       { key: "Alt+O",       default: "Alt+O"       },
+      jumpForward:    { key: "Alt+I",       default: "Alt+I"       },
+      alternateTab:   { key: "Alt+`",       default: "Alt+`"       },
       searchInPage:   { key: "Alt+F",       default: "Alt+F"       },
       openFrecency:   { key: "Alt+Shift+F", default: "Alt+Shift+F" },
+      searchAllTabs:  { key: "Alt+G",       default: "Alt+G"       },
       openSessions:   { key: "Alt+S",       default: "Alt+S"       },
       openSessionSave: { key: "Alt+Shift+S", default: "Alt+Shift+S" },
+      openWorkspaces: { key: "Alt+W",       default: "Alt+W"       },
+      setMark:        { key: "Alt+Shift+M", default: "Alt+Shift+M" },
+      jumpToMark:     { key: "Alt+'",       default: "Alt+'"       },
+      openMarks:      { key: "Alt+K",       default: "Alt+K"       },
       openHelp:       { key: "Alt+M",       default: "Alt+M"       },
     },
     tabManager: {
@@ -31,6 +70,11 @@ export const DEFAULT_KEYBINDINGS: KeybindingsConfig = {
       remove:         { key: "D",           default: "D"           },
       swap:           { key: "W",           default: "W"           },
       undo:           { key: "U",           default: "U"           },
+      redo:           { key: "R",           default: "R"           },
+      lock:           { key: "L",           default: "L"           },
+      label:          { key: "E",           default: "E"           },
+      note:           { key: "N",           default: "N"           },
+      jumpToMark:     { key: "'",           default: "'"           },
       close:          { key: "Escape",      default: "Escape"      },
     },
     search: {
@@ -48,6 +92,13 @@ export const DEFAULT_KEYBINDINGS: KeybindingsConfig = {
       clearSearch:       { key: "Shift+Space", default: "Shift+Space" },
       rename:            { key: "R",           default: "R"           },
       overwrite:         { key: "O",           default: "O"           },
+      merge:             { key: "M",           default: "M"           },
+      loadTarget:        { key: "W",           default: "W"           },
+      history:           { key: "H",           default: "H"           },
+      saveWindow:        { key: "Shift+Enter", default: "Shift+Enter" },
+      compare:           { key: "C",           default: "C"           },
+      copyLeft:          { key: "[",           default: "["           },
+      copyRight:         { key: "]",           default: "]"           },
       confirmYes:        { key: "Y",           default: "Y"           },
       confirmNo:         { key: "N",           default: "N"           },
     },
@@ -71,16 +122,21 @@ export const ACTION_LABELS: Record<string, Record<string, string>> = {
   global: {
     openTabManager:  "Open Tab Manager panel",
     addTab:       "Add current tab",
-    jumpSlot1:    "Jump to slot 1",
-    jumpSlot2:    "Jump to slot 2",
-    jumpSlot3:    "Jump to slot 3",
-    jumpSlot4:    "Jump to slot 4",
+    ...buildJumpSlotLabels(),
     cyclePrev:    "Cycle to previous slot",
     cycleNext:    "Cycle to next slot",
+    jumpBack:     "Jump back (jumplist)",
+    jumpForward:  "Jump forward (jumplist)",
+    alternateTab: "Toggle previous tab",
     searchInPage: "Search in Page",
     openFrecency: "Frecency tab list",
+    searchAllTabs: "Search text in all tabs",
     openSessions:  "Session menu",
     openSessionSave: "Save session",
+    openWorkspaces: "Switch workspace",
+    setMark:       "Set mark (then a-z / A-Z)",
+    jumpToMark:    "Jump to mark (then a-z / A-Z)",
+    openMarks:     "Global marks list",
     openHelp:      "Help menu",
   },
   tabManager: {
@@ -89,7 +145,12 @@ export const ACTION_LABELS: Record<string, Record<string, string>> = {
     jump:     "Jump to tab",
     remove:   "Remove entry",
     swap:     "Swap mode",
-    undo:     "Undo remove",
+    undo:     "Undo change",
+    redo:     "Redo change",
+    lock:     "Lock entry to its URL",
+    label:    "Edit entry label",
+    note:     "Edit entry note",
+    jumpToMark: "Jump to mark (then a-z)",
     close:    "Close",
   },
   search: {
@@ -107,6 +168,13 @@ export const ACTION_LABELS: Record<string, Record<string, string>> = {
     clearSearch:       "Clear search",
     rename:            "Rename session",
     overwrite:         "Overwrite session",
+    merge:             "Merge into current list",
+    loadTarget:        "Load into current / new window",
+    history:           "Browse session revisions",
+    saveWindow:        "Save every tab in the window",
+    compare:           "Compare two sessions",
+    copyLeft:          "Diff: copy entry into left session",
+    copyRight:         "Diff: copy entry into right session",
     confirmYes:        "Confirm",
     confirmNo:         "Cancel",
   },
@@ -144,6 +212,10 @@ function mergeWithDefaults(stored: Partial<KeybindingsConfig>): KeybindingsConfi
     JSON.stringify(DEFAULT_KEYBINDINGS),
   );
   merged.navigationMode = "standard";
+  merged.tabManagerSlots = resolveTabManagerSlotCount(stored.tabManagerSlots);
+  merged.tabManagerScope = stored.tabManagerScope === "window" ? "window" : "global";
+  merged.sessionLimit = resolveSessionLimit(stored.sessionLimit);
+  merged.sessionLoadMode = stored.sessionLoadMode === "lazy" ? "lazy" : "eager";
   for (const scope of Object.keys(merged.bindings) as Array<
     keyof KeybindingsConfig["bindings"]
   >) {
@@ -158,6 +230,67 @@ function mergeWithDefaults(stored: Partial<KeybindingsConfig>): KeybindingsConfi
   return merged;
 }
 
+// -- Tab Manager Slots --
+
+/** Configured slot count, clamped so configs saved by older builds stay valid */
+export function getTabManagerSlotCount(config: KeybindingsConfig): number {
+  return resolveTabManagerSlotCount(config.tabManagerSlots);
+}
+
+/** Slot number targeted by a jumpSlotN action, or null for any other action */
+export function parseJumpSlotAction(action: string): number | null {
+  if (!action.startsWith(JUMP_SLOT_ACTION_PREFIX)) return null;
+  const slot = Number(action.slice(JUMP_SLOT_ACTION_PREFIX.length));
+  return Number.isInteger(slot) && slot >= 1 ? slot : null;
+}
+
+export function jumpSlotAction(slot: number): string {
+  return `${JUMP_SLOT_ACTION_PREFIX}${slot}`;
+}
+
+/** Jump actions past the configured slot count are hidden and never fire */
+export function isActionEnabled(
+  config: KeybindingsConfig,
+  scope: string,
+  action: string,
+): boolean {
+  if (scope !== "global") return true;
+  const slot = parseJumpSlotAction(action);
+  return slot === null || slot <= getTabManagerSlotCount(config);
+}
+
+/** Load the configured slot count (background callers that only need the limit) */
+export async function loadTabManagerSlotCount(): Promise<number> {
+  return getTabManagerSlotCount(await loadKeybindings());
+}
+
+/** Whether each browser window keeps its own anchored list */
+export async function loadTabManagerPerWindow(): Promise<boolean> {
+  return (await loadKeybindings()).tabManagerScope === "window";
+}
+
+/** Saved-session cap from settings; 0 means unlimited */
+export async function loadSessionLimit(): Promise<number> {
+  return resolveSessionLimit((await loadKeybindings()).sessionLimit);
+}
+
+/** Whether session loads open background tabs discarded instead of loading them all */
+export async function loadSessionLazyLoad(): Promise<boolean> {
+  return (await loadKeybindings()).sessionLoadMode === "lazy";
+}
+
+// -- Marks --
+
+/** Lowercase mark names are local to a Tab Manager entry, like vim's `ma` / `'a` */
+export function isLocalMarkName(key: string): boolean {
+  return /^[a-z]$/.test(key);
+}
+
+/** Uppercase mark names are global: they remember a URL and reopen or reuse its tab */
+export function isGlobalMarkName(key: string): boolean {
+  return /^[A-Z]$/.test(key);
+}
+
 // -- Collision Detection --
 
 /** Returns null if no collision, or { action, label } if the key is already bound */
@@ -171,6 +304,7 @@ export function checkCollision(
   const scopeBindings = config.bindings[scope];
   for (const [existingAction, binding] of Object.entries(scopeBindings)) {
     if (existingAction === action) continue;
+    if (!isActionEnabled(config, scope, existingAction)) continue;
     if (binding.key === key) {
       const label = ACTION_LABELS[scope]?.[existingAction] || existingAction;
       return { action: existingAction, label };
@@ -299,6 +433,7 @@ export function matchesAction(
   const scopeBindings = config.bindings[scope as keyof KeybindingsConfig["bindings"]];
   const binding = scopeBindings?.[action];
   if (!binding) return false;
+  if (!isActionEnabled(config, scope, action)) return false;
 
   if (binding.key && matchesKey(event, binding.key)) return true;
 
@@ -3,15 +3,15 @@
 // Messages handled by contentScript listeners (sent from background).
 export type ContentRuntimeMessage =
   | { type: "GET_SCROLL" }
-  | { type: "SET_SCROLL"; scrollX: number; scrollY: number }
-  | { type: "GREP"; query: string; filters?: SearchFilter[] }
+  | { type: "SET_SCROLL"; scrollX: number; scrollY: number; anchor?: ScrollAnchor }
+  | { type: "GREP"; query: string; filters?: SearchFilter[]; mode?: SearchQueryMode }
   | { type: "GET_CONTENT" }
   | { type: "OPEN_SEARCH_CURRENT_PAGE" }
   | { type: "OPEN_TAB_MANAGER" }
   | { type: "OPEN_SESSIONS" }
   | { type: "OPEN_FRECENCY" }
   | { type: "SHOW_SESSION_RESTORE" }
-  | { type: "SCROLL_TO_TEXT"; text: string }
+  | { type: "SCROLL_TO_TEXT"; text: string; frame?: string }
   | {
       type: "TAB_MANAGER_ADDED_FEEDBACK";
       slot: number;
@@ -22,15 +22,34 @@ export type ContentRuntimeMessage =
 
 // Messages handled by the background runtime listener.
 export type BackgroundRuntimeMessage =
-  | { type: "GREP_CURRENT"; query: string; filters?: SearchFilter[] }
+  | { type: "GREP_CURRENT"; query: string; filters?: SearchFilter[]; mode?: SearchQueryMode }
   | { type: "GET_PAGE_CONTENT"; tabId: number }
+  | { type: "GREP_TAB_TARGETS" }
+  | { type: "GREP_TAB"; tabId: number; query: string; filters?: SearchFilter[]; mode?: SearchQueryMode }
+  | { type: "GREP_TAB_JUMP"; tabId: number; text: string; frame?: string }
   | { type: "TAB_MANAGER_ADD" }
   | { type: "TAB_MANAGER_REMOVE"; tabId: number }
   | { type: "TAB_MANAGER_LIST" }
   | { type: "TAB_MANAGER_JUMP"; slot: number }
   | { type: "TAB_MANAGER_CYCLE"; direction: "prev" | "next" }
+  | { type: "TAB_MANAGER_LOCK_TOGGLE"; tabId: number }
+  | { type: "TAB_MANAGER_ANNOTATE"; tabId: number; field: TabManagerAnnotationField; value: string }
+  | { type: "TAB_MANAGER_UNDO" }
+  | { type: "TAB_MANAGER_REDO" }
+  | { type: "ALTERNATE_TAB" }
   | { type: "TAB_MANAGER_SAVE_SCROLL" }
   | { type: "TAB_MANAGER_REORDER"; list: TabManagerEntry[] }
+  | { type: "TAB_MANAGER_MARK_SET"; mark: string }
+  | { type: "TAB_MANAGER_MARK_JUMP"; mark: string; slot?: number }
+  | { type: "GLOBAL_MARK_SET"; name: string }
+  | { type: "GLOBAL_MARK_LIST" }
+  | { type: "GLOBAL_MARK_JUMP"; name: string }
+  | { type: "GLOBAL_MARK_DELETE"; name: string }
+  | { type: "JUMP_LIST_BACK" }
+  | { type: "JUMP_LIST_FORWARD" }
+  | { type: "TAB_MANAGER_WORKSPACE_LIST" }
+  | { type: "TAB_MANAGER_WORKSPACE_SWITCH"; name: string }
+  | { type: "TAB_MANAGER_WORKSPACE_DELETE"; name: string }
   | { type: "GET_CURRENT_TAB" }
   | { type: "GET_KEYBINDINGS" }
   | { type: "SAVE_KEYBINDINGS"; config: KeybindingsConfig }
@@ -38,10 +57,20 @@ export type BackgroundRuntimeMessage =
   | { type: "FRECENCY_LIST" }
   | { type: "CONTENT_SCRIPT_READY" }
   | { type: "SESSION_SAVE"; name: string }
+  | { type: "SESSION_SAVE_WINDOW"; name: string }
   | { type: "SESSION_LIST" }
-  | { type: "SESSION_LOAD_PLAN"; name: string }
-  | { type: "SESSION_LOAD"; name: string }
+  | { type: "SESSION_LOAD_PLAN"; name: string; window?: SessionLoadWindowOptions }
+  | { type: "SESSION_LOAD"; name: string; window?: SessionLoadWindowOptions }
+  | { type: "SESSION_MERGE_PLAN"; name: string }
+  | { type: "SESSION_MERGE"; name: string }
   | { type: "SESSION_DELETE"; name: string }
   | { type: "SESSION_RENAME"; oldName: string; newName: string }
   | { type: "SESSION_UPDATE"; name: string }
-  | { type: "SESSION_REPLACE"; oldName: string; newName: string };
+  | { type: "SESSION_REPLACE"; oldName: string; newName: string }
+  | { type: "SESSION_AUTO_SNAPSHOT" }
+  | { type: "SESSION_AUTO_SNAPSHOT_RESTORE" }
+  | { type: "SESSION_REVISIONS"; name: string }
+  | { type: "SESSION_ROLLBACK"; name: string; replacedAt: number }
+  | { type: "SESSION_DIFF"; leftName: string; rightName: string }
+  | { type: "SESSION_COPY_ENTRIES"; fromName: string; toName: string; urls: string[] }
+  | { type: "SESSION_IMPORT"; sessions: TabManagerSession[]; onConflict: SessionImportConflictMode };
@@ -0,0 +1,31 @@
+// Tab Manager slot and saved-session limits shared by keybindings, background domains,
+// and storage migrations.
+// Dependency-free so pure modules (storage migrations) can import it outside the browser.
+
+export const MIN_TAB_MANAGER_SLOTS = 1;
+export const MAX_TAB_MANAGER_SLOTS = 9;
+export const DEFAULT_TAB_MANAGER_SLOTS = 4;
+
+/** Clamp a stored slot-count setting into the supported range, falling back to the default */
+export function resolveTabManagerSlotCount(value: unknown): number {
+  const numeric = Number(value);
+  if (value == null || !Number.isFinite(numeric)) return DEFAULT_TAB_MANAGER_SLOTS;
+  return Math.max(
+    MIN_TAB_MANAGER_SLOTS,
+    Math.min(MAX_TAB_MANAGER_SLOTS, Math.floor(numeric)),
+  );
+}
+
+// 0 means no cap; saved sessions are otherwise limited only by storage quota.
+export const DEFAULT_SESSION_LIMIT = 0;
+export const SESSION_LIMIT_CHOICES = [0, 4, 10, 25, 50, 100];
+
+/** Normalize a stored session-limit setting to a non-negative integer (0 = unlimited) */
+export function resolveSessionLimit(value: unknown): number {
+  const numeric = Number(value);
+  if (value == null || !Number.isFinite(numeric) || numeric < 0) return DEFAULT_SESSION_LIMIT;
+  return Math.floor(numeric);
+}
+
+// Earlier versions kept per saved session; the oldest is dropped past this.
+export const MAX_SESSION_REVISIONS = 10;
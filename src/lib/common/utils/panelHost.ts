@@ -314,7 +314,10 @@ export function getBaseStyles(): string {
        rules regress or are partially overridden. */
     .ht-tab-manager-container,
     .ht-open-tabs-container,
+    .ht-workspaces-container,
+    .ht-marks-container,
     .ht-search-page-container,
+    .ht-all-tabs-container,
     .ht-help-container {
       position: fixed !important;
       top: 50% !important;
@@ -1,57 +1,82 @@
 // Scroll-to-text and temporary highlight for navigating to grep matches.
 // Accepts an optional WeakRef<Node> to skip the DOM walk when a cached
-// reference is available from the line cache.
+// reference is available from the line cache. Matches inside open shadow roots
+// and same-origin iframes scroll their own window after the iframe is revealed.
+// Also captures/restores content-anchored scroll positions for Tab Manager.
+
+import { collectSearchRoots, getRootDocument } from "./searchRoots";
 
 /** Scroll the page to the first text node containing the given text,
  *  positioned at 1/3 from the top of the viewport.
- *  If nodeRef is provided and still alive, skips the DOM tree walk. */
-export function scrollToText(text: string, nodeRef?: WeakRef<Node>): void {
+ *  If nodeRef is provided and still alive, skips the DOM tree walk.
+ *  `frame` (a grep result's iframe label) restricts the walk to that frame first. */
+export function scrollToText(text: string, nodeRef?: WeakRef<Node>, frame?: string): void {
   if (!text) return;
 
   // Fast path: use cached node reference
   const cached = nodeRef?.deref();
   if (cached) {
-    const el = cached instanceof HTMLElement
-      ? cached
+    const el = cached.nodeType === Node.ELEMENT_NODE
+      ? cached as Element
       : cached.parentElement;
-    if (el && document.body.contains(el)) {
+    if (el && el.isConnected) {
       scrollToElement(el, text);
       return;
     }
   }
 
-  // Slow path: walk all text nodes to find the target
-  const walker = document.createTreeWalker(
-    document.body,
-    NodeFilter.SHOW_TEXT,
-    null,
-  );
-  let node: Node | null;
-  while ((node = walker.nextNode())) {
-    if (node.textContent?.includes(text)) {
-      scrollToElement(node, text);
-      return;
+  // Slow path: walk all text nodes to find the target, in the named frame when given
+  const roots = collectSearchRoots();
+  const framed = frame ? roots.filter((root) => root.frame === frame) : [];
+  for (const root of framed.length > 0 ? framed : roots) {
+    const walker = getRootDocument(root).createTreeWalker(
+      root.node,
+      NodeFilter.SHOW_TEXT,
+      null,
+    );
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      if (node.textContent?.includes(text)) {
+        scrollToElement(node, text);
+        return;
+      }
     }
   }
 }
 
+/** Bring the iframes that hold `frameWindow` into view, outermost first */
+function revealFrame(frameWindow: Window): void {
+  const frameElements: Element[] = [];
+  let current: Window | null = frameWindow;
+  while (current && current !== window && current.frameElement) {
+    frameElements.unshift(current.frameElement);
+    current = current.frameElement.ownerDocument.defaultView;
+  }
+  for (const frameElement of frameElements) {
+    frameElement.scrollIntoView({ block: "center" });
+  }
+}
+
 /** Scroll a node into view and apply a temporary highlight */
 function scrollToElement(node: Node, text: string): void {
-  const range = document.createRange();
+  const ownerDocument = node.ownerDocument ?? document;
+  const view = ownerDocument.defaultView ?? window;
+  if (view !== window) revealFrame(view);
+  const range = ownerDocument.createRange();
   // For element nodes, select contents; for text nodes, select the node itself
   if (node.nodeType === Node.TEXT_NODE) {
     range.selectNodeContents(node);
   } else {
     // HTMLElement — find the text node inside
-    const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT, null);
+    const walker = ownerDocument.createTreeWalker(node, NodeFilter.SHOW_TEXT, null);
     let textNode: Node | null;
     while ((textNode = walker.nextNode())) {
       if (textNode.textContent?.includes(text)) {
         range.selectNodeContents(textNode);
         highlightTextNode(textNode, text);
         const rect = range.getBoundingClientRect();
-        window.scrollTo({
-          top: window.scrollY + rect.top - window.innerHeight / 3,
+        view.scrollTo({
+          top: view.scrollY + rect.top - view.innerHeight / 3,
           behavior: "smooth",
         });
         return;
@@ -62,8 +87,8 @@ function scrollToElement(node: Node, text: string): void {
   }
 
   const rect = range.getBoundingClientRect();
-  window.scrollTo({
-    top: window.scrollY + rect.top - window.innerHeight / 3,
+  view.scrollTo({
+    top: view.scrollY + rect.top - view.innerHeight / 3,
     behavior: "smooth",
   });
 
@@ -80,11 +105,12 @@ function highlightTextNode(node: Node, text: string): void {
   const idx = content.indexOf(text);
   if (idx === -1) return;
 
-  const range = document.createRange();
+  const ownerDocument = node.ownerDocument ?? document;
+  const range = ownerDocument.createRange();
   range.setStart(node, idx);
   range.setEnd(node, idx + text.length);
 
-  const highlight = document.createElement("mark");
+  const highlight = ownerDocument.createElement("mark");
   Object.assign(highlight.style, {
     background: "#f9d45c",
     color: "#1e1e1e",
@@ -98,7 +124,7 @@ function highlightTextNode(node: Node, text: string): void {
     setTimeout(() => {
       highlight.style.opacity = "0";
       setTimeout(() => {
-        const textNode = document.createTextNode(highlight.textContent || "");
+        const textNode = ownerDocument.createTextNode(highlight.textContent || "");
         highlight.parentNode?.replaceChild(textNode, highlight);
         // Normalize to prevent text node fragmentation on subsequent searches
         textNode.parentNode?.normalize();
@@ -108,3 +134,120 @@ function highlightTextNode(node: Node, text: string): void {
     // Can fail on complex DOM structures (e.g. crossing element boundaries)
   }
 }
+
+const ANCHOR_MIN_TEXT_LENGTH = 20;
+const ANCHOR_SNIPPET_LENGTH = 80;
+const ANCHOR_MAX_NODES = 20000;
+const ANCHOR_SKIP_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"]);
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+interface AnchorCapture {
+  body: HTMLElement;
+  scrollX: number;
+  scrollY: number;
+  pageHeight: number;
+  anchor: ScrollAnchor | null;
+}
+
+// GET_SCROLL answers on every tab switch, jump and save; while the page has not
+// scrolled or changed height, the last walk still describes the viewport top.
+let lastAnchorCapture: AnchorCapture | null = null;
+
+function collapseText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Walk anchorable text nodes in document order, with the nearest heading
+ *  seen so far. Returning true from the visitor stops the walk. */
+function walkAnchorText(
+  visit: (text: string, el: HTMLElement, heading: string | undefined) => boolean,
+): void {
+  if (!document.body) return;
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, null);
+  let heading: string | undefined;
+  let visited = 0;
+  let node: Node | null;
+  while ((node = walker.nextNode()) && visited++ < ANCHOR_MAX_NODES) {
+    const el = node.parentElement;
+    if (!el || ANCHOR_SKIP_TAGS.has(el.tagName)) continue;
+    const text = collapseText(node.textContent || "");
+    if (!text) continue;
+    const headingEl = el.closest(HEADING_SELECTOR);
+    if (headingEl) {
+      heading = collapseText(headingEl.textContent || "") || heading;
+      continue;
+    }
+    if (text.length < ANCHOR_MIN_TEXT_LENGTH) continue;
+    if (visit(text, el, heading)) return;
+  }
+}
+
+/** Describe the viewport top as page content: the first text block crossing
+ *  it, the heading above that block, and how far into the block we are.
+ *  Returns null at the top of the page where pixels are already exact. */
+export function captureScrollAnchor(): ScrollAnchor | null {
+  if (window.scrollY <= 0 || !document.body) return null;
+  const position = {
+    body: document.body,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    pageHeight: document.body.scrollHeight,
+  };
+  const cached = lastAnchorCapture;
+  if (
+    cached
+    && cached.body === position.body
+    && cached.scrollX === position.scrollX
+    && cached.scrollY === position.scrollY
+    && cached.pageHeight === position.pageHeight
+  ) {
+    return cached.anchor;
+  }
+
+  let anchor: ScrollAnchor | null = null;
+  walkAnchorText((text, el, heading) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.height <= 0 || rect.bottom <= 0) return false;
+    const ratio = rect.top >= 0 ? 0 : Math.min(1, -rect.top / rect.height);
+    anchor = { snippet: text.slice(0, ANCHOR_SNIPPET_LENGTH), ratio };
+    if (heading) anchor.heading = heading;
+    return true;
+  });
+  lastAnchorCapture = { ...position, anchor };
+  return anchor;
+}
+
+/** Restore a scroll position, preferring the content anchor. Among blocks
+ *  matching the snippet, ones under the same heading win, then the one
+ *  closest to the saved pixel offset. Falls back to pixels when the anchor
+ *  is missing or no longer on the page. */
+export function restoreScrollPosition(
+  scrollX: number,
+  scrollY: number,
+  anchor?: ScrollAnchor,
+): void {
+  if (anchor?.snippet) {
+    const best = { found: false, top: 0, sameHeading: false, distance: Infinity };
+    walkAnchorText((text, el, heading) => {
+      if (!text.includes(anchor.snippet)) return false;
+      const rect = el.getBoundingClientRect();
+      if (rect.height <= 0) return false;
+      const top = window.scrollY + rect.top + anchor.ratio * rect.height;
+      const sameHeading = !anchor.heading || heading === anchor.heading;
+      const distance = Math.abs(top - scrollY);
+      if (
+        !best.found
+        || (sameHeading && !best.sameHeading)
+        || (sameHeading === best.sameHeading && distance < best.distance)
+      ) {
+        Object.assign(best, { found: true, top, sameHeading, distance });
+      }
+      return false;
+    });
+    if (best.found) {
+      window.scrollTo(scrollX, Math.max(0, Math.round(best.top)));
+      return;
+    }
+  }
+  window.scrollTo(scrollX, scrollY);
+}
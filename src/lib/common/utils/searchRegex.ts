@@ -0,0 +1,273 @@
+// Guard for user-typed search regexes, shared by page grep and the multi-tab grep
+// fan-out so a pattern that can backtrack badly is rejected before any page runs it.
+// Rejected: nested unbounded quantifiers such as (a+)+, repeated alternation such as
+// (a|aa)* and runs of overlapping quantifiers such as \w*\w*.
+
+export const MAX_REGEX_SOURCE_LENGTH = 256;
+
+export type SearchRegexCompileResult =
+  | { ok: true; regex: RegExp }
+  | { ok: false; reason: string };
+
+/** Smart case: a query with any uppercase letter matches case-sensitively */
+export function hasUppercase(text: string): boolean {
+  return text !== text.toLowerCase();
+}
+
+/** Length of an unbounded quantifier at `index` (*, +, {n,}, {n,m} with m > 1), else 0 */
+function unboundedQuantifierLength(source: string, index: number): number {
+  const char = source[index];
+  if (char === "*" || char === "+") return 1;
+  if (char !== "{") return 0;
+  const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+  if (!braces || braces[2] === undefined) return 0;
+  if (braces[3] !== "" && Number(braces[3]) <= 1) return 0;
+  return braces[0].length;
+}
+
+/** True when a group that repeats without bound also contains an unbounded quantifier */
+export function hasNestedQuantifier(source: string): boolean {
+  const groupRepeats: boolean[] = [];
+  let closedGroupRepeats = false;
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+      closedGroupRepeats = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+    if (char === "[") {
+      inClass = true;
+      closedGroupRepeats = false;
+      continue;
+    }
+    if (char === "(") {
+      groupRepeats.push(false);
+      closedGroupRepeats = false;
+      continue;
+    }
+    if (char === ")") {
+      closedGroupRepeats = groupRepeats.pop() ?? false;
+      if (closedGroupRepeats && groupRepeats.length > 0) {
+        groupRepeats[groupRepeats.length - 1] = true;
+      }
+      continue;
+    }
+    const quantifierLength = unboundedQuantifierLength(source, i);
+    if (quantifierLength > 0) {
+      if (closedGroupRepeats) return true;
+      if (groupRepeats.length > 0) groupRepeats[groupRepeats.length - 1] = true;
+      i += quantifierLength - 1;
+      continue;
+    }
+    closedGroupRepeats = false;
+  }
+  return false;
+}
+
+/** One quantifiable piece of a pattern: a character, escape, class or group */
+interface RegexAtom {
+  source: string;
+  /** Groups and backreferences can match anything as far as overlap checks go */
+  opaque: boolean;
+}
+
+interface RegexQuantifier {
+  length: number;
+  min: number;
+  unbounded: boolean;
+}
+
+/** Characters tried when deciding whether two atoms can match the same character */
+const OVERLAP_PROBES = (() => {
+  let probes = "\t\n\u00a0\u00e9\u00df\u20ac\u4e2d";
+  for (let code = 32; code < 127; code++) probes += String.fromCharCode(code);
+  return probes;
+})();
+
+const REGEX_ESCAPE = /^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[pPk]\{[^}]*\}|k<[^>]*>|\d+|[\s\S])/;
+
+function readQuantifier(source: string, index: number): RegexQuantifier | null {
+  const char = source[index];
+  let length = 0;
+  let min = 1;
+  let unbounded = false;
+  if (char === "*" || char === "+" || char === "?") {
+    length = 1;
+    min = char === "+" ? 1 : 0;
+    unbounded = char !== "?";
+  } else if (char === "{") {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (!braces) return null;
+    length = braces[0].length;
+    min = Number(braces[1]);
+    unbounded = unboundedQuantifierLength(source, index) > 0;
+  } else {
+    return null;
+  }
+  if (source[index + length] === "?") length++;
+  return { length, min, unbounded };
+}
+
+function atomsOverlap(a: RegexAtom, b: RegexAtom, flags: string): boolean {
+  if (a.opaque || b.opaque) return true;
+  let left: RegExp;
+  let right: RegExp;
+  try {
+    left = new RegExp(`^(?:${a.source})$`, flags);
+    right = new RegExp(`^(?:${b.source})$`, flags);
+  } catch {
+    return true;
+  }
+  const probes = OVERLAP_PROBES + a.source + b.source;
+  for (const probe of probes) {
+    if (left.test(probe) && right.test(probe)) return true;
+  }
+  return false;
+}
+
+interface RegexLevel {
+  start: number;
+  /** Lookarounds match no text, so they never act as an atom */
+  zeroWidth: boolean;
+  hasAlternation: boolean;
+  /** Unbounded atoms since the last required atom; a new one that overlaps them is ambiguous */
+  pending: RegexAtom[];
+}
+
+interface RegexRisks {
+  quantifiedAlternation: boolean;
+  overlappingQuantifiers: boolean;
+}
+
+function scanRegexRisks(source: string, flags: string): RegexRisks {
+  const risks: RegexRisks = { quantifiedAlternation: false, overlappingQuantifiers: false };
+  const levels: RegexLevel[] = [{ start: 0, zeroWidth: false, hasAlternation: false, pending: [] }];
+
+  const addAtom = (level: RegexLevel, atom: RegexAtom, quantifier: RegexQuantifier | null): void => {
+    if (!quantifier?.unbounded) {
+      if (!quantifier || quantifier.min > 0) level.pending = [];
+      return;
+    }
+    if (level.pending.some((earlier) => atomsOverlap(earlier, atom, flags))) {
+      risks.overlappingQuantifiers = true;
+    }
+    if (quantifier.min > 0) level.pending = [atom];
+    else level.pending.push(atom);
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const level = levels[levels.length - 1];
+    const char = source[i];
+    let atom: RegexAtom | null = null;
+    let end = i + 1;
+
+    if (char === "\\") {
+      const escape = REGEX_ESCAPE.exec(source.slice(i))?.[0] ?? char;
+      end = i + escape.length;
+      if (/^\\[bB]$/.test(escape)) {
+        i = end;
+        continue;
+      }
+      atom = { source: escape, opaque: /^\\(?:[1-9]|k)/.test(escape) };
+    } else if (char === "[") {
+      while (end < source.length && source[end] !== "]") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      end = Math.min(end + 1, source.length);
+      atom = { source: source.slice(i, end), opaque: false };
+    } else if (char === "(") {
+      const prefix = /^\((\?(?:[:=!]|<[=!]|<[^>]*>))?/.exec(source.slice(i))![0];
+      levels.push({
+        start: i,
+        zeroWidth: /^\(\?(?:[=!]|<[=!])/.test(prefix),
+        hasAlternation: false,
+        pending: [],
+      });
+      i += prefix.length;
+      continue;
+    } else if (char === ")" && levels.length > 1) {
+      const group = levels.pop()!;
+      const parent = levels[levels.length - 1];
+      const quantifier = readQuantifier(source, end);
+      if (quantifier?.unbounded && group.hasAlternation) risks.quantifiedAlternation = true;
+      // Alternation inside a nested group still makes every repeating ancestor ambiguous.
+      if (group.hasAlternation) parent.hasAlternation = true;
+      i = end + (quantifier?.length ?? 0);
+      if (!group.zeroWidth) addAtom(parent, { source: source.slice(group.start, end), opaque: true }, quantifier);
+      continue;
+    } else if (char === "|") {
+      level.hasAlternation = true;
+      level.pending = [];
+      i = end;
+      continue;
+    } else if (char === "^" || char === "$") {
+      i = end;
+      continue;
+    } else {
+      atom = { source: char, opaque: false };
+    }
+
+    const quantifier = readQuantifier(source, end);
+    i = end + (quantifier?.length ?? 0);
+    addAtom(level, atom, quantifier);
+  }
+  return risks;
+}
+
+/** True when a group containing alternation repeats without bound, as in (a|aa)* */
+export function hasQuantifiedAlternation(source: string): boolean {
+  return scanRegexRisks(source, "").quantifiedAlternation;
+}
+
+/** True when unbounded quantifiers follow each other over characters both can match, as in \w*\w* */
+export function hasOverlappingQuantifiers(source: string, flags = ""): boolean {
+  return scanRegexRisks(source, flags).overlappingQuantifiers;
+}
+
+/** Compile a user regex with smart case, rejecting patterns that can backtrack badly */
+export function compileSearchRegex(source: string, global = false): SearchRegexCompileResult {
+  if (source.length > MAX_REGEX_SOURCE_LENGTH) {
+    return { ok: false, reason: `Pattern longer than ${MAX_REGEX_SOURCE_LENGTH} characters` };
+  }
+  if (hasNestedQuantifier(source)) {
+    return { ok: false, reason: "Nested repetition like (a+)+ is too slow to run" };
+  }
+  // Escapes such as \D or \W are not uppercase text, so they don't switch smart case on.
+  const caseFlag = hasUppercase(source.replace(/\\./g, "")) ? "" : "i";
+  const risks = scanRegexRisks(source, caseFlag);
+  if (risks.quantifiedAlternation) {
+    return { ok: false, reason: "Repeated alternation like (a|aa)* is too slow to run" };
+  }
+  if (risks.overlappingQuantifiers) {
+    return { ok: false, reason: "Back-to-back repetition like \\w*\\w* is too slow to run" };
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, `${global ? "g" : ""}${caseFlag}`);
+  } catch (error) {
+    return { ok: false, reason: (error as Error).message.replace(/^Invalid regular expression: /, "") };
+  }
+  if (regex.test("")) {
+    return { ok: false, reason: "Pattern matches empty text" };
+  }
+  regex.lastIndex = 0;
+  return { ok: true, regex };
+}
+
+/** Check a query before it is sent to any page; only regex mode can be rejected */
+export function validateSearchQuery(
+  query: string,
+  mode: SearchQueryMode,
+): { ok: true } | { ok: false; reason: string } {
+  if (mode !== "regex") return { ok: true };
+  const compiled = compileSearchRegex(query);
+  return compiled.ok ? { ok: true } : compiled;
+}
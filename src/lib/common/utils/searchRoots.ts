@@ -0,0 +1,83 @@
+// Text roots for page grep and scroll-to-text. A single TreeWalker over document.body
+// misses web-component shadow roots and iframe documents, so both are listed here as
+// separate roots: the top body, every open shadow root, and same-origin iframe bodies
+// (nested up to MAX_FRAME_DEPTH). Closed shadow roots and cross-origin frames are not
+// reachable from the content script and are skipped.
+
+export interface SearchRoot {
+  /** Walk root: a document body or an open shadow root */
+  node: Node & ParentNode;
+  /** Label of the iframe holding this root ("outer › inner" when nested); unset in the top document */
+  frame?: string;
+}
+
+const MAX_FRAME_DEPTH = 3;
+// Our own overlay lives in an open shadow root; never search it.
+const PANEL_HOST_ID = "ht-panel-host";
+
+function getSameOriginFrameDocument(frameEl: HTMLIFrameElement): Document | null {
+  try {
+    return frameEl.contentDocument;
+  } catch (_) {
+    return null;
+  }
+}
+
+function describeFrame(frameEl: HTMLIFrameElement, frameDoc: Document): string {
+  const label = frameEl.title?.trim() || frameEl.name?.trim() || frameDoc.title?.trim();
+  if (label) return label;
+  try {
+    const url = new URL(frameDoc.URL);
+    return url.pathname.split("/").filter(Boolean).pop() || url.host || "iframe";
+  } catch (_) {
+    return "iframe";
+  }
+}
+
+/** List every reachable text root in document order of discovery, top document first */
+export function collectSearchRoots(): SearchRoot[] {
+  const roots: SearchRoot[] = [];
+  const labelCounts = new Map<string, number>();
+
+  // Frame labels double as scroll targets, so repeated titles get a " (2)" suffix.
+  function uniqueFrameLabel(label: string): string {
+    const count = (labelCounts.get(label) ?? 0) + 1;
+    labelCounts.set(label, count);
+    return count === 1 ? label : `${label} (${count})`;
+  }
+
+  function visit(node: Node & ParentNode, frame: string | undefined, depth: number): void {
+    roots.push(frame ? { node, frame } : { node });
+    // Only shadow hosts come out of the walk; the panel host's subtree is never entered.
+    const hosts = (node.ownerDocument ?? document).createTreeWalker(
+      node,
+      NodeFilter.SHOW_ELEMENT,
+      {
+        acceptNode(candidate: Node): number {
+          const el = candidate as Element;
+          if (el.id === PANEL_HOST_ID) return NodeFilter.FILTER_REJECT;
+          return el.shadowRoot ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+        },
+      },
+    );
+    let host: Node | null;
+    while ((host = hosts.nextNode())) {
+      visit((host as Element).shadowRoot!, frame, depth);
+    }
+    if (depth >= MAX_FRAME_DEPTH) return;
+    for (const frameEl of node.querySelectorAll<HTMLIFrameElement>("iframe, frame")) {
+      const frameDoc = getSameOriginFrameDocument(frameEl);
+      if (!frameDoc?.body) continue;
+      const label = describeFrame(frameEl, frameDoc);
+      visit(frameDoc.body, uniqueFrameLabel(frame ? `${frame} › ${label}` : label), depth + 1);
+    }
+  }
+
+  if (document.body) visit(document.body, undefined, 0);
+  return roots;
+}
+
+/** The document a root lives in (shadow roots report their host's document) */
+export function getRootDocument(root: SearchRoot): Document {
+  return root.node.ownerDocument ?? document;
+}
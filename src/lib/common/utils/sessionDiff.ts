@@ -0,0 +1,73 @@
+// Two-session diff for the session menu: entries are matched by normalized URL, so the
+// same page saved with a different hash or trailing slash counts as one entry.
+
+import { normalizeUrlForMatch } from "./helpers";
+
+/** Annotation or title drift between two saved copies of the same page */
+function entryDetailsDiffer(left: TabManagerSessionEntry, right: TabManagerSessionEntry): boolean {
+  return (left.title || "") !== (right.title || "")
+    || (left.label || "") !== (right.label || "")
+    || (left.note || "") !== (right.note || "")
+    || !!left.locked !== !!right.locked;
+}
+
+/** Rows in left-session order, then the entries only the right session has.
+ *  Repeated URLs pair up in order; extra copies show as added or removed. */
+export function diffSessionEntries(
+  leftEntries: TabManagerSessionEntry[],
+  rightEntries: TabManagerSessionEntry[],
+): SessionDiffRow[] {
+  const unmatchedRight = new Map<string, TabManagerSessionEntry[]>();
+  for (const entry of rightEntries) {
+    const key = normalizeUrlForMatch(entry.url);
+    const queue = unmatchedRight.get(key) || [];
+    queue.push(entry);
+    unmatchedRight.set(key, queue);
+  }
+
+  const rows: SessionDiffRow[] = [];
+  for (const left of leftEntries) {
+    const right = unmatchedRight.get(normalizeUrlForMatch(left.url))?.shift();
+    if (!right) {
+      rows.push({ change: "removed", left });
+      continue;
+    }
+    rows.push({ change: entryDetailsDiffer(left, right) ? "changed" : "same", left, right });
+  }
+  for (const entry of rightEntries) {
+    const queue = unmatchedRight.get(normalizeUrlForMatch(entry.url));
+    if (queue?.[0] === entry) {
+      queue.shift();
+      rows.push({ change: "added", right: entry });
+    }
+  }
+  return rows;
+}
+
+/** Copy source entries with the given URLs into target: pages the target already has are
+ *  updated in place, the rest are appended. Copies follow the target's slot layout: an
+ *  updated page keeps the anchorSlot it held there and appended pages join unanchored,
+ *  so two entries never claim one slot. Returns the new target entries. */
+export function copySessionEntries(
+  targetEntries: TabManagerSessionEntry[],
+  sourceEntries: TabManagerSessionEntry[],
+  urls: string[],
+): { entries: TabManagerSessionEntry[]; copied: number } {
+  const wanted = new Set(urls.map(normalizeUrlForMatch));
+  const entries = [...targetEntries];
+  let copied = 0;
+  for (const source of sourceEntries) {
+    const key = normalizeUrlForMatch(source.url);
+    if (!wanted.has(key)) continue;
+    wanted.delete(key);
+    const existingIndex = entries.findIndex((entry) => normalizeUrlForMatch(entry.url) === key);
+    const copy = { ...source };
+    const targetSlot = existingIndex >= 0 ? entries[existingIndex].anchorSlot : undefined;
+    if (targetSlot != null) copy.anchorSlot = targetSlot;
+    else delete copy.anchorSlot;
+    if (existingIndex >= 0) entries[existingIndex] = copy;
+    else entries.push(copy);
+    copied++;
+  }
+  return { entries, copied };
+}
@@ -0,0 +1,82 @@
+// Session label syntax shared by the session menu and background session domain.
+// "work/client/Research #debug #q3" -> folder "work/client", name "Research", tags [debug, q3].
+// "\/" is a literal slash and "\#" a literal "#", so names saved before folders and tags
+// existed ("TODO 1/2", "Bug #42") keep theirs.
+
+export interface SessionLabelParts {
+  name: string;
+  folder?: string;
+  tags?: string[];
+}
+
+const TAG_PATTERN = /^#([\p{L}\p{N}_-]+)$/u;
+
+/** Split on "/" except where escaped as "\/"; "\\" is a literal backslash and "\#" a literal "#" */
+function splitLabelPath(text: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+    if (char === "\\" && (next === "/" || next === "\\" || next === "#")) {
+      current += next;
+      i++;
+    } else if (char === "/") {
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+/** Escape what parseSessionLabel would read as syntax: slashes, backslashes, and a "#"
+ *  starting a word (it would become a tag). */
+function escapeLabelName(name: string): string {
+  return name
+    .replace(/[\\/]/g, (char) => `\\${char}`)
+    .replace(/(^|\s)#/g, "$1\\#");
+}
+
+/** Split a typed label into folder path, display name, and #tags */
+export function parseSessionLabel(rawLabel: string): SessionLabelParts {
+  const tags: string[] = [];
+  const words: string[] = [];
+  for (const token of rawLabel.trim().split(/\s+/).filter(Boolean)) {
+    const tagMatch = TAG_PATTERN.exec(token);
+    if (tagMatch) {
+      const tag = tagMatch[1].toLowerCase();
+      if (!tags.includes(tag)) tags.push(tag);
+    } else {
+      words.push(token);
+    }
+  }
+
+  const segments = splitLabelPath(words.join(" ")).map((segment) => segment.trim());
+  const name = segments.pop() || "";
+  const folder = segments.filter(Boolean).join("/");
+  return {
+    name,
+    ...(folder ? { folder } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+}
+
+/** Inverse of parseSessionLabel, used to prefill the rename input */
+export function formatSessionLabel(session: SessionLabelParts): string {
+  const name = escapeLabelName(session.name);
+  const path = session.folder ? `${session.folder}/${name}` : name;
+  const tags = (session.tags || []).map((tag) => `#${tag}`);
+  return [path, ...tags].join(" ");
+}
+
+/** Apply parsed folder/tags to a session, clearing fields the new label omits */
+export function applySessionLabel(session: TabManagerSession, parts: SessionLabelParts): void {
+  session.name = parts.name;
+  if (parts.folder) session.folder = parts.folder;
+  else delete session.folder;
+  if (parts.tags) session.tags = parts.tags;
+  else delete session.tags;
+}
@@ -0,0 +1,98 @@
+// Pure session load/merge planning shared by the background session domain: which
+// saved entries take a slot, and what each slot would show, before any tab opens.
+
+import { normalizeUrlForMatch } from "./helpers";
+
+export interface SessionMergeComputation {
+  fillEntries: TabManagerSessionEntry[];
+  slotDiffs: SessionLoadSlotDiff[];
+  duplicateCount: number;
+  dropCount: number;
+}
+
+export function resolveDisplayTitle(title: string | undefined, url: string | undefined): string {
+  const trimmedTitle = (title || "").trim();
+  if (trimmedTitle) return trimmedTitle;
+  const trimmedUrl = (url || "").trim();
+  if (trimmedUrl) return trimmedUrl;
+  return "Untitled";
+}
+
+/** Merge plan: session entries fill the empty slots after the current list in order,
+ *  skipping URLs already in the list (or repeated in the session) and dropping the
+ *  rest once the slot count is reached. */
+export function computeSessionMerge(
+  entries: TabManagerSessionEntry[],
+  currentList: TabManagerEntry[],
+  slotCount: number,
+): SessionMergeComputation {
+  const slotDiffs: SessionLoadSlotDiff[] = [];
+  const fillEntries: TabManagerSessionEntry[] = [];
+  const occupiedSlotByUrl = new Map<string, { slot: number; title: string; url: string }>();
+  for (const current of currentList) {
+    const url = normalizeUrlForMatch(current.url);
+    if (url && !occupiedSlotByUrl.has(url)) {
+      occupiedSlotByUrl.set(url, { slot: current.slot, title: current.title, url: current.url });
+    }
+  }
+  let duplicateCount = 0;
+  let dropCount = 0;
+
+  for (const entry of entries) {
+    const incomingTitle = resolveDisplayTitle(entry.title, entry.url);
+    const url = normalizeUrlForMatch(entry.url);
+    const occupied = url ? occupiedSlotByUrl.get(url) : undefined;
+    if (occupied) {
+      slotDiffs.push({
+        slot: occupied.slot,
+        change: "duplicate",
+        currentTitle: resolveDisplayTitle(occupied.title, occupied.url),
+        currentUrl: occupied.url,
+        incomingTitle,
+        incomingUrl: entry.url,
+      });
+      duplicateCount++;
+      continue;
+    }
+    const slot = currentList.length + fillEntries.length + 1;
+    if (slot > slotCount) {
+      slotDiffs.push({ slot: 0, change: "drop", incomingTitle, incomingUrl: entry.url });
+      dropCount++;
+      continue;
+    }
+    fillEntries.push(entry);
+    if (url) occupiedSlotByUrl.set(url, { slot, title: entry.title, url: entry.url });
+    slotDiffs.push({ slot, change: "fill", incomingTitle, incomingUrl: entry.url });
+  }
+
+  return { fillEntries, slotDiffs, duplicateCount, dropCount };
+}
+
+/** Entries that take Tab Manager slots, plus, for window snapshots, the rest of the
+ *  window's tabs, which reopen without a slot. */
+export function splitSessionEntries(
+  session: Pick<TabManagerSession, "entries" | "kind">,
+  slotCount: number,
+): { slotEntries: TabManagerSessionEntry[]; extraEntries: TabManagerSessionEntry[] } {
+  if (session.kind !== "window") {
+    return { slotEntries: session.entries.slice(0, slotCount), extraEntries: [] };
+  }
+  const slotEntries = session.entries
+    .filter((entry) => entry.anchorSlot != null)
+    .sort((a, b) => (a.anchorSlot ?? 0) - (b.anchorSlot ?? 0))
+    .slice(0, slotCount);
+  return {
+    slotEntries,
+    extraEntries: session.entries.filter((entry) => !slotEntries.includes(entry)),
+  };
+}
+
+/** Opened tab IDs in the session's saved tab-strip order; entries that failed to open are skipped */
+export function savedTabStripOrder(
+  entries: TabManagerSessionEntry[],
+  openedTabIds: Map<TabManagerSessionEntry, number>,
+): number[] {
+  return entries
+    .map((entry) => openedTabIds.get(entry))
+    .filter((tabId): tabId is number => tabId != null);
+}
@@ -0,0 +1,148 @@
+// Session export/import formats for the options page: a versioned JSON file that keeps
+// scroll positions and entry metadata, and plain newline-separated URL lists.
+// Both formats only accept web and file URLs, and a plain session longer than the
+// Tab Manager slot count imports as a window snapshot so no entry is left behind on load.
+
+import { normalizeSessions } from "./storageMigrations";
+
+export const SESSION_EXPORT_FORMAT = "harpoon-telescope-sessions";
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: TabManagerSession[];
+}
+
+export type SessionImportParseResult =
+  | { ok: true; sessions: TabManagerSession[]; skipped: number }
+  | { ok: false; reason: string };
+
+// `# Name` lines in a URL list start a new session with that name.
+const URL_LIST_HEADER_PATTERN = /^#\s*(.+)$/;
+
+export function buildSessionExportJson(sessions: TabManagerSession[]): string {
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** One URL per line; a `# Name` header precedes each session when exporting several. */
+export function buildSessionUrlList(sessions: TabManagerSession[]): string {
+  const lines: string[] = [];
+  for (const session of sessions) {
+    if (sessions.length > 1) {
+      if (lines.length > 0) lines.push("");
+      lines.push(`# ${session.name}`);
+    }
+    for (const entry of session.entries) lines.push(entry.url);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function isImportableUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return ["http:", "https:", "file:", "ftp:"].includes(url.protocol);
+  } catch (_) {
+    return false;
+  }
+}
+
+function parseSessionExportJson(text: string): SessionImportParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (_) {
+    return { ok: false, reason: "Not valid JSON" };
+  }
+  const file = parsed as Partial<SessionExportFile> | null;
+  if (typeof file !== "object" || file === null || file.format !== SESSION_EXPORT_FORMAT) {
+    return { ok: false, reason: "Not a Harpoon Telescope session export" };
+  }
+  const version = Number(file.version);
+  if (!Number.isInteger(version) || version < 1) {
+    return { ok: false, reason: "Missing export version" };
+  }
+  if (version > SESSION_EXPORT_VERSION) {
+    return { ok: false, reason: `Export version ${version} is newer than this build supports` };
+  }
+  const rawSessions = Array.isArray(file.sessions) ? file.sessions : [];
+  let skippedUrls = 0;
+  const importable = rawSessions.map((rawSession: unknown) => {
+    if (typeof rawSession !== "object" || rawSession === null) return rawSession;
+    const session = rawSession as Partial<TabManagerSession>;
+    if (!Array.isArray(session.entries)) return session;
+    const entries = session.entries.filter((entry: unknown) =>
+      typeof entry === "object" && entry !== null
+      && isImportableUrl(String((entry as Partial<TabManagerSessionEntry>).url ?? "")));
+    skippedUrls += session.entries.length - entries.length;
+    return { ...session, entries };
+  });
+  const sessions = normalizeSessions(importable) || [];
+  if (sessions.length === 0) return { ok: false, reason: "No valid sessions in file" };
+  return { ok: true, sessions, skipped: rawSessions.length - sessions.length + skippedUrls };
+}
+
+function parseSessionUrlList(text: string, fallbackName: string): SessionImportParseResult {
+  const rawSessions: Array<{ name: string; entries: TabManagerSessionEntry[]; savedAt: number }> = [];
+  let current: (typeof rawSessions)[number] | null = null;
+  let skipped = 0;
+  const now = Date.now();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const header = URL_LIST_HEADER_PATTERN.exec(line);
+    if (header) {
+      current = { name: header[1].trim(), entries: [], savedAt: now };
+      rawSessions.push(current);
+      continue;
+    }
+    if (!isImportableUrl(line)) {
+      skipped++;
+      continue;
+    }
+    if (!current) {
+      current = { name: fallbackName, entries: [], savedAt: now };
+      rawSessions.push(current);
+    }
+    current.entries.push({ url: line, title: "", scrollX: 0, scrollY: 0 });
+  }
+
+  const sessions = normalizeSessions(rawSessions) || [];
+  if (sessions.length === 0) return { ok: false, reason: "No valid URLs found" };
+  return { ok: true, sessions, skipped };
+}
+
+/** Plain sessions only load their first `slotCount` entries, so longer ones become window
+ *  snapshots with the leading entries anchored to the slots and the rest opened as tabs. */
+function fitSessionToSlots(session: TabManagerSession, slotCount: number): TabManagerSession {
+  if (session.kind === "window" || session.entries.length <= slotCount) return session;
+  return {
+    ...session,
+    kind: "window",
+    entries: session.entries.map((entry, index) =>
+      index < slotCount ? { ...entry, anchorSlot: index + 1 } : entry),
+  };
+}
+
+/** Accept either a JSON export or a plain URL list; sessions pass the storage normalizer. */
+export function parseSessionImport(
+  text: string,
+  fallbackName: string,
+  slotCount: number,
+): SessionImportParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, reason: "Nothing to import" };
+  const parsed = trimmed.startsWith("{")
+    ? parseSessionExportJson(trimmed)
+    : parseSessionUrlList(trimmed, fallbackName);
+  if (!parsed.ok) return parsed;
+  return { ...parsed, sessions: parsed.sessions.map((session) => fitSessionToSlots(session, slotCount)) };
+}
@@ -1,9 +1,8 @@
+import { resolveTabManagerSlotCount } from "../contracts/tabManagerLimits";
+
 const STORAGE_SCHEMA_VERSION_KEY = "storageSchemaVersion";
 export const STORAGE_SCHEMA_VERSION = 1;
 
-const MAX_TAB_MANAGER_SLOTS = 4;
-const MAX_SESSIONS = 4;
-
 type StorageSnapshot = Record<string, unknown>;
 
 export interface StorageMigrationResult {
@@ -44,7 +43,16 @@ function deepEqual(left: unknown, right: unknown): boolean {
   return JSON.stringify(left) === JSON.stringify(right);
 }
 
-function normalizeTabManagerList(rawValue: unknown): TabManagerEntry[] | null {
+/** Slot limit comes from the stored keybindings config so migrations honor the user setting */
+function readTabManagerSlotLimit(storage: StorageSnapshot): number {
+  const keybindings = storage.keybindings;
+  if (typeof keybindings !== "object" || keybindings === null) {
+    return resolveTabManagerSlotCount(undefined);
+  }
+  return resolveTabManagerSlotCount((keybindings as Partial<KeybindingsConfig>).tabManagerSlots);
+}
+
+function normalizeTabManagerList(rawValue: unknown, maxSlots: number): TabManagerEntry[] | null {
   if (!Array.isArray(rawValue)) return null;
   const normalized: TabManagerEntry[] = [];
   for (const rawEntry of rawValue) {
@@ -67,12 +75,55 @@ function normalizeTabManagerList(rawValue: unknown): TabManagerEntry[] | null {
     }
     normalized.push(normalizedEntry);
 
-    if (normalized.length >= MAX_TAB_MANAGER_SLOTS) break;
+    if (normalized.length >= maxSlots) break;
   }
   return normalized;
 }
 
-function normalizeSessions(rawValue: unknown): TabManagerSession[] | null {
+/** Keep optional per-entry fields from newer builds (anchors, locks, labels, containers)
+ *  when they have the expected shape; anything malformed is dropped. */
+function normalizeSessionEntryExtras(entry: Partial<TabManagerSessionEntry>): Partial<TabManagerSessionEntry> {
+  const extras: Partial<TabManagerSessionEntry> = {};
+  const anchor = entry.scrollAnchor;
+  if (typeof anchor === "object" && anchor !== null && asString(anchor.snippet)) {
+    extras.scrollAnchor = {
+      snippet: asString(anchor.snippet),
+      ratio: toNonNegativeNumber(anchor.ratio, 0),
+      ...(asString(anchor.heading) ? { heading: asString(anchor.heading) } : {}),
+    };
+  }
+  if (entry.locked === true) extras.locked = true;
+  if (asString(entry.label).trim()) extras.label = asString(entry.label).trim();
+  if (asString(entry.note).trim()) extras.note = asString(entry.note).trim();
+  if (entry.pinned === true) extras.pinned = true;
+  const anchorSlot = toPositiveInteger(entry.anchorSlot);
+  if (anchorSlot) extras.anchorSlot = anchorSlot;
+  const context = entry.context;
+  if (typeof context === "object" && context !== null) {
+    const cookieStoreId = asString(context.cookieStoreId);
+    const group = context.group;
+    const groupId = typeof group === "object" && group !== null ? Number(group.id) : NaN;
+    if (cookieStoreId || Number.isInteger(groupId)) {
+      extras.context = {
+        ...(cookieStoreId ? { cookieStoreId } : {}),
+        ...(Number.isInteger(groupId)
+          ? {
+            group: {
+              id: groupId,
+              ...(asString(group?.title) ? { title: asString(group?.title) } : {}),
+              ...(asString(group?.color) ? { color: asString(group?.color) } : {}),
+            },
+          }
+          : {}),
+      };
+    }
+  }
+  return extras;
+}
+
+/** Validate saved sessions from storage or an import file: drops unnamed, duplicate-named,
+ *  and empty sessions, and coerces entry fields to their stored types. */
+export function normalizeSessions(rawValue: unknown): TabManagerSession[] | null {
   if (!Array.isArray(rawValue)) return null;
 
   const normalized: TabManagerSession[] = [];
@@ -99,18 +150,24 @@ function normalizeSessions(rawValue: unknown): TabManagerSession[] | null {
         title: asString(entry.title),
         scrollX: toNonNegativeNumber(entry.scrollX, 0),
         scrollY: toNonNegativeNumber(entry.scrollY, 0),
+        ...normalizeSessionEntryExtras(entry),
       });
     }
     if (entries.length === 0) continue;
 
+    const folder = asString(session.folder).trim();
+    const tags = Array.isArray(session.tags)
+      ? session.tags.map((tag) => asString(tag).trim().toLowerCase()).filter(Boolean)
+      : [];
     normalized.push({
       name,
       entries,
       savedAt: toNonNegativeNumber(session.savedAt, 0),
+      ...(folder ? { folder } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(session.kind === "window" ? { kind: "window" as const } : {}),
     });
     seenSessionNames.add(lowerName);
-
-    if (normalized.length >= MAX_SESSIONS) break;
   }
 
   return normalized;
@@ -154,7 +211,12 @@ function normalizeKey<T>(
 
 function migrateV0ToV1(storage: StorageSnapshot): boolean {
   let changed = false;
-  changed = normalizeKey(storage, "tabManagerList", normalizeTabManagerList) || changed;
+  const maxSlots = readTabManagerSlotLimit(storage);
+  changed = normalizeKey(
+    storage,
+    "tabManagerList",
+    (value) => normalizeTabManagerList(value, maxSlots),
+  ) || changed;
   changed = normalizeKey(storage, "tabManagerSessions", normalizeSessions) || changed;
   changed = normalizeKey(storage, "frecencyData", normalizeFrecencyData) || changed;
   return changed;
@@ -5,6 +5,8 @@ function pluralize(count: number, singular: string, plural: string = `${singular
 export const toastMessages = {
   panelOpenFailed: "Panel failed to open",
   pageTooLargeToSearch: "Page too large to search",
+  searchAllTabsFailed: "Search all tabs failed",
+  tabGrepJumpFailed: "Could not jump to match",
 
   tabManagerActionFailed: "Tab Manager action failed",
   tabManagerSwapFailed: "Swap failed",
@@ -12,6 +14,20 @@ export const toastMessages = {
   tabManagerAdded: (slot: number): string => `Added to Tab Manager [${slot}]`,
   tabManagerAlreadyAdded: (slot: number): string => `Already in Tab Manager [${slot}]`,
   tabManagerFull: (max: number): string => `Tab Manager full (max ${max})`,
+  tabManagerLock: (slot: number, locked: boolean): string =>
+    locked ? `Locked [${slot}] to its URL` : `Unlocked [${slot}]`,
+  markPrompt: "Mark: press a-z (slot) or A-Z (global)",
+  markJumpPrompt: "Jump to mark: press a-z or A-Z",
+  markSet: (mark: string, slot: number): string => `Mark '${mark}' set [${slot}]`,
+  globalMarkSet: (mark: string): string => `Global mark '${mark}' set`,
+  globalMarkDelete: (mark: string): string => `Deleted mark '${mark}'`,
+  markActionFailed: "Mark action failed",
+  jumpListFailed: "Jumplist navigation failed",
+  alternateTabFailed: "Could not switch to the previous tab",
+  workspaceActionFailed: "Workspace action failed",
+  workspaceSwitch: (name: string, count: number): string =>
+    `Switched to workspace "${name}" (${count} ${pluralize(count, "tab")})`,
+  workspaceDelete: (name: string): string => `Deleted workspace "${name}"`,
 
   sessionMenuFailed: "Session menu failed",
   alreadyUsingSavedSessionFromList: (name: string): string =>
@@ -26,10 +42,22 @@ export const toastMessages = {
     `Saved session "${name}" (replaced "${replacedName}")`,
   sessionLoad: (name: string, count: number): string =>
     `Loaded session "${name}" (${count} ${pluralize(count, "tab")})`,
+  sessionMerge: (name: string, count: number, skipped: number): string =>
+    `Merged ${count} ${pluralize(count, "tab")} from "${name}"${skipped > 0 ? ` (${skipped} skipped)` : ""}`,
   sessionRename: (name: string): string => `Renamed session "${name}"`,
   sessionRenameFailed: "Rename failed",
   sessionOverwrite: (name: string): string => `Overwrote session "${name}"`,
   sessionOverwriteFailed: "Overwrite failed",
+  sessionHistoryFailed: "Failed to load session history",
+  sessionRollbackFailed: "Rollback failed",
+  sessionRollback: (name: string, count: number): string =>
+    `Rolled back session "${name}" (${count} ${pluralize(count, "tab")})`,
+  sessionDiffFailed: "Failed to compare sessions",
+  sessionCopyFailed: "Copy failed",
+  sessionCopyEntries: (name: string, count: number): string =>
+    `Copied ${count} ${pluralize(count, "entry", "entries")} into "${name}"`,
+  workingSetRestore: (count: number): string =>
+    `Restored last working set (${count} ${pluralize(count, "tab")})`,
   sessionRestore: (name: string, count: number): string =>
     `Restored session "${name}" (${count} ${pluralize(count, "tab")})`,
 };
@@ -0,0 +1,53 @@
+// Matching an orphaned per-window Tab Manager list onto a restored window. Window IDs
+// change when a window comes back (undo close, browser restart), so the list follows
+// the open window whose tabs share the most URLs with it.
+
+import { normalizeUrlForMatch } from "./helpers";
+
+interface MatchableTab {
+  id?: number;
+  windowId?: number;
+  url?: string;
+}
+
+export interface WindowListMatch<E, T> {
+  windowId: number;
+  matches: Map<E, T>;
+}
+
+/** Pair list entries with tabs by normalized URL, using each tab at most once. */
+export function matchEntriesToTabs<E extends { url: string }, T extends MatchableTab>(
+  entries: E[],
+  tabs: T[],
+): Map<E, T> {
+  const matches = new Map<E, T>();
+  const usedTabIds = new Set<number>();
+  for (const entry of entries) {
+    const entryUrl = normalizeUrlForMatch(entry.url);
+    if (!entryUrl) continue;
+    const tab = tabs.find((candidate) =>
+      candidate.id != null
+      && !usedTabIds.has(candidate.id)
+      && normalizeUrlForMatch(candidate.url || "") === entryUrl);
+    if (!tab || tab.id == null) continue;
+    usedTabIds.add(tab.id);
+    matches.set(entry, tab);
+  }
+  return matches;
+}
+
+/** The candidate window with the most URL matches, or null unless at least half of the
+ *  list lines up, so unrelated windows are never hijacked. Ties go to the first candidate. */
+export function findRestoredWindowMatch<E extends { url: string }, T extends MatchableTab>(
+  entries: E[],
+  tabs: T[],
+  candidateWindowIds: Iterable<number>,
+): WindowListMatch<E, T> | null {
+  let best: WindowListMatch<E, T> | null = null;
+  for (const windowId of candidateWindowIds) {
+    const matches = matchEntriesToTabs(entries, tabs.filter((tab) => tab.windowId === windowId));
+    if (!best || matches.size > best.matches.size) best = { windowId, matches };
+  }
+  if (!best || best.matches.size === 0 || best.matches.size * 2 < entries.length) return null;
+  return best;
+}
@@ -0,0 +1,135 @@
+// Pure multi-tab grep helpers.
+// Capped fan-out across tabs, and merging per-tab answers into one list that is
+// grouped by tab and ranked by each tab's best match. DOM- and browser-free.
+
+import { validateSearchQuery } from "../../common/utils/searchRegex";
+
+export const MAX_CONCURRENT_TAB_GREPS = 4;
+export const MAX_RESULTS_PER_TAB = 20;
+
+export interface TabGrepGroup {
+  target: GrepTabTarget;
+  /** Best first, capped at MAX_RESULTS_PER_TAB */
+  results: GrepResult[];
+  /** Position in the target list; breaks ties between equally good tabs */
+  order: number;
+}
+
+export interface TabGrepHit {
+  group: TabGrepGroup;
+  result: GrepResult;
+}
+
+export interface TabGrepProgress {
+  done: number;
+  total: number;
+  timedOut: number;
+  failed: number;
+}
+
+/** Run `worker` over `items` with at most `limit` in flight, stopping early once cancelled */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  isCancelled: () => boolean = () => false,
+): Promise<void> {
+  let nextIndex = 0;
+  async function lane(): Promise<void> {
+    while (nextIndex < items.length && !isCancelled()) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  }
+  const laneCount = Math.max(0, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: laneCount }, lane));
+}
+
+export interface TabGrepFanOut {
+  listTargets: () => Promise<GrepTabTarget[]>;
+  grep: (target: GrepTabTarget) => Promise<TabGrepResult>;
+  onTargets: (targets: GrepTabTarget[]) => void;
+  onAnswer: (target: GrepTabTarget, order: number, response: TabGrepResult) => void;
+  isCancelled: () => boolean;
+}
+
+/** Validate the query once, then grep every target tab a few at a time.
+ *  A rejected query (e.g. a regex that can backtrack badly) reaches no tab. */
+export async function grepAllTabs(
+  query: string,
+  mode: SearchQueryMode,
+  fanOut: TabGrepFanOut,
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  const validation = validateSearchQuery(query, mode);
+  if (!validation.ok) return validation;
+
+  const targets = await fanOut.listTargets();
+  if (fanOut.isCancelled()) return { ok: true };
+  fanOut.onTargets(targets);
+
+  await runWithConcurrency(
+    targets,
+    MAX_CONCURRENT_TAB_GREPS,
+    async (target, order) => {
+      let response: TabGrepResult;
+      try {
+        response = await fanOut.grep(target);
+      } catch (_) {
+        response = { ok: false, reason: "Tab unavailable" };
+      }
+      if (!fanOut.isCancelled()) fanOut.onAnswer(target, order, response);
+    },
+    fanOut.isCancelled,
+  );
+  return { ok: true };
+}
+
+function bestScore(group: TabGrepGroup): number {
+  return group.results[0]?.score ?? 0;
+}
+
+/** Group for one tab's answer, or null when the tab had no matches */
+export function createTabGrepGroup(
+  target: GrepTabTarget,
+  order: number,
+  results: GrepResult[],
+): TabGrepGroup | null {
+  if (results.length === 0) return null;
+  const ranked = [...results]
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, MAX_RESULTS_PER_TAB);
+  return { target, results: ranked, order };
+}
+
+/** Add a streamed-in group, keeping groups ordered by best match then target order */
+export function insertTabGrepGroup(groups: TabGrepGroup[], group: TabGrepGroup): TabGrepGroup[] {
+  return [...groups.filter((existing) => existing.target.tabId !== group.target.tabId), group]
+    .sort((a, b) => bestScore(b) - bestScore(a) || a.order - b.order);
+}
+
+/** Selectable rows in display order; group headers are rendered between them */
+export function flattenTabGrepGroups(groups: TabGrepGroup[]): TabGrepHit[] {
+  const hits: TabGrepHit[] = [];
+  for (const group of groups) {
+    for (const result of group.results) hits.push({ group, result });
+  }
+  return hits;
+}
+
+/** Keep the same hit selected when a new group shifts the list; else clamp */
+export function findHitIndex(hits: TabGrepHit[], previous: TabGrepHit | undefined, fallbackIndex: number): number {
+  if (hits.length === 0) return 0;
+  if (previous) {
+    const index = hits.findIndex((hit) =>
+      hit.group.target.tabId === previous.group.target.tabId && hit.result === previous.result);
+    if (index !== -1) return index;
+  }
+  return Math.max(0, Math.min(hits.length - 1, fallbackIndex));
+}
+
+export function describeTabGrepProgress(progress: TabGrepProgress): string {
+  const parts = [`${progress.done}/${progress.total} tabs`];
+  if (progress.timedOut > 0) parts.push(`${progress.timedOut} timed out`);
+  if (progress.failed > 0) parts.push(`${progress.failed} unavailable`);
+  return parts.join(" · ");
+}
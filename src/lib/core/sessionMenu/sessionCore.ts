@@ -10,7 +10,20 @@ export interface SessionTransientState {
   isLoadConfirmationActive: boolean;
   pendingLoadSummary: SessionLoadSummary | null;
   pendingLoadSessionName: string;
+  /** null loads into the current window */
+  pendingLoadWindow: SessionLoadWindowOptions | null;
   pendingDeleteSessionName: string;
+  isRevisionBrowseActive: boolean;
+  pendingRevisionSessionName: string;
+  pendingRevisions: SessionRevisionView[];
+  revisionIndex: number;
+  /** Compare picks the second session from the list after the first is chosen */
+  isComparePickActive: boolean;
+  pendingCompareLeftName: string;
+  isDiffViewActive: boolean;
+  pendingDiffRightName: string;
+  pendingDiffRows: SessionDiffRow[];
+  diffIndex: number;
   sessionListFocusTarget: SessionListFocusTarget;
 }
 
@@ -30,7 +43,18 @@ export function createSessionTransientState(): SessionTransientState {
     isLoadConfirmationActive: false,
     pendingLoadSummary: null,
     pendingLoadSessionName: "",
+    pendingLoadWindow: null,
     pendingDeleteSessionName: "",
+    isRevisionBrowseActive: false,
+    pendingRevisionSessionName: "",
+    pendingRevisions: [],
+    revisionIndex: 0,
+    isComparePickActive: false,
+    pendingCompareLeftName: "",
+    isDiffViewActive: false,
+    pendingDiffRightName: "",
+    pendingDiffRows: [],
+    diffIndex: 0,
     sessionListFocusTarget: "filter",
   };
 }
@@ -87,17 +111,44 @@ export function startSessionLoadConfirmation(
     isLoadConfirmationActive: true,
     pendingLoadSessionName: sessionName,
     pendingLoadSummary: summary,
+    pendingLoadWindow: null,
     isDeleteConfirmationActive: false,
     pendingDeleteSessionName: "",
   };
 }
 
+/** Swap in the plan recomputed for a new load target, keeping the confirmation open */
+export function updateSessionLoadSummary(
+  state: SessionTransientState,
+  summary: SessionLoadSummary,
+): SessionTransientState {
+  if (!state.isLoadConfirmationActive) return state;
+  return {
+    ...state,
+    pendingLoadSummary: summary,
+  };
+}
+
 export function stopSessionLoadConfirmation(state: SessionTransientState): SessionTransientState {
   return {
     ...state,
     isLoadConfirmationActive: false,
     pendingLoadSummary: null,
     pendingLoadSessionName: "",
+    pendingLoadWindow: null,
+  };
+}
+
+/** Cycle the load target: current window -> new window -> new window keeping its blank tab */
+export function cycleSessionLoadWindow(state: SessionTransientState): SessionTransientState {
+  const current = state.pendingLoadWindow;
+  let next: SessionLoadWindowOptions | null;
+  if (!current) next = { newWindow: true, closeBlankTab: true };
+  else if (current.closeBlankTab) next = { newWindow: true, closeBlankTab: false };
+  else next = null;
+  return {
+    ...state,
+    pendingLoadWindow: next,
   };
 }
 
@@ -111,6 +162,7 @@ export function startSessionDeleteConfirmation(
     isLoadConfirmationActive: false,
     pendingLoadSummary: null,
     pendingLoadSessionName: "",
+    pendingLoadWindow: null,
     isOverwriteConfirmationActive: false,
     isDeleteConfirmationActive: true,
     pendingDeleteSessionName: sessionName,
@@ -125,10 +177,138 @@ export function stopSessionDeleteConfirmation(state: SessionTransientState): Ses
   };
 }
 
+export function startSessionRevisionBrowse(
+  state: SessionTransientState,
+  sessionName: string,
+  revisions: SessionRevisionView[],
+): SessionTransientState {
+  return {
+    ...state,
+    isRenameModeActive: false,
+    isRevisionBrowseActive: true,
+    pendingRevisionSessionName: sessionName,
+    pendingRevisions: revisions,
+    revisionIndex: 0,
+  };
+}
+
+export function moveSessionRevisionSelection(
+  state: SessionTransientState,
+  direction: "up" | "down",
+): SessionTransientState {
+  const lastIndex = Math.max(state.pendingRevisions.length - 1, 0);
+  const step = direction === "down" ? 1 : -1;
+  return {
+    ...state,
+    revisionIndex: Math.max(0, Math.min(lastIndex, state.revisionIndex + step)),
+  };
+}
+
+export function selectSessionRevision(state: SessionTransientState, index: number): SessionTransientState {
+  if (index < 0 || index >= state.pendingRevisions.length) return state;
+  return {
+    ...state,
+    revisionIndex: index,
+  };
+}
+
+export function stopSessionRevisionBrowse(state: SessionTransientState): SessionTransientState {
+  return {
+    ...state,
+    isRevisionBrowseActive: false,
+    pendingRevisionSessionName: "",
+    pendingRevisions: [],
+    revisionIndex: 0,
+  };
+}
+
+export function startSessionComparePick(
+  state: SessionTransientState,
+  leftName: string,
+): SessionTransientState {
+  return {
+    ...state,
+    isRenameModeActive: false,
+    isComparePickActive: true,
+    pendingCompareLeftName: leftName,
+  };
+}
+
+export function stopSessionComparePick(state: SessionTransientState): SessionTransientState {
+  return {
+    ...state,
+    isComparePickActive: false,
+    pendingCompareLeftName: "",
+  };
+}
+
+/** Show the diff; the picked pair stays in pendingCompareLeftName / pendingDiffRightName */
+export function startSessionDiffView(
+  state: SessionTransientState,
+  leftName: string,
+  rightName: string,
+  rows: SessionDiffRow[],
+): SessionTransientState {
+  return {
+    ...state,
+    isComparePickActive: false,
+    pendingCompareLeftName: leftName,
+    isDiffViewActive: true,
+    pendingDiffRightName: rightName,
+    pendingDiffRows: rows,
+    diffIndex: 0,
+  };
+}
+
+/** Swap in a refreshed diff (after a copy), keeping the selection in range */
+export function updateSessionDiffRows(
+  state: SessionTransientState,
+  rows: SessionDiffRow[],
+): SessionTransientState {
+  return {
+    ...state,
+    pendingDiffRows: rows,
+    diffIndex: Math.max(0, Math.min(rows.length - 1, state.diffIndex)),
+  };
+}
+
+export function moveSessionDiffSelection(
+  state: SessionTransientState,
+  direction: "up" | "down",
+): SessionTransientState {
+  const lastIndex = Math.max(state.pendingDiffRows.length - 1, 0);
+  const step = direction === "down" ? 1 : -1;
+  return {
+    ...state,
+    diffIndex: Math.max(0, Math.min(lastIndex, state.diffIndex + step)),
+  };
+}
+
+export function selectSessionDiffRow(state: SessionTransientState, index: number): SessionTransientState {
+  if (index < 0 || index >= state.pendingDiffRows.length) return state;
+  return {
+    ...state,
+    diffIndex: index,
+  };
+}
+
+export function stopSessionDiffView(state: SessionTransientState): SessionTransientState {
+  return {
+    ...state,
+    isDiffViewActive: false,
+    pendingCompareLeftName: "",
+    pendingDiffRightName: "",
+    pendingDiffRows: [],
+    diffIndex: 0,
+  };
+}
+
 export function hasActiveSessionConfirmation(state: SessionTransientState): boolean {
   return state.isLoadConfirmationActive
     || state.isOverwriteConfirmationActive
-    || state.isDeleteConfirmationActive;
+    || state.isDeleteConfirmationActive
+    || state.isRevisionBrowseActive
+    || state.isDiffViewActive;
 }
 
 export function deriveSessionListViewModel(
@@ -2,7 +2,11 @@
 // Reflects live keybinding changes while it is open.
 
 import browser from "webextension-polyfill";
-import { keyToDisplay } from "../../../common/contracts/keybindings";
+import {
+  getTabManagerSlotCount,
+  jumpSlotAction,
+  keyToDisplay,
+} from "../../../common/contracts/keybindings";
 import { matchesAction } from "../../../common/contracts/keybindings";
 import { escapeHtml } from "../../../common/utils/helpers";
 import {
@@ -30,6 +34,11 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
   const p = config.bindings.session;
   const k = (b: KeyBinding) => keyToDisplay(b.key);
   const searchPaneHint = `${k(s.switchPane)} list / ${k(s.focusSearch)} search`;
+  const slotCount = getTabManagerSlotCount(config);
+  const jumpSlotLabel = slotCount > 1 ? `Jump to slot 1 — ${slotCount}` : "Jump to slot 1";
+  const jumpSlotKeys = slotCount > 1
+    ? `${k(g.jumpSlot1)} — ${k(g[jumpSlotAction(slotCount)])}`
+    : k(g.jumpSlot1);
 
   return [
     {
@@ -37,9 +46,12 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
       items: [
         { label: "Search Current Page", key: k(g.searchInPage) },
         { label: "Search Open Tabs", key: k(g.openFrecency) },
+        { label: "Search All Tabs", key: k(g.searchAllTabs) },
         { label: "Tab Manager", key: k(g.openTabManager) },
         { label: "Sessions", key: k(g.openSessions) },
         { label: "Save Session", key: k(g.openSessionSave) },
+        { label: "Workspaces", key: k(g.openWorkspaces) },
+        { label: "Global Marks", key: k(g.openMarks) },
         { label: "Help (this menu)", key: k(g.openHelp) },
       ],
     },
@@ -68,11 +80,19 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
       title: "Tab Manager Panel",
       items: [
         { label: "Add current tab to Tab Manager", key: k(g.addTab) },
-        { label: "Jump to slot 1 — 4", key: `${k(g.jumpSlot1)} — ${k(g.jumpSlot4)}` },
+        { label: jumpSlotLabel, key: jumpSlotKeys },
         { label: "Cycle prev / next slot", key: `${k(g.cyclePrev)} / ${k(g.cycleNext)}` },
+        { label: "Jumplist back / forward", key: `${k(g.jumpBack)} / ${k(g.jumpForward)}` },
+        { label: "Toggle previous tab (repeat to go further)", key: k(g.alternateTab) },
+        { label: "Set mark on current page", key: `${k(g.setMark)} then a-z` },
+        { label: "Jump to mark on current page", key: `${k(g.jumpToMark)} then a-z` },
+        { label: "Set / jump global mark (any URL)", key: `${k(g.setMark)} / ${k(g.jumpToMark)} then A-Z` },
+        { label: "Jump to mark on selected row", key: "' then a-z" },
         { label: "Swap mode", key: k(h.swap) },
         { label: "Del entry", key: k(h.remove) },
-        { label: "Undo remove", key: k(h.undo) },
+        { label: "Undo / redo list change", key: `${k(h.undo)} / ${k(h.redo)}` },
+        { label: "Lock / unlock entry to its URL", key: k(h.lock) },
+        { label: "Edit entry label / note", key: `${k(h.label)} / ${k(h.note)}` },
         { label: "Jump selected row", key: k(h.jump) },
         { label: "Close panel", key: k(h.close) },
       ],
@@ -84,7 +104,10 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
         { label: "Main view", key: "Load sessions list" },
         { label: "Open save session", key: k(g.openSessionSave) },
         { label: "Load selected session", key: `${k(h.jump)} (opens confirmation)` },
+        { label: "Merge into empty slots", key: `${k(p.merge)} (opens confirmation)` },
+        { label: "Load into a new window", key: `${k(p.loadTarget)} in load confirmation` },
         { label: "Save mode preview", key: "current tab-manager tabs" },
+        { label: "Save whole window (in save mode)", key: `${k(p.saveWindow)} (anchored tabs keep slots)` },
         { label: "Session list focus list", key: k(p.focusList) },
         { label: "Session search focus", key: k(p.focusSearch) },
         { label: "Session clear-search", key: k(p.clearSearch) },
@@ -92,8 +115,12 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
         { label: "Delete session (in session list)", key: `${k(h.remove)} then ${k(p.confirmYes)} / ${k(p.confirmNo)}` },
         { label: "Overwrite session (in session list)", key: `${k(p.overwrite)} then ${k(p.confirmYes)} / ${k(p.confirmNo)}` },
         { label: "Rename session (in session list)", key: k(p.rename) },
+        { label: "Session history (in session list)", key: `${k(p.history)}, then ${k(h.jump)} rolls back` },
+        { label: "Compare two sessions (in session list)", key: `${k(p.compare)} on one, then ${k(h.jump)} on the other` },
+        { label: "Diff: copy entry across", key: `${k(p.copyLeft)} into left / ${k(p.copyRight)} into right` },
         { label: "Rename cancel", key: `${k(h.close)} or ×` },
         { label: "Load plan symbols", key: "NEW (+) · DELETED (-) · REPLACED (~) · UNCHANGED (=)" },
+        { label: "Merge plan symbols", key: "FILLED (+) · DUPLICATE (=) · DROPPED (×)" },
         { label: "Confirmation dialogs", key: `${k(p.confirmYes)} confirm / ${k(p.confirmNo)} cancel` },
         { label: "Close panel", key: k(h.close) },
       ],
@@ -126,6 +153,15 @@ function buildSections(config: KeybindingsConfig): HelpSection[] {
         { label: "Combine filters (union)", key: "/code /links" },
       ],
     },
+    {
+      title: "Search Modes — type before the query",
+      items: [
+        { label: "Regex (smart case, guarded)", key: "/re" },
+        { label: "Exact substring (case-sensitive)", key: "/exact" },
+        { label: "Substring, case-sensitive if uppercase", key: "/smart" },
+        { label: "Mix with filters", key: "/re /code" },
+      ],
+    },
   ];
 }
 
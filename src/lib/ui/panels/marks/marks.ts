@@ -0,0 +1,361 @@
+// Marks overlay — lists global A-Z marks; accepting one reuses or reopens its tab
+// and restores the remembered scroll position.
+
+import { matchesAction, keyToDisplay } from "../../../common/contracts/keybindings";
+import {
+  createPanelHost,
+  removePanelHost,
+  registerPanelCleanup,
+  getBaseStyles,
+  footerRowHtml,
+  vimBadgeHtml,
+  dismissPanel,
+} from "../../../common/utils/panelHost";
+import { escapeHtml, extractDomain } from "../../../common/utils/helpers";
+import { showFeedback } from "../../../common/utils/feedback";
+import { toastMessages } from "../../../common/utils/toastMessages";
+import marksStyles from "./marks.css";
+import {
+  deleteGlobalMark,
+  jumpToGlobalMark,
+  listGlobalMarks,
+} from "../../../adapters/runtime/globalMarksApi";
+import {
+  movePanelListIndexByDirection,
+  movePanelListIndexFromWheel,
+  movePanelListIndexHalfPage,
+} from "../../../core/panel/panelListController";
+
+export async function openMarks(
+  config: KeybindingsConfig,
+): Promise<void> {
+  try {
+    const { host, shadow } = createPanelHost();
+    let panelOpen = true;
+
+    const upKey = keyToDisplay(config.bindings.search.moveUp.key);
+    const downKey = keyToDisplay(config.bindings.search.moveDown.key);
+    const switchPaneKey = keyToDisplay(config.bindings.search.switchPane.key);
+    const focusSearchKey = keyToDisplay(config.bindings.search.focusSearch.key);
+    const acceptKey = keyToDisplay(config.bindings.search.accept.key);
+    const removeKey = keyToDisplay(config.bindings.tabManager.remove.key);
+    const closeKey = keyToDisplay(config.bindings.search.close.key);
+    function renderFooter(): void {
+      const navHints = config.navigationMode === "standard"
+        ? [
+          { key: "j/k", desc: "nav" },
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+        ]
+        : [
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+        ];
+      footer.innerHTML = `${footerRowHtml(navHints)}
+      ${footerRowHtml([
+        { key: switchPaneKey, desc: "list" },
+        { key: focusSearchKey, desc: "search" },
+        { key: removeKey, desc: "del (list)" },
+        { key: acceptKey, desc: "jump" },
+        { key: closeKey, desc: "close" },
+      ])}`;
+    }
+
+    function onNavigationModeChanged(): void {
+      renderFooter();
+    }
+
+    const style = document.createElement("style");
+    style.textContent = getBaseStyles() + marksStyles;
+    shadow.appendChild(style);
+
+    const backdrop = document.createElement("div");
+    backdrop.className = "ht-backdrop";
+    shadow.appendChild(backdrop);
+
+    const panel = document.createElement("div");
+    panel.className = "ht-marks-container";
+    shadow.appendChild(panel);
+
+    const titlebar = document.createElement("div");
+    titlebar.className = "ht-titlebar";
+    titlebar.innerHTML = `
+      <div class="ht-traffic-lights">
+        <button class="ht-dot ht-dot-close" title="Close (${escapeHtml(closeKey)})"></button>
+      </div>
+      <span class="ht-titlebar-text">Global Marks</span>
+      ${vimBadgeHtml(config)}`;
+    panel.appendChild(titlebar);
+
+    const inputWrap = document.createElement("div");
+    inputWrap.className = "ht-marks-input-wrap ht-ui-input-wrap";
+    inputWrap.innerHTML = `<span class="ht-marks-prompt ht-ui-input-prompt">&gt;</span>`;
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "ht-marks-input ht-ui-input-field";
+    input.placeholder = "Filter marks . . .";
+    inputWrap.appendChild(input);
+    panel.appendChild(inputWrap);
+
+    const listEl = document.createElement("div");
+    listEl.className = "ht-marks-list";
+    panel.appendChild(listEl);
+
+    const footer = document.createElement("div");
+    footer.className = "ht-footer";
+    renderFooter();
+    panel.appendChild(footer);
+
+    let allMarks: GlobalMark[] = [];
+    let filtered: GlobalMark[] = [];
+    let activeIndex = 0;
+    let activeItemEl: HTMLElement | null = null;
+
+    function close(): void {
+      panelOpen = false;
+      document.removeEventListener("keydown", keyHandler, true);
+      window.removeEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+      removePanelHost();
+    }
+
+    function applyFilter(): void {
+      const lower = input.value.trim().toLowerCase();
+      filtered = lower
+        ? allMarks.filter((mark) =>
+          mark.name.toLowerCase() === lower
+          || mark.title.toLowerCase().includes(lower)
+          || mark.url.toLowerCase().includes(lower))
+        : [...allMarks];
+      activeIndex = Math.min(activeIndex, Math.max(0, filtered.length - 1));
+    }
+
+    function renderList(): void {
+      listEl.textContent = "";
+      if (filtered.length === 0) {
+        listEl.innerHTML = `<div class="ht-marks-empty">${
+          allMarks.length === 0
+            ? `No global marks — ${escapeHtml(keyToDisplay(config.bindings.global.setMark.key))} then A-Z`
+            : "No matching marks"
+        }</div>`;
+        activeItemEl = null;
+        return;
+      }
+
+      const frag = document.createDocumentFragment();
+      for (let i = 0; i < filtered.length; i++) {
+        const mark = filtered[i];
+        const item = document.createElement("div");
+        item.className = i === activeIndex ? "ht-marks-item active" : "ht-marks-item";
+        item.dataset.index = String(i);
+        item.tabIndex = -1;
+
+        const name = document.createElement("span");
+        name.className = "ht-marks-name";
+        name.textContent = mark.name;
+
+        const info = document.createElement("div");
+        info.className = "ht-marks-info";
+
+        const title = document.createElement("div");
+        title.className = "ht-marks-title";
+        title.textContent = mark.title || "Untitled";
+
+        const url = document.createElement("div");
+        url.className = "ht-marks-url";
+        url.textContent = extractDomain(mark.url);
+
+        info.appendChild(title);
+        info.appendChild(url);
+        item.appendChild(name);
+        item.appendChild(info);
+        frag.appendChild(item);
+      }
+      listEl.appendChild(frag);
+      activeItemEl = listEl.children[activeIndex] as HTMLElement | null;
+      if (activeItemEl) activeItemEl.scrollIntoView({ block: "nearest" });
+    }
+
+    function updateActiveHighlight(newIndex: number): void {
+      if (newIndex === activeIndex && activeItemEl) return;
+      if (activeItemEl) activeItemEl.classList.remove("active");
+      activeIndex = newIndex;
+      activeItemEl = (listEl.children[activeIndex] as HTMLElement) || null;
+      if (activeItemEl) {
+        activeItemEl.classList.add("active");
+        activeItemEl.scrollIntoView({ block: "nearest" });
+      }
+    }
+
+    async function jumpToMark(mark: GlobalMark | undefined): Promise<void> {
+      if (!mark) return;
+      close();
+      try {
+        const result = await jumpToGlobalMark(mark.name);
+        if (!result.ok) showFeedback(result.reason || toastMessages.markActionFailed);
+      } catch (error) {
+        console.error("[Harpoon Telescope] Jump to global mark failed:", error);
+        showFeedback(toastMessages.markActionFailed);
+      }
+    }
+
+    async function deleteMark(mark: GlobalMark | undefined): Promise<void> {
+      if (!mark) return;
+      try {
+        await deleteGlobalMark(mark.name);
+        showFeedback(toastMessages.globalMarkDelete(mark.name));
+        allMarks = await listGlobalMarks();
+        if (!panelOpen) return;
+        applyFilter();
+        renderList();
+        if (activeItemEl) activeItemEl.focus();
+      } catch (error) {
+        console.error("[Harpoon Telescope] Delete global mark failed:", error);
+        showFeedback(toastMessages.markActionFailed);
+      }
+    }
+
+    function getHalfPageStep(): number {
+      const first = listEl.querySelector(".ht-marks-item") as HTMLElement | null;
+      const itemHeight = Math.max(1, (first?.offsetHeight ?? activeItemEl?.offsetHeight ?? 36));
+      const viewportRows = Math.max(1, Math.floor(listEl.clientHeight / itemHeight));
+      return Math.max(1, Math.floor(viewportRows / 2));
+    }
+
+    function keyHandler(event: KeyboardEvent): void {
+      if (!panelOpen || !document.getElementById("ht-panel-host")) {
+        document.removeEventListener("keydown", keyHandler, true);
+        return;
+      }
+
+      const inputFocused = host.shadowRoot?.activeElement === input;
+      const standardNav = config.navigationMode === "standard";
+
+      if (matchesAction(event, config, "search", "close")) {
+        event.preventDefault();
+        event.stopPropagation();
+        close();
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "switchPane")) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (filtered.length === 0) return;
+        if (inputFocused) {
+          if (activeItemEl) activeItemEl.focus();
+          listEl.classList.add("focused");
+        }
+        return;
+      }
+
+      if (
+        standardNav
+        && !inputFocused
+        && event.ctrlKey
+        && !event.altKey
+        && !event.metaKey
+      ) {
+        const lowerKey = event.key.toLowerCase();
+        if (lowerKey === "d" || lowerKey === "u") {
+          event.preventDefault();
+          event.stopPropagation();
+          if (filtered.length > 0) {
+            updateActiveHighlight(movePanelListIndexHalfPage(
+              filtered.length,
+              activeIndex,
+              getHalfPageStep(),
+              lowerKey === "d" ? "down" : "up",
+            ));
+            if (activeItemEl) activeItemEl.focus();
+          }
+          return;
+        }
+      }
+
+      if (matchesAction(event, config, "search", "focusSearch") && !inputFocused) {
+        event.preventDefault();
+        event.stopPropagation();
+        input.focus();
+        listEl.classList.remove("focused");
+        return;
+      }
+
+      if (matchesAction(event, config, "tabManager", "remove") && !inputFocused) {
+        event.preventDefault();
+        event.stopPropagation();
+        void deleteMark(filtered[activeIndex]);
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "accept")) {
+        event.preventDefault();
+        event.stopPropagation();
+        void jumpToMark(filtered[activeIndex]);
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveDown")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (filtered.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(filtered.length, activeIndex, "down"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveUp")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (filtered.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(filtered.length, activeIndex, "up"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      // Prevent host-page shortcuts from firing while the panel owns focus.
+      event.stopPropagation();
+    }
+
+    backdrop.addEventListener("click", close);
+    backdrop.addEventListener("mousedown", (event) => event.preventDefault());
+    titlebar.querySelector(".ht-dot-close")!.addEventListener("click", close);
+    listEl.addEventListener("click", (event) => {
+      const item = (event.target as HTMLElement).closest(".ht-marks-item") as HTMLElement;
+      if (!item) return;
+      void jumpToMark(filtered[parseInt(item.dataset.index!)]);
+    });
+
+    listEl.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (filtered.length === 0) return;
+      updateActiveHighlight(movePanelListIndexFromWheel(filtered.length, activeIndex, event.deltaY));
+    });
+
+    input.addEventListener("focus", () => { listEl.classList.remove("focused"); });
+    listEl.addEventListener("focus", () => { listEl.classList.add("focused"); }, true);
+
+    input.addEventListener("input", () => {
+      activeIndex = 0;
+      applyFilter();
+      renderList();
+    });
+
+    window.addEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+
+    allMarks = await listGlobalMarks();
+    filtered = [...allMarks];
+
+    document.addEventListener("keydown", keyHandler, true);
+    registerPanelCleanup(close);
+    renderList();
+    input.focus();
+  } catch (err) {
+    console.error("[Harpoon Telescope] Failed to open marks:", err);
+    dismissPanel();
+  }
+}
@@ -0,0 +1,468 @@
+// Search All Tabs overlay — live grep across every open tab.
+// The query (with the same /filters and /re, /exact, /smart modes as Search Current Page)
+// is sent to each eligible tab through the background, a few tabs at a time with a
+// per-tab timeout. Answers stream into one list grouped by tab, ranked by each tab's
+// best match. Accepting a result switches to its tab and scrolls to the matched text.
+
+import { matchesAction, keyToDisplay } from "../../../common/contracts/keybindings";
+import {
+  createPanelHost,
+  removePanelHost,
+  registerPanelCleanup,
+  getBaseStyles,
+  footerRowHtml,
+  vimBadgeHtml,
+  dismissPanel,
+} from "../../../common/utils/panelHost";
+import { escapeHtml, extractDomain } from "../../../common/utils/helpers";
+import { showFeedback } from "../../../common/utils/feedback";
+import { toastMessages } from "../../../common/utils/toastMessages";
+import {
+  grepTab,
+  jumpToTabGrepMatch,
+  listGrepTabTargets,
+} from "../../../adapters/runtime/pageSearchApi";
+import {
+  createTabGrepGroup,
+  describeTabGrepProgress,
+  findHitIndex,
+  flattenTabGrepGroups,
+  grepAllTabs,
+  insertTabGrepGroup,
+  TabGrepGroup,
+  TabGrepHit,
+  TabGrepProgress,
+} from "../../../core/searchAllTabs/searchAllTabsCore";
+import {
+  movePanelListIndexByDirection,
+  movePanelListIndexFromWheel,
+  movePanelListIndexHalfPage,
+} from "../../../core/panel/panelListController";
+import {
+  buildHighlightRegex,
+  getTagBadgeColors,
+  highlightText,
+  parseSearchInput,
+} from "../searchCurrentPage/searchCurrentPageView";
+import searchAllTabsStyles from "./searchAllTabs.css";
+
+const MIN_QUERY_LENGTH = 2;
+const INPUT_DEBOUNCE_MS = 250;
+
+export async function openSearchAllTabs(
+  config: KeybindingsConfig,
+): Promise<void> {
+  try {
+    const { host, shadow } = createPanelHost();
+    let panelOpen = true;
+
+    const upKey = keyToDisplay(config.bindings.search.moveUp.key);
+    const downKey = keyToDisplay(config.bindings.search.moveDown.key);
+    const switchPaneKey = keyToDisplay(config.bindings.search.switchPane.key);
+    const focusSearchKey = keyToDisplay(config.bindings.search.focusSearch.key);
+    const clearSearchKey = keyToDisplay(config.bindings.search.clearSearch.key);
+    const acceptKey = keyToDisplay(config.bindings.search.accept.key);
+    const closeKey = keyToDisplay(config.bindings.search.close.key);
+    function renderFooter(): void {
+      const navHints = config.navigationMode === "standard"
+        ? [
+          { key: "j/k", desc: "nav" },
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+          { key: "Ctrl+D/U", desc: "half-page" },
+        ]
+        : [
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+        ];
+      footer.innerHTML = `${footerRowHtml(navHints)}
+      ${footerRowHtml([
+        { key: switchPaneKey, desc: "list" },
+        { key: focusSearchKey, desc: "search" },
+        { key: clearSearchKey, desc: "clear-search" },
+        { key: acceptKey, desc: "jump" },
+        { key: closeKey, desc: "close" },
+      ])}`;
+    }
+
+    function onNavigationModeChanged(): void {
+      renderFooter();
+    }
+
+    const style = document.createElement("style");
+    style.textContent = getBaseStyles() + searchAllTabsStyles;
+    shadow.appendChild(style);
+
+    const backdrop = document.createElement("div");
+    backdrop.className = "ht-backdrop";
+    shadow.appendChild(backdrop);
+
+    const panel = document.createElement("div");
+    panel.className = "ht-all-tabs-container";
+    shadow.appendChild(panel);
+
+    const titlebar = document.createElement("div");
+    titlebar.className = "ht-titlebar";
+    titlebar.innerHTML = `
+      <div class="ht-traffic-lights">
+        <button class="ht-dot ht-dot-close" title="Close (${escapeHtml(closeKey)})"></button>
+      </div>
+      <span class="ht-titlebar-text">
+        <span class="ht-title-label">Search — All Tabs</span>
+        <span class="ht-all-tabs-status"></span>
+      </span>
+      ${vimBadgeHtml(config)}`;
+    panel.appendChild(titlebar);
+    const statusEl = titlebar.querySelector(".ht-all-tabs-status") as HTMLElement;
+
+    const inputWrap = document.createElement("div");
+    inputWrap.className = "ht-all-tabs-input-wrap ht-ui-input-wrap";
+    inputWrap.innerHTML = `<span class="ht-all-tabs-prompt ht-ui-input-prompt">&gt;</span>`;
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "ht-all-tabs-input ht-ui-input-field";
+    input.placeholder = "Search all tabs . . . (/code /re /exact /smart)";
+    inputWrap.appendChild(input);
+    panel.appendChild(inputWrap);
+
+    const listEl = document.createElement("div");
+    listEl.className = "ht-all-tabs-list";
+    panel.appendChild(listEl);
+
+    const footer = document.createElement("div");
+    footer.className = "ht-footer";
+    renderFooter();
+    panel.appendChild(footer);
+
+    let groups: TabGrepGroup[] = [];
+    let hits: TabGrepHit[] = [];
+    let activeIndex = 0;
+    let activeItemEl: HTMLElement | null = null;
+    let highlightRegex: RegExp | null = null;
+    let progress: TabGrepProgress | null = null;
+    let queryError = "";
+    // Bumped per search so answers from a superseded query are dropped.
+    let searchGeneration = 0;
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    let renderRafId: number | null = null;
+
+    function close(): void {
+      panelOpen = false;
+      searchGeneration++;
+      document.removeEventListener("keydown", keyHandler, true);
+      window.removeEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+      if (debounceTimer) clearTimeout(debounceTimer);
+      if (renderRafId !== null) cancelAnimationFrame(renderRafId);
+      debounceTimer = null;
+      renderRafId = null;
+      removePanelHost();
+    }
+
+    function renderStatus(): void {
+      statusEl.textContent = progress ? describeTabGrepProgress(progress) : "";
+    }
+
+    function emptyText(): string {
+      if (queryError) return `Invalid pattern: ${queryError}`;
+      if (input.value.trim().length < MIN_QUERY_LENGTH) return "Type to search every open tab...";
+      if (progress && progress.total === 0) return "No searchable tabs";
+      if (progress && progress.done < progress.total) return "Searching...";
+      return "No matches found";
+    }
+
+    function renderList(): void {
+      listEl.textContent = "";
+      activeItemEl = null;
+      if (hits.length === 0) {
+        const empty = document.createElement("div");
+        empty.className = queryError ? "ht-all-tabs-empty ht-query-error" : "ht-all-tabs-empty";
+        empty.textContent = emptyText();
+        listEl.appendChild(empty);
+        return;
+      }
+
+      const frag = document.createDocumentFragment();
+      let currentGroup: TabGrepGroup | null = null;
+      for (let i = 0; i < hits.length; i++) {
+        const { group, result } = hits[i];
+        if (group !== currentGroup) {
+          currentGroup = group;
+          const header = document.createElement("div");
+          header.className = "ht-all-tabs-group";
+          const title = document.createElement("span");
+          title.className = "ht-all-tabs-group-title";
+          title.textContent = group.target.title || extractDomain(group.target.url);
+          const meta = document.createElement("span");
+          meta.className = "ht-all-tabs-group-meta";
+          const count = `${group.results.length} match${group.results.length === 1 ? "" : "es"}`;
+          meta.textContent = `${group.target.isCurrent ? "this tab · " : ""}${extractDomain(group.target.url)} · ${count}`;
+          header.appendChild(title);
+          header.appendChild(meta);
+          frag.appendChild(header);
+        }
+
+        const item = document.createElement("div");
+        item.className = i === activeIndex ? "ht-all-tabs-item active" : "ht-all-tabs-item";
+        item.dataset.index = String(i);
+        item.tabIndex = -1;
+        if (result.tag) {
+          const badge = document.createElement("span");
+          const colors = getTagBadgeColors(result.tag);
+          badge.className = "ht-all-tabs-tag";
+          badge.style.background = colors.bg;
+          badge.style.color = colors.fg;
+          badge.textContent = result.tag;
+          item.appendChild(badge);
+        }
+        const text = document.createElement("span");
+        text.className = "ht-all-tabs-text";
+        text.innerHTML = highlightText(result.text, highlightRegex);
+        item.appendChild(text);
+        if (result.frame) {
+          const frameLabel = document.createElement("span");
+          frameLabel.className = "ht-all-tabs-frame";
+          frameLabel.textContent = result.frame;
+          item.appendChild(frameLabel);
+        }
+        if (i === activeIndex) activeItemEl = item;
+        frag.appendChild(item);
+      }
+      listEl.appendChild(frag);
+    }
+
+    // Tabs answer in bursts; coalesce them into one render per frame.
+    function scheduleRender(): void {
+      if (renderRafId !== null) return;
+      renderRafId = requestAnimationFrame(() => {
+        renderRafId = null;
+        if (!panelOpen) return;
+        renderStatus();
+        renderList();
+      });
+    }
+
+    function updateActiveHighlight(newIndex: number): void {
+      if (newIndex === activeIndex && activeItemEl) return;
+      if (activeItemEl) activeItemEl.classList.remove("active");
+      activeIndex = newIndex;
+      activeItemEl = listEl.querySelector(`.ht-all-tabs-item[data-index="${activeIndex}"]`);
+      if (activeItemEl) {
+        activeItemEl.classList.add("active");
+        activeItemEl.scrollIntoView({ block: "nearest" });
+      }
+    }
+
+    function resetResults(): void {
+      searchGeneration++;
+      groups = [];
+      hits = [];
+      activeIndex = 0;
+      progress = null;
+      queryError = "";
+    }
+
+    async function runSearch(rawValue: string): Promise<void> {
+      resetResults();
+      const generation = searchGeneration;
+      const { filters, mode, query } = parseSearchInput(rawValue);
+      if (query.length < MIN_QUERY_LENGTH) {
+        scheduleRender();
+        return;
+      }
+      highlightRegex = buildHighlightRegex(query, mode);
+
+      const outcome = await grepAllTabs(query, mode, {
+        listTargets: listGrepTabTargets,
+        grep: (target) => grepTab(target.tabId, query, filters, mode),
+        isCancelled: () => !panelOpen || generation !== searchGeneration,
+        onTargets: (targets) => {
+          progress = { done: 0, total: targets.length, timedOut: 0, failed: 0 };
+          scheduleRender();
+        },
+        onAnswer: (target, order, response) => {
+          if (!progress) return;
+          progress.done++;
+          if (response.timedOut) progress.timedOut++;
+          else if (!response.ok) progress.failed++;
+          const group = response.ok ? createTabGrepGroup(target, order, response.results || []) : null;
+          if (group) {
+            const previous = hits[activeIndex];
+            groups = insertTabGrepGroup(groups, group);
+            hits = flattenTabGrepGroups(groups);
+            activeIndex = findHitIndex(hits, previous, activeIndex);
+          }
+          scheduleRender();
+        },
+      });
+      // A bad regex is caught once here, before any tab runs it.
+      if (!outcome.ok && panelOpen && generation === searchGeneration) {
+        queryError = outcome.reason;
+        scheduleRender();
+      }
+    }
+
+    function scheduleSearch(): void {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        if (!panelOpen) return;
+        runSearch(input.value).catch((error) => {
+          console.error("[Harpoon Telescope] Search all tabs failed:", error);
+          showFeedback(toastMessages.searchAllTabsFailed);
+        });
+      }, INPUT_DEBOUNCE_MS);
+    }
+
+    async function jumpToHit(hit: TabGrepHit | undefined): Promise<void> {
+      if (!hit) return;
+      close();
+      try {
+        const result = await jumpToTabGrepMatch(hit.group.target.tabId, hit.result.text, hit.result.frame);
+        if (!result.ok) showFeedback(result.reason || toastMessages.tabGrepJumpFailed);
+      } catch (error) {
+        console.error("[Harpoon Telescope] Jump to tab match failed:", error);
+        showFeedback(toastMessages.tabGrepJumpFailed);
+      }
+    }
+
+    function getHalfPageStep(): number {
+      const itemHeight = Math.max(1, activeItemEl?.offsetHeight ?? 28);
+      const viewportRows = Math.max(1, Math.floor(listEl.clientHeight / itemHeight));
+      return Math.max(1, Math.floor(viewportRows / 2));
+    }
+
+    function keyHandler(event: KeyboardEvent): void {
+      if (!panelOpen || !document.getElementById("ht-panel-host")) {
+        document.removeEventListener("keydown", keyHandler, true);
+        return;
+      }
+
+      const inputFocused = host.shadowRoot?.activeElement === input;
+      const standardNav = config.navigationMode === "standard";
+
+      if (matchesAction(event, config, "search", "close")) {
+        event.preventDefault();
+        event.stopPropagation();
+        close();
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "clearSearch")) {
+        event.preventDefault();
+        event.stopPropagation();
+        input.value = "";
+        if (debounceTimer) clearTimeout(debounceTimer);
+        debounceTimer = null;
+        resetResults();
+        scheduleRender();
+        input.focus();
+        listEl.classList.remove("focused");
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "switchPane")) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (hits.length === 0) return;
+        if (inputFocused) {
+          if (activeItemEl) activeItemEl.focus();
+          listEl.classList.add("focused");
+        }
+        return;
+      }
+
+      if (
+        standardNav
+        && !inputFocused
+        && event.ctrlKey
+        && !event.altKey
+        && !event.metaKey
+      ) {
+        const lowerKey = event.key.toLowerCase();
+        if (lowerKey === "d" || lowerKey === "u") {
+          event.preventDefault();
+          event.stopPropagation();
+          if (hits.length > 0) {
+            updateActiveHighlight(movePanelListIndexHalfPage(
+              hits.length,
+              activeIndex,
+              getHalfPageStep(),
+              lowerKey === "d" ? "down" : "up",
+            ));
+            if (activeItemEl) activeItemEl.focus();
+          }
+          return;
+        }
+      }
+
+      if (matchesAction(event, config, "search", "focusSearch") && !inputFocused) {
+        event.preventDefault();
+        event.stopPropagation();
+        input.focus();
+        listEl.classList.remove("focused");
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "accept")) {
+        event.preventDefault();
+        event.stopPropagation();
+        void jumpToHit(hits[activeIndex]);
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveDown")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (hits.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(hits.length, activeIndex, "down"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveUp")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (hits.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(hits.length, activeIndex, "up"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      // Prevent host-page shortcuts from firing while the panel owns focus.
+      event.stopPropagation();
+    }
+
+    backdrop.addEventListener("click", close);
+    backdrop.addEventListener("mousedown", (event) => event.preventDefault());
+    titlebar.querySelector(".ht-dot-close")!.addEventListener("click", close);
+    listEl.addEventListener("click", (event) => {
+      const item = (event.target as HTMLElement).closest(".ht-all-tabs-item") as HTMLElement | null;
+      if (!item) return;
+      void jumpToHit(hits[parseInt(item.dataset.index!)]);
+    });
+
+    listEl.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (hits.length === 0) return;
+      updateActiveHighlight(movePanelListIndexFromWheel(hits.length, activeIndex, event.deltaY));
+    });
+
+    input.addEventListener("focus", () => { listEl.classList.remove("focused"); });
+    listEl.addEventListener("focus", () => { listEl.classList.add("focused"); }, true);
+    input.addEventListener("input", scheduleSearch);
+
+    window.addEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+    document.addEventListener("keydown", keyHandler, true);
+    registerPanelCleanup(close);
+    renderList();
+    input.focus();
+  } catch (err) {
+    console.error("[Harpoon Telescope] Failed to open search all tabs:", err);
+    dismissPanel();
+  }
+}
@@ -1,38 +1,73 @@
 // Page grep and content extraction.
-// Uses a character-by-character fuzzy scoring algorithm (no regex backtracking).
+// Fuzzy mode (default) uses a character-by-character scoring algorithm (no regex backtracking);
+// exact, smart-case and regex modes are compiled in grep/grepQuery.
 // Supports combinable structural filters (code, headings, links) via SearchFilter[].
 // Code blocks (<pre>) are split into individual lines. Each result is tagged
-// with its source element type for badge display.
+// with its source element type for badge display, and with its iframe label when
+// it comes from a same-origin frame (open shadow roots are searched in place).
 // Lines are cached and invalidated via MutationObserver for near-instant re-search.
 
-import { initLineCache, destroyLineCache } from "./grep/grepCache";
+import { initLineCache, destroyLineCache, invalidateUnobservedCache } from "./grep/grepCache";
 import { collectLines, getVisibleText } from "./grep/grepCollectors";
 import { CONTEXT_LINES, findAncestorHeading, findHref, getDomContext } from "./grep/grepDom";
-import { fuzzyMatch } from "./grep/grepScoring";
+import { compileGrepQuery } from "./grep/grepQuery";
+import { TaggedLine } from "./grep/grepTypes";
 
 const MAX_RESULTS = 200;
 
-export { initLineCache, destroyLineCache };
+export interface GrepPageOutcome {
+  results: GrepResult[];
+  // Set when the query cannot run in its mode (e.g. an invalid regex).
+  error?: string;
+  // Set when the scan hit the mode's time budget before reaching the last line.
+  truncated?: boolean;
+}
+
+export { initLineCache, destroyLineCache, invalidateUnobservedCache };
 
 export function getPageContent(): PageContent {
   const lines = getVisibleText();
   return { text: lines.join("\n"), lines };
 }
 
-/** Search page content with fuzzy scoring and combinable filters.
+/** Search page content with the given query mode and combinable filters.
  *  Returns results sorted by match quality (best first) with context. */
-export function grepPage(query: string, filters: SearchFilter[] = []): GrepResult[] {
-  if (!query || query.length === 0) return [];
+export function grepPage(
+  query: string,
+  filters: SearchFilter[] = [],
+  mode: SearchQueryMode = "fuzzy",
+): GrepResult[] {
+  return grepPageWithStatus(query, filters, mode).results;
+}
+
+/** grepPage plus the compile error or time-budget cutoff, for the page-search panel */
+export function grepPageWithStatus(
+  query: string,
+  filters: SearchFilter[] = [],
+  mode: SearchQueryMode = "fuzzy",
+): GrepPageOutcome {
+  if (!query || query.length === 0) return { results: [] };
+
+  const normalizedQuery = query.replace(/\s+/g, " ").trim();
+  if (!normalizedQuery) return { results: [] };
 
-  const lowerQuery = query.toLowerCase().replace(/\s+/g, " ").trim();
-  if (!lowerQuery) return [];
+  const compiled = compileGrepQuery(normalizedQuery, mode);
+  if (!compiled.ok) return { results: [], error: compiled.reason };
 
   const allLines = collectLines(filters);
-  const scored: { idx: number; score: number; line: { text: string; tag: string; nodeRef?: WeakRef<Node>; href?: string } }[] = [];
+  const scored: { idx: number; score: number; line: TaggedLine }[] = [];
+  const deadline = compiled.timeBudgetMs !== undefined
+    ? performance.now() + compiled.timeBudgetMs
+    : Infinity;
+  let truncated = false;
 
   for (let i = 0; i < allLines.length; i++) {
+    if (deadline !== Infinity && performance.now() > deadline) {
+      truncated = true;
+      break;
+    }
     const line = allLines[i];
-    const score = fuzzyMatch(lowerQuery, line.lower);
+    const score = compiled.match(line);
     if (score === null) continue;
 
     scored.push({ idx: i, score, line });
@@ -59,10 +94,11 @@ export function grepPage(query: string, filters: SearchFilter[] = []): GrepResul
       context,
       nodeRef: line.nodeRef,
       href: line.href,
+      ...(line.frame ? { frame: line.frame } : {}),
     });
   }
 
-  return results;
+  return truncated ? { results, truncated } : { results };
 }
 
 /** Lazily compute DOM-aware context for a single result (called on preview).
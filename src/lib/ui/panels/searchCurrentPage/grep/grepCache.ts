@@ -1,11 +1,19 @@
+import { collectSearchRoots, SearchRoot } from "../../../../common/utils/searchRoots";
 import { LineCache } from "./grepTypes";
 
+const OBSERVE_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  characterData: true,
+};
+
 const cache: LineCache = {
   all: null,
   code: null,
   headings: null,
   links: null,
   images: null,
+  roots: null,
   observer: null,
   invalidateTimer: null,
 };
@@ -20,6 +28,26 @@ export function invalidateCache(): void {
   cache.headings = null;
   cache.links = null;
   cache.images = null;
+  cache.roots = null;
+}
+
+/** Drop cached lines unless the page-search panel's observer is keeping them current.
+ *  Background GREP requests (multi-tab search) arrive with no observer running. */
+export function invalidateUnobservedCache(): void {
+  if (!cache.observer) invalidateCache();
+}
+
+/** Top body, open shadow roots and same-origin iframe bodies, cached with the lines */
+export function getSearchRoots(): SearchRoot[] {
+  if (cache.roots) return cache.roots;
+  cache.roots = collectSearchRoots();
+  // The body observer doesn't see inside shadow roots or iframe documents.
+  if (cache.observer) {
+    for (const root of cache.roots) {
+      if (root.node !== document.body) cache.observer.observe(root.node, OBSERVE_OPTIONS);
+    }
+  }
+  return cache.roots;
 }
 
 export function initLineCache(): void {
@@ -29,11 +57,7 @@ export function initLineCache(): void {
     if (cache.invalidateTimer) clearTimeout(cache.invalidateTimer);
     cache.invalidateTimer = setTimeout(invalidateCache, 500);
   });
-  cache.observer.observe(document.body, {
-    childList: true,
-    subtree: true,
-    characterData: true,
-  });
+  cache.observer.observe(document.body, OBSERVE_OPTIONS);
 }
 
 export function destroyLineCache(): void {
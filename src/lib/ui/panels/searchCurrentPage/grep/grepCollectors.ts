@@ -1,19 +1,39 @@
-import { getLineCache } from "./grepCache";
+// Line collectors run once per search root (top body, open shadow roots, same-origin
+// iframe bodies) so text inside web components and embedded frames is searchable.
+// Lines from iframes carry the frame label for display and scroll targeting.
+
+import { collectSearchRoots, getRootDocument, SearchRoot } from "../../../../common/utils/searchRoots";
+import { getLineCache, getSearchRoots } from "./grepCache";
 import { isVisible, resolveTag } from "./grepDom";
 import { TaggedLine } from "./grepTypes";
 
+function taggedLine(root: SearchRoot, text: string, tag: string, node: Node, href?: string): TaggedLine {
+  const line: TaggedLine = { text, lower: text.toLowerCase(), tag, nodeRef: new WeakRef(node) };
+  if (href) line.href = href;
+  if (root.frame) line.frame = root.frame;
+  return line;
+}
+
+/** Matching elements from every search root, in root order */
+function queryAllRoots(selector: string): Array<{ root: SearchRoot; el: Element }> {
+  const found: Array<{ root: SearchRoot; el: Element }> = [];
+  for (const root of getSearchRoots()) {
+    for (const el of root.node.querySelectorAll(selector)) found.push({ root, el });
+  }
+  return found;
+}
+
 function collectHeadings(): TaggedLine[] {
   const cache = getLineCache();
   if (cache.headings) return cache.headings;
 
   const lines: TaggedLine[] = [];
-  const headings = document.querySelectorAll("h1, h2, h3, h4, h5, h6");
-  for (const heading of headings) {
+  for (const { root, el: heading } of queryAllRoots("h1, h2, h3, h4, h5, h6")) {
     const el = heading as HTMLElement;
     if (!isVisible(el)) continue;
     const text = (el.textContent || "").replace(/\s+/g, " ").trim();
     if (!text) continue;
-    lines.push({ text, lower: text.toLowerCase(), tag: el.tagName, nodeRef: new WeakRef(el) });
+    lines.push(taggedLine(root, text, el.tagName, el));
   }
 
   cache.headings = lines;
@@ -25,8 +45,7 @@ function collectCode(): TaggedLine[] {
   if (cache.code) return cache.code;
 
   const lines: TaggedLine[] = [];
-  const codeElements = document.querySelectorAll("pre, code");
-  for (const codeElement of codeElements) {
+  for (const { root, el: codeElement } of queryAllRoots("pre, code")) {
     const el = codeElement as HTMLElement;
     if (!isVisible(el)) continue;
     if (el.tagName === "CODE" && el.parentElement?.tagName === "PRE") continue;
@@ -36,14 +55,14 @@ function collectCode(): TaggedLine[] {
       for (const line of raw.split("\n")) {
         const trimmed = line.replace(/\s+/g, " ").trim();
         if (!trimmed) continue;
-        lines.push({ text: trimmed, lower: trimmed.toLowerCase(), tag: "PRE", nodeRef: new WeakRef(el) });
+        lines.push(taggedLine(root, trimmed, "PRE", el));
       }
       continue;
     }
 
     const text = (el.textContent || "").replace(/\s+/g, " ").trim();
     if (!text) continue;
-    lines.push({ text, lower: text.toLowerCase(), tag: "CODE", nodeRef: new WeakRef(el) });
+    lines.push(taggedLine(root, text, "CODE", el));
   }
 
   cache.code = lines;
@@ -55,19 +74,12 @@ function collectLinks(): TaggedLine[] {
   if (cache.links) return cache.links;
 
   const lines: TaggedLine[] = [];
-  const links = document.querySelectorAll("a[href]");
-  for (const link of links) {
+  for (const { root, el: link } of queryAllRoots("a[href]")) {
     const el = link as HTMLElement;
     if (!isVisible(el)) continue;
     const text = (el.textContent || "").replace(/\s+/g, " ").trim();
     if (!text) continue;
-    lines.push({
-      text,
-      lower: text.toLowerCase(),
-      tag: "A",
-      nodeRef: new WeakRef(el),
-      href: (el as HTMLAnchorElement).href || undefined,
-    });
+    lines.push(taggedLine(root, text, "A", el, (el as HTMLAnchorElement).href || undefined));
   }
 
   cache.links = lines;
@@ -79,42 +91,35 @@ function collectImages(): TaggedLine[] {
   if (cache.images) return cache.images;
 
   const lines: TaggedLine[] = [];
-  const images = document.querySelectorAll("img");
-  for (const image of images) {
+  for (const { root, el: image } of queryAllRoots("img")) {
     const el = image as HTMLImageElement;
     if (!isVisible(el)) continue;
     const text = el.alt?.trim()
       || el.title?.trim()
       || (el.src ? el.src.split("/").pop()?.split("?")[0] || "" : "").trim();
     if (!text) continue;
-    lines.push({ text, lower: text.toLowerCase(), tag: "IMG", nodeRef: new WeakRef(el) });
+    lines.push(taggedLine(root, text, "IMG", el));
   }
 
   cache.images = lines;
   return lines;
 }
 
-function collectAll(): TaggedLine[] {
-  const cache = getLineCache();
-  if (cache.all) return cache.all;
-
-  const lines: TaggedLine[] = [];
-
-  const preElements = document.querySelectorAll("pre");
+function collectRootText(root: SearchRoot, lines: TaggedLine[]): void {
   const preSet = new Set<Node>();
-  for (const pre of preElements) {
+  for (const pre of root.node.querySelectorAll("pre")) {
     if (!isVisible(pre as HTMLElement)) continue;
     preSet.add(pre);
     const raw = pre.textContent || "";
     for (const line of raw.split("\n")) {
       const trimmed = line.replace(/\s+/g, " ").trim();
       if (!trimmed) continue;
-      lines.push({ text: trimmed, lower: trimmed.toLowerCase(), tag: "PRE", nodeRef: new WeakRef(pre) });
+      lines.push(taggedLine(root, trimmed, "PRE", pre));
     }
   }
 
-  const walker = document.createTreeWalker(
-    document.body,
+  const walker = getRootDocument(root).createTreeWalker(
+    root.node,
     NodeFilter.SHOW_TEXT,
     {
       acceptNode(node: Node): number {
@@ -138,8 +143,16 @@ function collectAll(): TaggedLine[] {
     const text = raw.replace(/\s+/g, " ").trim();
     if (!text) continue;
     const tag = resolveTag(node.parentElement!);
-    lines.push({ text, lower: text.toLowerCase(), tag, nodeRef: new WeakRef(node) });
+    lines.push(taggedLine(root, text, tag, node));
   }
+}
+
+function collectAll(): TaggedLine[] {
+  const cache = getLineCache();
+  if (cache.all) return cache.all;
+
+  const lines: TaggedLine[] = [];
+  for (const root of getSearchRoots()) collectRootText(root, lines);
 
   cache.all = lines;
   return lines;
@@ -179,14 +192,16 @@ export function collectLines(filters: SearchFilter[]): TaggedLine[] {
 }
 
 export function getVisibleText(): string[] {
-  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, null);
   const lines: string[] = [];
 
-  let node: Node | null;
-  while ((node = walker.nextNode())) {
-    const text = node.textContent?.trim();
-    if (!text) continue;
-    lines.push(text);
+  for (const root of collectSearchRoots()) {
+    const walker = getRootDocument(root).createTreeWalker(root.node, NodeFilter.SHOW_TEXT, null);
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      const text = node.textContent?.trim();
+      if (!text) continue;
+      lines.push(text);
+    }
   }
 
   return lines;
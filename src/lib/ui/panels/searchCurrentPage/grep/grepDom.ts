@@ -7,8 +7,20 @@ const CONTEXT_BLOCK_TAGS = new Set([
   "FIGCAPTION", "DETAILS", "SUMMARY", "ASIDE", "MAIN", "NAV", "HEADER", "FOOTER",
 ]);
 
+/** Element for a node without `instanceof`, which fails for nodes from iframe realms */
+export function toElement(node: Node): Element | null {
+  return node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+}
+
+/** Walk boundary for ancestor searches: the body of the element's own document, so
+ *  matches in iframes stop at the frame's body. Inside a shadow root the parent chain
+ *  already ends at the shadow root. */
+function isOwnBody(el: Element): boolean {
+  return el === el.ownerDocument.body;
+}
+
 export function isVisible(el: HTMLElement): boolean {
-  if (el === document.body) return true;
+  if (isOwnBody(el)) return true;
   if (!el.offsetParent && el.style.position !== "fixed" && el.style.position !== "sticky") {
     return false;
   }
@@ -16,11 +28,11 @@ export function isVisible(el: HTMLElement): boolean {
 }
 
 export function findAncestorHeading(node: Node): string | undefined {
-  let el: Element | null = node instanceof Element ? node : node.parentElement;
+  let el: Element | null = toElement(node);
   if (!el) return undefined;
 
   let cur: Element | null = el;
-  while (cur && cur !== document.body) {
+  while (cur && !isOwnBody(cur)) {
     if (HEADING_TAGS.has(cur.tagName)) {
       return (cur.textContent || "").replace(/\s+/g, " ").trim() || undefined;
     }
@@ -28,7 +40,7 @@ export function findAncestorHeading(node: Node): string | undefined {
   }
 
   cur = el;
-  while (cur && cur !== document.body) {
+  while (cur && !isOwnBody(cur)) {
     let sibling = cur.previousElementSibling;
     while (sibling) {
       if (HEADING_TAGS.has(sibling.tagName)) {
@@ -48,8 +60,8 @@ export function findAncestorHeading(node: Node): string | undefined {
 }
 
 export function findHref(node: Node): string | undefined {
-  let el: Element | null = node instanceof Element ? node : node.parentElement;
-  while (el && el !== document.body) {
+  let el: Element | null = toElement(node);
+  while (el && !isOwnBody(el)) {
     if (el.tagName === "A") {
       return (el as HTMLAnchorElement).href || undefined;
     }
@@ -59,12 +71,12 @@ export function findHref(node: Node): string | undefined {
 }
 
 export function getDomContext(node: Node, matchText: string, tag: string): string[] {
-  const el = node instanceof Element ? node : node.parentElement;
+  const el = toElement(node);
   if (!el) return [matchText];
 
   if (tag === "PRE" || tag === "CODE") {
     let codeBlock: Element | null = el;
-    while (codeBlock && codeBlock.tagName !== "PRE" && codeBlock !== document.body) {
+    while (codeBlock && codeBlock.tagName !== "PRE" && !isOwnBody(codeBlock)) {
       codeBlock = codeBlock.parentElement;
     }
     if (codeBlock && codeBlock.tagName === "PRE") {
@@ -87,11 +99,11 @@ export function getDomContext(node: Node, matchText: string, tag: string): strin
   }
 
   let block: Element | null = el;
-  while (block && block !== document.body) {
+  while (block && !isOwnBody(block)) {
     if (CONTEXT_BLOCK_TAGS.has(block.tagName) || HEADING_TAGS.has(block.tagName)) break;
     block = block.parentElement;
   }
-  if (!block || block === document.body) block = el;
+  if (!block || isOwnBody(block)) block = el;
 
   const blockText = (block.textContent || "").replace(/\s+/g, " ").trim();
   if (blockText.length <= 200) return [blockText];
@@ -117,7 +129,7 @@ export function getDomContext(node: Node, matchText: string, tag: string): strin
 
 export function resolveTag(el: Element): string {
   let cur: Element | null = el;
-  while (cur && cur !== document.body) {
+  while (cur && !isOwnBody(cur)) {
     const tag = cur.tagName;
     if (
       tag === "PRE"
@@ -0,0 +1,53 @@
+// Query modes for page grep. Fuzzy keeps the subsequence scorer; exact and smart-case
+// run a substring search; regex compiles the query as a pattern.
+// Regex is guarded against catastrophic backtracking: risky patterns are rejected by
+// compileSearchRegex, and grepPage stops the scan once the time budget runs out.
+// Whole lines are tested, so a match anywhere in a long line is found.
+
+import { fuzzyMatch, scoreSubstringMatch } from "./grepScoring";
+import { TaggedLine } from "./grepTypes";
+import { compileSearchRegex, hasUppercase } from "../../../../common/utils/searchRegex";
+
+export const REGEX_TIME_BUDGET_MS = 150;
+
+export type GrepLineMatcher = (line: TaggedLine) => number | null;
+
+export type GrepQueryCompileResult =
+  | { ok: true; match: GrepLineMatcher; timeBudgetMs?: number }
+  | { ok: false; reason: string };
+
+function substringMatcher(query: string, caseSensitive: boolean): GrepLineMatcher {
+  const needle = caseSensitive ? query : query.toLowerCase();
+  return (line) => {
+    const haystack = caseSensitive ? line.text : line.lower;
+    const index = haystack.indexOf(needle);
+    return index === -1 ? null : scoreSubstringMatch(haystack, index, needle.length);
+  };
+}
+
+/** Build the per-line matcher for a query mode. Regex mode also sets a scan time budget. */
+export function compileGrepQuery(query: string, mode: SearchQueryMode): GrepQueryCompileResult {
+  switch (mode) {
+    case "exact":
+      return { ok: true, match: substringMatcher(query, true) };
+    case "smartcase":
+      return { ok: true, match: substringMatcher(query, hasUppercase(query)) };
+    case "regex": {
+      const compiled = compileSearchRegex(query);
+      if (!compiled.ok) return compiled;
+      const { regex } = compiled;
+      return {
+        ok: true,
+        timeBudgetMs: REGEX_TIME_BUDGET_MS,
+        match: (line) => {
+          const found = regex.exec(line.text);
+          return found ? scoreSubstringMatch(line.text, found.index, found[0].length) : null;
+        },
+      };
+    }
+    default: {
+      const lowerQuery = query.toLowerCase();
+      return { ok: true, match: (line) => fuzzyMatch(lowerQuery, line.lower) };
+    }
+  }
+}
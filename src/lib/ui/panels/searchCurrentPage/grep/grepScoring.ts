@@ -62,3 +62,24 @@ export function fuzzyMatch(query: string, candidate: string): number | null {
 
   return totalScore;
 }
+
+/** Score one contiguous match (exact, smart-case, regex modes). Whole-word hits rank
+ *  first, then earlier hits, then lines with less text around the match. */
+export function scoreSubstringMatch(candidate: string, index: number, length: number): number {
+  let score = length * (SCORE_BASE + SCORE_CONSECUTIVE);
+
+  if (index === 0) {
+    score += SCORE_START + SCORE_WORD_BOUNDARY;
+  } else if (WORD_SEPARATORS.has(candidate[index - 1])) {
+    score += SCORE_WORD_BOUNDARY;
+  }
+
+  const end = index + length;
+  if (end >= candidate.length || WORD_SEPARATORS.has(candidate[end])) {
+    score += SCORE_WORD_BOUNDARY;
+  }
+
+  score += Math.max(-20, PENALTY_DISTANCE * Math.floor(index / 10));
+  score += Math.max(-20, PENALTY_DISTANCE * Math.floor((candidate.length - length) / 20));
+  return score;
+}
@@ -1,3 +1,5 @@
+import { SearchRoot } from "../../../../common/utils/searchRoots";
+
 export interface TaggedLine {
   text: string;
   lower: string;
@@ -5,6 +7,7 @@ export interface TaggedLine {
   nodeRef?: WeakRef<Node>;
   ancestorHeading?: string;
   href?: string;
+  frame?: string;
 }
 
 export interface LineCache {
@@ -13,6 +16,7 @@ export interface LineCache {
   headings: TaggedLine[] | null;
   links: TaggedLine[] | null;
   images: TaggedLine[] | null;
+  roots: SearchRoot[] | null;
   observer: MutationObserver | null;
   invalidateTimer: ReturnType<typeof setTimeout> | null;
 }
@@ -1,5 +1,6 @@
 // Search Current Page overlay — single-page fuzzy search with structural filters.
-// Supports combinable slash-command filters: /code, /headings, /img, /links.
+// Supports combinable slash-command filters: /code, /headings, /img, /links,
+// and query-mode tokens: /re (regex), /exact (case-sensitive substring), /smart (smart case).
 // Results include colored source-tag badges and a live preview pane.
 //
 // Performance:
@@ -17,8 +18,7 @@ import {
   getBaseStyles,
   dismissPanel,
 } from "../../../common/utils/panelHost";
-import { parseSlashFilterQuery } from "../../../common/utils/filterInput";
-import { grepPage, enrichResult, initLineCache, destroyLineCache } from "./grep";
+import { grepPageWithStatus, enrichResult, initLineCache, destroyLineCache } from "./grep";
 import { scrollToText } from "../../../common/utils/scroll";
 import { showFeedback } from "../../../common/utils/feedback";
 import { toastMessages } from "../../../common/utils/toastMessages";
@@ -32,14 +32,15 @@ import {
   buildHighlightRegex,
   buildSearchCurrentPageHtml,
   buildSearchFooterHtml,
+  getModeToken,
   getTagBadgeColors,
   highlightText,
   ITEM_HEIGHT,
   MAX_DOM_ELEMENTS,
   MAX_TEXT_BYTES,
+  parseSearchInput,
   POOL_BUFFER,
   renderSearchPreview,
-  VALID_FILTERS,
 } from "./searchCurrentPageView";
 import previewPaneStyles from "../../../common/utils/previewPane.css";
 import searchCurrentPageStyles from "./searchCurrentPage.css";
@@ -99,6 +100,7 @@ export async function openSearchCurrentPage(
     const backdrop = shadow.querySelector(".ht-backdrop") as HTMLElement;
     const resultsPane = shadow.querySelector(".ht-results-pane") as HTMLElement;
     const titleFilterSpans = shadow.querySelectorAll(".ht-title-filter") as NodeListOf<HTMLElement>;
+    const titleModeSpans = shadow.querySelectorAll(".ht-title-mode") as NodeListOf<HTMLElement>;
     const titleCount = shadow.querySelector(".ht-title-count") as HTMLElement;
 
     let results: GrepResult[] = [];
@@ -106,6 +108,9 @@ export async function openSearchCurrentPage(
     let debounceTimer: ReturnType<typeof setTimeout> | null = null;
     let currentQuery = "";
     let activeFilters: SearchFilter[] = [];
+    let activeMode: SearchQueryMode = "fuzzy";
+    // Invalid-pattern or time-budget notice from the last grep, shown in place of results.
+    let grepNotice: { text: string; isError: boolean } | null = null;
     // Keep direct refs so keyboard navigation avoids repeated DOM queries.
     let activeItemEl: HTMLElement | null = null;
     let focusedPane: "input" | "results" = "input";
@@ -151,27 +156,37 @@ export async function openSearchCurrentPage(
         const filter = span.dataset.filter as SearchFilter;
         span.classList.toggle("active", activeFilters.includes(filter));
       });
-      titleCount.textContent = results.length > 0
+      titleModeSpans.forEach((span) => {
+        span.classList.toggle("active", span.dataset.mode === activeMode);
+      });
+      const countText = results.length > 0
         ? `${results.length} match${results.length !== 1 ? "es" : ""}`
         : "";
+      titleCount.textContent = grepNotice && !grepNotice.isError && countText
+        ? `${countText} (partial)`
+        : countText;
     }
 
     function updateFilterPills(): void {
-      if (activeFilters.length === 0) {
+      if (activeFilters.length === 0 && activeMode === "fuzzy") {
         filterPills.style.display = "none";
         return;
       }
       filterPills.style.display = "flex";
-      filterPills.innerHTML = activeFilters.map((filter) =>
-        `<span class="ht-filter-pill" data-filter="${filter}">/${filter}<span class="ht-filter-pill-x">\u00d7</span></span>`
+      const pillTokens = [
+        ...(activeMode !== "fuzzy" ? [getModeToken(activeMode)] : []),
+        ...activeFilters.map((filter) => `/${filter}`),
+      ];
+      filterPills.innerHTML = pillTokens.map((token) =>
+        `<span class="ht-filter-pill" data-token="${token}">${token}<span class="ht-filter-pill-x">\u00d7</span></span>`
       ).join("");
       filterPills.querySelectorAll(".ht-filter-pill-x").forEach((removeButton) => {
         removeButton.addEventListener("click", (event) => {
           event.stopPropagation();
           const pill = (removeButton as HTMLElement).parentElement!;
-          const filter = pill.dataset.filter!;
+          const pillToken = pill.dataset.token!;
           const tokens = input.value.trimStart().split(/\s+/);
-          const remainingTokens = tokens.filter((token) => token !== `/${filter}`);
+          const remainingTokens = tokens.filter((token) => token !== pillToken);
           input.value = remainingTokens.join(" ");
           input.dispatchEvent(new Event("input"));
           input.focus();
@@ -179,10 +194,6 @@ export async function openSearchCurrentPage(
       });
     }
 
-    function parseInput(raw: string): { filters: SearchFilter[]; query: string } {
-      return parseSlashFilterQuery(raw, VALID_FILTERS);
-    }
-
     let highlightRegex: RegExp | null = null;
 
     /** Get or create a pooled result item element */
@@ -197,6 +208,9 @@ export async function openSearchCurrentPage(
       const span = document.createElement("span");
       span.className = "ht-result-text";
       item.appendChild(span);
+      const frameLabel = document.createElement("span");
+      frameLabel.className = "ht-result-frame";
+      item.appendChild(frameLabel);
       itemPool.push(item);
       return item;
     }
@@ -224,6 +238,10 @@ export async function openSearchCurrentPage(
       const span = item.children[1] as HTMLElement;
       span.innerHTML = highlightText(result.text, highlightRegex);
 
+      const frameLabel = item.children[2] as HTMLElement;
+      frameLabel.textContent = result.frame || "";
+      frameLabel.style.display = result.frame ? "" : "none";
+
       if (resultIdx === activeIndex) {
         item.classList.add("active");
         activeItemEl = item;
@@ -284,15 +302,22 @@ export async function openSearchCurrentPage(
     function renderResults(): void {
       try {
         withPerfTrace("searchCurrentPage.renderResults", () => {
-          highlightRegex = buildHighlightRegex(currentQuery);
+          highlightRegex = buildHighlightRegex(currentQuery, activeMode);
 
           if (results.length === 0) {
             resultsSentinel.style.height = "0px";
             resultsList.style.top = "0px";
             resultsList.textContent = "";
-            resultsList.innerHTML = input.value
-              ? '<div class="ht-no-results">No matches found</div>'
-              : '<div class="ht-no-results">Type to search...</div>';
+            if (grepNotice) {
+              const noticeEl = document.createElement("div");
+              noticeEl.className = grepNotice.isError ? "ht-no-results ht-query-error" : "ht-no-results";
+              noticeEl.textContent = grepNotice.text;
+              resultsList.appendChild(noticeEl);
+            } else {
+              resultsList.innerHTML = input.value
+                ? '<div class="ht-no-results">No matches found</div>'
+                : '<div class="ht-no-results">Type to search...</div>';
+            }
             previewHeader.textContent = "Preview";
             showPreviewPlaceholder(true);
             activeItemEl = null;
@@ -416,14 +441,16 @@ export async function openSearchCurrentPage(
 
     function processInputValue(rawValue: string): void {
       if (debounceTimer) clearTimeout(debounceTimer);
-      const { filters, query } = parseInput(rawValue);
+      const { filters, mode, query } = parseSearchInput(rawValue);
       activeFilters = filters;
+      activeMode = mode;
       updateTitle();
       updateFilterPills();
 
       if (query.length < 2) {
         results = [];
         currentQuery = "";
+        grepNotice = null;
         renderResults();
         schedulePreviewUpdate();
         return;
@@ -459,11 +486,20 @@ export async function openSearchCurrentPage(
       try {
         if (!query || query.trim().length === 0) {
           results = [];
+          grepNotice = null;
           renderResults();
           return;
         }
         currentQuery = query.trim();
-        results = grepPage(currentQuery, activeFilters);
+        const outcome = grepPageWithStatus(currentQuery, activeFilters, activeMode);
+        results = outcome.results;
+        if (outcome.error) {
+          grepNotice = { text: `Invalid pattern: ${outcome.error}`, isError: true };
+        } else if (outcome.truncated) {
+          grepNotice = { text: "Pattern too slow \u2014 search stopped early", isError: false };
+        } else {
+          grepNotice = null;
+        }
         activeIndex = 0;
         updateTitle();
         renderResults();
@@ -475,7 +511,7 @@ export async function openSearchCurrentPage(
 
     async function jumpToResult(result: GrepResult): Promise<void> {
       close();
-      scrollToText(result.text, result.nodeRef);
+      scrollToText(result.text, result.nodeRef, result.frame);
     }
 
     function getHalfPageStep(): number {
@@ -504,6 +540,8 @@ export async function openSearchCurrentPage(
         event.stopPropagation();
         input.value = "";
         activeFilters = [];
+        activeMode = "fuzzy";
+        grepNotice = null;
         currentQuery = "";
         results = [];
         activeIndex = 0;
@@ -548,19 +586,23 @@ export async function openSearchCurrentPage(
         return;
       }
 
-      // Mirrors command-line UX: backspace on empty query removes last filter token.
+      // Mirrors command-line UX: backspace on empty query removes the last filter token,
+      // then the mode token.
       if (event.key === "Backspace" && focusedPane === "input"
-          && input.value === "" && activeFilters.length > 0) {
+          && input.value === "" && (activeFilters.length > 0 || activeMode !== "fuzzy")) {
         event.preventDefault();
-        activeFilters.pop();
-        input.value = activeFilters
-          .map((filter) => `/${filter}`)
-          .join(" ")
-          + (activeFilters.length ? " " : "");
+        if (activeFilters.length > 0) activeFilters.pop();
+        else activeMode = "fuzzy";
+        const remainingTokens = [
+          ...(activeMode !== "fuzzy" ? [getModeToken(activeMode)] : []),
+          ...activeFilters.map((filter) => `/${filter}`),
+        ];
+        input.value = remainingTokens.join(" ") + (remainingTokens.length ? " " : "");
         updateTitle();
         updateFilterPills();
         results = [];
         currentQuery = "";
+        grepNotice = null;
         renderResults();
         schedulePreviewUpdate();
         return;
@@ -630,8 +672,9 @@ export async function openSearchCurrentPage(
     // Restore previous query when reopening within the same page session.
     if (lastSearchState && lastSearchState.query) {
       input.value = lastSearchState.query;
-      const { filters, query } = parseInput(lastSearchState.query);
+      const { filters, mode, query } = parseSearchInput(lastSearchState.query);
       activeFilters = filters;
+      activeMode = mode;
       updateTitle();
       if (query.length >= 2) {
         doGrep(query);
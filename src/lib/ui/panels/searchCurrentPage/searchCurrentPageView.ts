@@ -1,6 +1,8 @@
 import { keyToDisplay } from "../../../common/contracts/keybindings";
 import { footerRowHtml, vimBadgeHtml } from "../../../common/utils/panelHost";
 import { escapeHtml, escapeRegex } from "../../../common/utils/helpers";
+import { parseSlashFilterQuery } from "../../../common/utils/filterInput";
+import { compileSearchRegex, hasUppercase } from "../../../common/utils/searchRegex";
 
 export const MAX_DOM_ELEMENTS = 200_000;
 export const MAX_TEXT_BYTES = 10 * 1024 * 1024;
@@ -12,6 +14,35 @@ export const VALID_FILTERS: Record<string, SearchFilter> = {
   "/links": "links",
 };
 
+// Query-mode tokens share the leading slash-token slot with filters; the last one wins.
+export const VALID_MODES: Record<string, Exclude<SearchQueryMode, "fuzzy">> = {
+  "/re": "regex",
+  "/exact": "exact",
+  "/smart": "smartcase",
+};
+
+function isSearchQueryMode(value: string): value is SearchQueryMode {
+  return Object.values(VALID_MODES).includes(value as Exclude<SearchQueryMode, "fuzzy">);
+}
+
+export function getModeToken(mode: SearchQueryMode): string {
+  return Object.keys(VALID_MODES).find((token) => VALID_MODES[token] === mode) || "";
+}
+
+/** Split leading filter and mode tokens off the typed query (shared with Search All Tabs) */
+export function parseSearchInput(raw: string): { filters: SearchFilter[]; mode: SearchQueryMode; query: string } {
+  const { filters: tokens, query } = parseSlashFilterQuery<SearchFilter | SearchQueryMode>(
+    raw,
+    { ...VALID_FILTERS, ...VALID_MODES },
+  );
+  const modes = tokens.filter(isSearchQueryMode);
+  return {
+    filters: tokens.filter((token): token is SearchFilter => !isSearchQueryMode(token)),
+    mode: modes.length > 0 ? modes[modes.length - 1] : "fuzzy",
+    query,
+  };
+}
+
 export const ITEM_HEIGHT = 28;
 export const POOL_BUFFER = 5;
 
@@ -65,6 +96,12 @@ export function buildSearchCurrentPageHtml(
               <span class="ht-title-filter" data-filter="images">/img</span>
               <span class="ht-title-filter" data-filter="links">/links</span>
             </span>
+            <span class="ht-title-sep">|</span>
+            <span class="ht-title-modes">Mode:
+              <span class="ht-title-mode" data-mode="regex">/re</span>
+              <span class="ht-title-mode" data-mode="exact">/exact</span>
+              <span class="ht-title-mode" data-mode="smartcase">/smart</span>
+            </span>
             <span class="ht-title-count"></span>
           </span>
           ${vimBadgeHtml(config)}
@@ -124,21 +161,43 @@ export function buildSearchFooterHtml(config: KeybindingsConfig): string {
       `;
 }
 
-export function buildHighlightRegex(query: string): RegExp | null {
+/** Global regex marking what the query matched in `mode`; matched against raw line text */
+export function buildHighlightRegex(query: string, mode: SearchQueryMode = "fuzzy"): RegExp | null {
   if (!query) return null;
   try {
-    const terms = query.split(/\s+/).filter(Boolean);
-    const pattern = terms.map((term) => `(${escapeRegex(escapeHtml(term))})`).join("|");
-    return new RegExp(pattern, "gi");
+    switch (mode) {
+      case "exact":
+        return new RegExp(escapeRegex(query), "g");
+      case "smartcase":
+        return new RegExp(escapeRegex(query), hasUppercase(query) ? "g" : "gi");
+      case "regex": {
+        const compiled = compileSearchRegex(query, true);
+        return compiled.ok ? compiled.regex : null;
+      }
+      default: {
+        const terms = query.split(/\s+/).filter(Boolean);
+        return new RegExp(terms.map((term) => escapeRegex(term)).join("|"), "gi");
+      }
+    }
   } catch (_) {
     return null;
   }
 }
 
 export function highlightText(text: string, highlightRegex: RegExp | null): string {
-  const escaped = escapeHtml(text);
-  if (!highlightRegex) return escaped;
-  return escaped.replace(highlightRegex, "<mark>$1</mark>");
+  if (!highlightRegex) return escapeHtml(text);
+  let html = "";
+  let cursor = 0;
+  highlightRegex.lastIndex = 0;
+  for (let found = highlightRegex.exec(text); found; found = highlightRegex.exec(text)) {
+    if (found[0].length === 0) {
+      highlightRegex.lastIndex++;
+      continue;
+    }
+    html += `${escapeHtml(text.slice(cursor, found.index))}<mark>${escapeHtml(found[0])}</mark>`;
+    cursor = found.index + found[0].length;
+  }
+  return html + escapeHtml(text.slice(cursor));
 }
 
 export function renderSearchPreview(options: {
@@ -189,6 +248,9 @@ export function renderSearchPreview(options: {
   if (tag) {
     primaryRowHtml += `<span class="ht-bc-tag"${getTagBadgeInlineStyle(tag)}>${escapeHtml(tag)}</span>`;
   }
+  if (activeResult.frame) {
+    primaryRowHtml += `<span class="ht-bc-frame">iframe: ${escapeHtml(activeResult.frame)}</span>`;
+  }
   if (activeResult.ancestorHeading) {
     primaryRowHtml += `<span class="ht-bc-heading">${escapeHtml(activeResult.ancestorHeading)}</span>`;
   }
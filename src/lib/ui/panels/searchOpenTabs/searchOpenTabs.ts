@@ -15,6 +15,7 @@ import { escapeHtml, escapeRegex, extractDomain, buildFuzzyPattern } from "../..
 import { withPerfTrace } from "../../../common/utils/perf";
 import searchOpenTabsStyles from "./searchOpenTabs.css";
 import { listFrecencyEntriesWithRetry, switchToTabById } from "../../../adapters/runtime/openTabsApi";
+import { listTabManagerEntries } from "../../../adapters/runtime/tabManagerApi";
 import {
   movePanelListIndexByDirection,
   movePanelListIndexFromWheel,
@@ -104,6 +105,8 @@ export async function openSearchOpenTabs(
     panel.appendChild(footer);
 
     let allEntries: FrecencyEntry[] = [];
+    // Tab Manager label/note per tab id, searchable alongside title and URL.
+    let annotations = new Map<number, string>();
     let filtered: FrecencyEntry[] = [];
     let activeIndex = 0;
     let query = "";
@@ -199,7 +202,10 @@ export async function openSearchOpenTabs(
 
         const url = document.createElement("div");
         url.className = "ht-open-tabs-url";
-        url.textContent = shortUrl;
+        const annotation = annotations.get(entry.tabId);
+        url.innerHTML = annotation
+          ? `${escapeHtml(shortUrl)} &middot; ${highlightMatch(annotation)}`
+          : escapeHtml(shortUrl);
 
         info.appendChild(title);
         info.appendChild(url);
@@ -314,6 +320,7 @@ export async function openSearchOpenTabs(
             titleScore: number;
             titleHit: boolean;
             titleLen: number;
+            annotationHit: boolean;
             urlScore: number;
             urlHit: boolean;
           }> = [];
@@ -322,7 +329,12 @@ export async function openSearchOpenTabs(
           for (const entry of allEntries) {
             const title = entry.title || "";
             const url = entry.url || "";
-            if (!(substringRe.test(title) || substringRe.test(url) || re.test(title) || re.test(url))) {
+            const annotation = annotations.get(entry.tabId) || "";
+            const annotationHit = annotation !== "" && substringRe.test(annotation);
+            if (
+              !(substringRe.test(title) || substringRe.test(url) || re.test(title) || re.test(url))
+              && !annotationHit
+            ) {
               continue;
             }
 
@@ -333,18 +345,20 @@ export async function openSearchOpenTabs(
               titleScore,
               titleHit: titleScore >= 0,
               titleLen: title.length,
+              annotationHit,
               urlScore,
               urlHit: urlScore >= 0,
             });
           }
 
-          // Prefer title hits over URL hits, then tighter title matches.
+          // Prefer title hits, then Tab Manager label/note hits, then URL hits.
           ranked.sort((a, b) => {
             if (a.titleHit !== b.titleHit) return a.titleHit ? -1 : 1;
             if (a.titleHit && b.titleHit) {
               if (a.titleScore !== b.titleScore) return a.titleScore - b.titleScore;
               return a.titleLen - b.titleLen;
             }
+            if (a.annotationHit !== b.annotationHit) return a.annotationHit ? -1 : 1;
             if (a.urlHit !== b.urlHit) return a.urlHit ? -1 : 1;
             if (a.urlHit && b.urlHit) return a.urlScore - b.urlScore;
             return 0;
@@ -510,6 +524,10 @@ export async function openSearchOpenTabs(
     // Load once on open; in-panel search is local and synchronous after this.
     allEntries = await listFrecencyEntriesWithRetry();
     filtered = [...allEntries];
+    const tabManagerEntries = await listTabManagerEntries().catch(() => []);
+    annotations = new Map(tabManagerEntries
+      .filter((item) => !item.closed && (item.label || item.note))
+      .map((item) => [item.tabId, [item.label, item.note].filter(Boolean).join(" — ")]));
 
     document.addEventListener("keydown", keyHandler, true);
     registerPanelCleanup(close);
@@ -1,34 +1,55 @@
 // Session save/load views rendered inside the shared panel shell.
 // Keeps view-specific keyboard semantics in one place to avoid mode drift.
 
-import { keyToDisplay, matchesAction, MAX_SESSIONS } from "../../../common/contracts/keybindings";
+import { keyToDisplay, matchesAction } from "../../../common/contracts/keybindings";
 import { vimBadgeHtml } from "../../../common/utils/panelHost";
 import { escapeHtml } from "../../../common/utils/helpers";
+import { formatSessionLabel, parseSessionLabel } from "../../../common/utils/sessionLabels";
 import { showFeedback } from "../../../common/utils/feedback";
 import { toastMessages } from "../../../common/utils/toastMessages";
 import {
   SessionTransientState,
   createSessionTransientState,
+  cycleSessionLoadWindow,
   deriveSessionListViewModel,
+  moveSessionDiffSelection,
+  moveSessionRevisionSelection,
   resetSessionTransientState as resetSessionTransientStateValue,
+  selectSessionDiffRow,
+  selectSessionRevision,
   startSessionDeleteConfirmation,
   startSessionLoadConfirmation,
   startSessionOverwriteConfirmation,
   startSessionRenameMode,
+  startSessionComparePick,
+  startSessionDiffView,
+  startSessionRevisionBrowse,
   stopSessionDeleteConfirmation,
   stopSessionLoadConfirmation,
   stopSessionOverwriteConfirmation,
   stopSessionRenameMode,
+  stopSessionComparePick,
+  stopSessionDiffView,
+  stopSessionRevisionBrowse,
+  updateSessionDiffRows,
+  updateSessionLoadSummary,
   withSessionListFocusTarget,
 } from "../../../core/sessionMenu/sessionCore";
 import {
   deleteSessionByName as deleteSessionByNameRemote,
+  copySessionEntriesBetween,
+  diffSessions,
+  listSessionRevisions,
   listSessions,
   loadSessionByName,
+  loadSessionMergePlanByName,
   loadSessionPlanByName,
+  mergeSessionByName,
   renameSession,
   replaceSession as replaceSessionByName,
+  rollbackSession,
   saveSessionByName,
+  saveWindowSessionByName,
   updateSession,
 } from "../../../adapters/runtime/sessionApi";
 import { listTabManagerEntries } from "../../../adapters/runtime/tabManagerApi";
@@ -40,6 +61,8 @@ import {
 import {
   buildDeleteConfirmationHtml,
   buildLoadSummaryHtml,
+  buildRevisionBrowserHtml,
+  buildSessionDiffHtml,
   buildOverwriteConfirmationHtml,
   buildPreviewEntriesHtml,
   buildReplaceSessionFooterHtml,
@@ -49,8 +72,10 @@ import {
   buildSessionPreviewHtml,
   buildSessionPreviewPaneHtml,
   getFilteredSessionIndices,
+  getSessionEntryMatch,
   getSessionListHalfPageStep,
   highlightSessionName,
+  parseSessionFilterQuery,
 } from "./sessionView";
 
 let sessionTransientState = createSessionTransientState();
@@ -87,11 +112,17 @@ export interface SessionContext {
 }
 
 
-async function beginLoadConfirmation(ctx: SessionContext, sessionIdx: number): Promise<void> {
+async function beginLoadConfirmation(
+  ctx: SessionContext,
+  sessionIdx: number,
+  mode: SessionLoadMode = "replace",
+): Promise<void> {
   const target = ctx.sessions[sessionIdx];
   if (!target) return;
   try {
-    const result = await loadSessionPlanByName(target.name);
+    const result = mode === "merge"
+      ? await loadSessionMergePlanByName(target.name)
+      : await loadSessionPlanByName(target.name);
     if (!result.ok || !result.summary) {
       showFeedback(result.reason || toastMessages.sessionLoadPlanFailed);
       return;
@@ -106,16 +137,133 @@ async function beginLoadConfirmation(ctx: SessionContext, sessionIdx: number): P
   }
 }
 
+/** Cycle the load target and recompute the plan, since a new window reuses no current tabs */
+async function cycleLoadTarget(ctx: SessionContext): Promise<void> {
+  setSessionTransientState(cycleSessionLoadWindow(sessionTransientState));
+  ctx.render();
+  const { pendingLoadSessionName: name, pendingLoadWindow: windowOptions } = sessionTransientState;
+  try {
+    const result = await loadSessionPlanByName(name, windowOptions ?? undefined);
+    // Ignore plans for a target the user has already cycled past.
+    if (
+      !result.ok || !result.summary
+      || sessionTransientState.pendingLoadSessionName !== name
+      || sessionTransientState.pendingLoadWindow !== windowOptions
+    ) return;
+    setSessionTransientState(updateSessionLoadSummary(sessionTransientState, result.summary));
+    ctx.render();
+  } catch (error) {
+    reportSessionError("Build session load summary failed", "Failed to prepare session load", error);
+  }
+}
+
 async function confirmLoadSession(ctx: SessionContext): Promise<void> {
   if (!sessionTransientState.pendingLoadSessionName) return;
   const target = ctx.sessions.find((session) => session.name === sessionTransientState.pendingLoadSessionName);
+  const isMerge = sessionTransientState.pendingLoadSummary?.mode === "merge";
+  const windowOptions = sessionTransientState.pendingLoadWindow ?? undefined;
   setSessionTransientState(stopSessionLoadConfirmation(sessionTransientState));
   if (!target) {
     showFeedback(toastMessages.sessionNotFound);
     ctx.render();
     return;
   }
-  await loadSession(ctx, target);
+  if (isMerge) await mergeSession(ctx, target);
+  else await loadSession(ctx, target, windowOptions);
+}
+
+async function beginRevisionBrowse(ctx: SessionContext, sessionIdx: number): Promise<void> {
+  const target = ctx.sessions[sessionIdx];
+  if (!target) return;
+  try {
+    const result = await listSessionRevisions(target.name);
+    if (!result.ok) {
+      showFeedback(result.reason || toastMessages.sessionHistoryFailed);
+      return;
+    }
+    setSessionTransientState(
+      startSessionRevisionBrowse(sessionTransientState, target.name, result.revisions || []),
+    );
+    ctx.render();
+  } catch (error) {
+    reportSessionError("List session revisions failed", toastMessages.sessionHistoryFailed, error);
+  }
+}
+
+/** Diff the session picked first against the one now selected */
+async function beginSessionDiff(ctx: SessionContext, sessionIdx: number): Promise<void> {
+  const leftName = sessionTransientState.pendingCompareLeftName;
+  const right = ctx.sessions[sessionIdx];
+  if (!leftName || !right) return;
+  if (right.name === leftName) {
+    showFeedback("Pick a different session to compare");
+    return;
+  }
+  try {
+    const result = await diffSessions(leftName, right.name);
+    if (!result.ok || !result.rows) {
+      showFeedback(result.reason || toastMessages.sessionDiffFailed);
+      return;
+    }
+    setSessionTransientState(startSessionDiffView(sessionTransientState, leftName, right.name, result.rows));
+    ctx.render();
+  } catch (error) {
+    reportSessionError("Compare sessions failed", toastMessages.sessionDiffFailed, error);
+  }
+}
+
+/** Copy the selected diff row's entry into the left or right session, then refresh the diff */
+async function copySelectedDiffEntry(ctx: SessionContext, into: "left" | "right"): Promise<void> {
+  const leftName = sessionTransientState.pendingCompareLeftName;
+  const rightName = sessionTransientState.pendingDiffRightName;
+  const row = sessionTransientState.pendingDiffRows[sessionTransientState.diffIndex];
+  const source = into === "left" ? row?.right : row?.left;
+  if (!row || !source || row.change === "same") {
+    showFeedback("Nothing to copy");
+    return;
+  }
+  const [fromName, toName] = into === "left" ? [rightName, leftName] : [leftName, rightName];
+  try {
+    const result = await copySessionEntriesBetween(fromName, toName, [source.url]);
+    if (!result.ok) {
+      showFeedback(result.reason || toastMessages.sessionCopyFailed);
+      return;
+    }
+    showFeedback(toastMessages.sessionCopyEntries(toName, result.count ?? 0));
+    const [sessions, diff] = await Promise.all([listSessions(), diffSessions(leftName, rightName)]);
+    ctx.setSessions(sessions);
+    if (diff.ok && diff.rows) {
+      setSessionTransientState(updateSessionDiffRows(sessionTransientState, diff.rows));
+    }
+  } catch (error) {
+    reportSessionError("Copy session entry failed", toastMessages.sessionCopyFailed, error);
+  }
+  ctx.render();
+}
+
+/** Enter on a session loads it, or finishes a compare pick */
+function openSelectedSession(ctx: SessionContext, sessionIdx: number): void {
+  if (sessionTransientState.isComparePickActive) void beginSessionDiff(ctx, sessionIdx);
+  else void beginLoadConfirmation(ctx, sessionIdx);
+}
+
+async function confirmRollbackSession(ctx: SessionContext): Promise<void> {
+  const name = sessionTransientState.pendingRevisionSessionName;
+  const revision = sessionTransientState.pendingRevisions[sessionTransientState.revisionIndex];
+  if (!name || !revision) return;
+  setSessionTransientState(stopSessionRevisionBrowse(sessionTransientState));
+  try {
+    const result = await rollbackSession(name, revision.replacedAt);
+    if (result.ok) {
+      showFeedback(toastMessages.sessionRollback(name, result.count ?? 0));
+      ctx.setSessions(await listSessions());
+    } else {
+      showFeedback(result.reason || toastMessages.sessionRollbackFailed);
+    }
+  } catch (error) {
+    reportSessionError("Roll back session failed", toastMessages.sessionRollbackFailed, error);
+  }
+  ctx.render();
 }
 
 export type SessionPanelMode = "saveSession" | "sessionList" | "replaceSession";
@@ -166,7 +314,7 @@ export async function renderSaveSession(ctx: SessionContext): Promise<void> {
       <div class="ht-session-body">
         <div class="ht-session-input-wrap ht-ui-input-wrap">
           <span class="ht-session-prompt ht-ui-input-prompt">Name:</span>
-          <input type="text" class="ht-session-input ht-ui-input-field" value="${escapeHtml(ctx.pendingSaveName)}" placeholder="e.g. Research, Debug, Feature..." maxlength="30" />
+          <input type="text" class="ht-session-input ht-ui-input-field" value="${escapeHtml(ctx.pendingSaveName)}" placeholder="e.g. Research, work/Debug #bug ..." maxlength="80" />
         </div>
         <div class="ht-session-error" style="display:none; padding: 4px 14px; font-size: 10px; color: #ff5f57;"></div>
         ${buildSessionPreviewPaneHtml(
@@ -206,7 +354,8 @@ export async function renderSaveSession(ctx: SessionContext): Promise<void> {
 export function renderSessionList(ctx: SessionContext): void {
   const { shadow, container, config, sessions } = ctx;
   const visibleIndices = getFilteredSessionIndices(sessions, ctx.sessionFilterQuery);
-  const highlightRegex = buildSessionNameHighlightRegex(ctx.sessionFilterQuery);
+  const { query: textQuery } = parseSessionFilterQuery(sessions, ctx.sessionFilterQuery);
+  const highlightRegex = buildSessionNameHighlightRegex(textQuery);
   const listModel = deriveSessionListViewModel(
     sessions,
     visibleIndices,
@@ -220,10 +369,13 @@ export function renderSessionList(ctx: SessionContext): void {
   }
   const selectedSession = listModel.selectedSession;
   const previewTargetSession = listModel.previewTargetSession;
-  const titleText = listModel.titleText;
+  const titleText = sessionTransientState.isComparePickActive
+    ? `Compare &ldquo;${escapeHtml(sessionTransientState.pendingCompareLeftName)}&rdquo; with&hellip;`
+    : listModel.titleText;
   const closeKey = keyToDisplay(config.bindings.tabManager.close.key);
   const confirmYesKey = keyToDisplay(config.bindings.session.confirmYes.key);
   const confirmNoKey = keyToDisplay(config.bindings.session.confirmNo.key);
+  const loadTargetKey = keyToDisplay(config.bindings.session.loadTarget.key);
 
   let html = `<div class="ht-backdrop"></div>
     <div class="ht-tab-manager-container ht-session-list-container ht-session-shell">
@@ -240,7 +392,7 @@ export function renderSessionList(ctx: SessionContext): void {
           <input
             type="text"
             class="ht-session-filter-input ht-ui-input-field"
-            placeholder="Search Sessions . . ."
+            placeholder="Search Sessions and saved tabs (/tag to filter) . . ."
             value="${escapeHtml(ctx.sessionFilterQuery)}"
             maxlength="40"
           />
@@ -254,29 +406,79 @@ export function renderSessionList(ctx: SessionContext): void {
   } else if (visibleIndices.length === 0) {
     html += `<div class="ht-session-empty">No matching sessions</div>`;
   } else {
+    let previousFolder: string | null = null;
     for (const globalIdx of visibleIndices) {
       const s = sessions[globalIdx];
+      // Folder headers only make sense in the grouped (unranked) order.
+      const folder = s.folder || "";
+      if (!textQuery && folder !== previousFolder && (folder || previousFolder !== null)) {
+        html += `<div class="ht-session-folder">${escapeHtml(folder ? `${folder}/` : "(no folder)")}</div>`;
+      }
+      previousFolder = folder;
+      const tagsHtml = (s.tags || [])
+        .map((tag) => `<span class="ht-session-tag">#${escapeHtml(tag)}</span>`)
+        .join("");
       const cls = globalIdx === selectedSessionIndex ? "ht-session-item active" : "ht-session-item";
       const itemTabIndex = globalIdx === selectedSessionIndex ? "0" : "-1";
       const date = new Date(s.savedAt).toLocaleDateString();
+      const entryMatch = getSessionEntryMatch(s, textQuery);
+      const matchedEntry = entryMatch ? s.entries[entryMatch.entryIndex] : undefined;
+      const entryMatchHtml = matchedEntry
+        ? `<span class="ht-session-entry-match">\u21b3 ${highlightSessionName(
+          entryMatch!.field === "title" ? matchedEntry.title : matchedEntry.url,
+          highlightRegex,
+        )}</span>`
+        : "";
       const nameContent = sessionTransientState.isRenameModeActive && globalIdx === selectedSessionIndex
-        ? `<input type="text" class="ht-session-rename-input" value="${escapeHtml(s.name)}" maxlength="30" />`
-        : `<div class="ht-session-name">${highlightSessionName(s.name, highlightRegex)}</div>`;
+        ? `<input type="text" class="ht-session-rename-input" value="${escapeHtml(formatSessionLabel(s))}" maxlength="80" />`
+        : `<div class="ht-session-name">${highlightSessionName(s.name, highlightRegex)}${entryMatchHtml}</div>`;
       html += `<div class="${cls}" data-index="${globalIdx}" tabindex="${itemTabIndex}" role="button" aria-selected="${globalIdx === selectedSessionIndex ? "true" : "false"}">
         ${nameContent}
-        <span class="ht-session-meta">${s.entries.length} tabs \u00b7 ${date}</span>
+        ${tagsHtml}
+        <span class="ht-session-meta">${s.kind === "window" ? "window \u00b7 " : ""}${s.entries.length} tabs \u00b7 ${date}</span>
         <button class="ht-session-delete" data-index="${globalIdx}" title="Delete" tabindex="-1">\u00d7</button>
       </div>`;
     }
   }
 
-  const previewContent = sessionTransientState.isLoadConfirmationActive && sessionTransientState.pendingLoadSummary
-    ? `${buildLoadSummaryHtml(sessionTransientState.pendingLoadSummary, confirmYesKey, confirmNoKey)}${buildSessionPreviewHtml(selectedSession)}`
+  // Session search can match a saved tab; the preview highlights it and scrolls to it.
+  const selectedEntryMatch = selectedSession ? getSessionEntryMatch(selectedSession, textQuery) : null;
+  const matchedEntryIndex = selectedEntryMatch?.entryIndex ?? -1;
+  const selectedRevision = sessionTransientState.pendingRevisions[sessionTransientState.revisionIndex];
+  const revisionPreviewSession = selectedSession && selectedRevision
+    ? { ...selectedSession, entries: selectedRevision.entries }
+    : undefined;
+  const previewContent = sessionTransientState.isDiffViewActive
+    ? buildSessionDiffHtml(
+      sessionTransientState.pendingCompareLeftName,
+      sessionTransientState.pendingDiffRightName,
+      sessionTransientState.pendingDiffRows,
+      sessionTransientState.diffIndex,
+      keyToDisplay(config.bindings.session.copyLeft.key),
+      keyToDisplay(config.bindings.session.copyRight.key),
+      closeKey,
+    )
+    : sessionTransientState.isRevisionBrowseActive
+    ? `${buildRevisionBrowserHtml(
+      sessionTransientState.pendingRevisionSessionName,
+      sessionTransientState.pendingRevisions,
+      sessionTransientState.revisionIndex,
+      keyToDisplay(config.bindings.tabManager.jump.key),
+      closeKey,
+    )}${buildSessionPreviewHtml(revisionPreviewSession)}`
+    : sessionTransientState.isLoadConfirmationActive && sessionTransientState.pendingLoadSummary
+    ? `${buildLoadSummaryHtml(
+      sessionTransientState.pendingLoadSummary,
+      confirmYesKey,
+      confirmNoKey,
+      sessionTransientState.pendingLoadWindow,
+      loadTargetKey,
+    )}${buildSessionPreviewHtml(selectedSession, matchedEntryIndex)}`
     : sessionTransientState.isOverwriteConfirmationActive
       ? `${buildOverwriteConfirmationHtml(selectedSession, confirmYesKey, confirmNoKey)}${buildSessionPreviewHtml(selectedSession)}`
       : sessionTransientState.isDeleteConfirmationActive
         ? `${buildDeleteConfirmationHtml(previewTargetSession, confirmYesKey, confirmNoKey)}${buildSessionPreviewHtml(previewTargetSession)}`
-        : buildSessionPreviewHtml(selectedSession);
+        : buildSessionPreviewHtml(selectedSession, matchedEntryIndex);
 
   html += `</div>
           </div>
@@ -353,11 +555,13 @@ export function renderSessionList(ctx: SessionContext): void {
         || sessionTransientState.isLoadConfirmationActive
         || sessionTransientState.isOverwriteConfirmationActive
         || sessionTransientState.isDeleteConfirmationActive
+        || sessionTransientState.isRevisionBrowseActive
+        || sessionTransientState.isDiffViewActive
       ) return;
       const idx = parseInt((el as HTMLElement).dataset.index!);
       if (Number.isNaN(idx)) return;
       setSessionListPaneFocus("list");
-      void beginLoadConfirmation(ctx, idx);
+      openSelectedSession(ctx, idx);
     });
   });
 
@@ -374,6 +578,8 @@ export function renderSessionList(ctx: SessionContext): void {
         sessionTransientState.isLoadConfirmationActive
         || sessionTransientState.isOverwriteConfirmationActive
         || sessionTransientState.isDeleteConfirmationActive
+        || sessionTransientState.isRevisionBrowseActive
+        || sessionTransientState.isDiffViewActive
       ) return;
       const idx = parseInt((el as HTMLElement).dataset.index!);
       if (Number.isNaN(idx)) return;
@@ -389,8 +595,31 @@ export function renderSessionList(ctx: SessionContext): void {
     renameInput.addEventListener("click", (event) => event.stopPropagation());
   });
 
+  shadow.querySelectorAll(".ht-session-revision-row").forEach((el) => {
+    el.addEventListener("click", () => {
+      const revisionIndex = parseInt((el as HTMLElement).dataset.revisionIndex!);
+      if (Number.isNaN(revisionIndex)) return;
+      setSessionTransientState(selectSessionRevision(sessionTransientState, revisionIndex));
+      ctx.render();
+    });
+  });
+  shadow.querySelectorAll(".ht-session-diff-row").forEach((el) => {
+    el.addEventListener("click", () => {
+      const diffIndex = parseInt((el as HTMLElement).dataset.diffIndex!);
+      if (Number.isNaN(diffIndex)) return;
+      setSessionTransientState(selectSessionDiffRow(sessionTransientState, diffIndex));
+      ctx.render();
+    });
+  });
+  const activeDiffEl = shadow.querySelector(".ht-session-diff-row.active");
+  if (activeDiffEl) activeDiffEl.scrollIntoView({ block: "nearest" });
+  const activeRevisionEl = shadow.querySelector(".ht-session-revision-row.active");
+  if (activeRevisionEl) activeRevisionEl.scrollIntoView({ block: "nearest" });
+
   const activeEl = shadow.querySelector(".ht-session-item.active");
   if (activeEl) activeEl.scrollIntoView({ block: "nearest" });
+  const matchedPreviewEl = shadow.querySelector(".ht-session-preview-item-match");
+  if (matchedPreviewEl) matchedPreviewEl.scrollIntoView({ block: "center" });
 
   const listScroll = shadow.querySelector(".ht-session-list-scroll") as HTMLElement | null;
   if (listScroll) {
@@ -404,6 +633,8 @@ export function renderSessionList(ctx: SessionContext): void {
     && !sessionTransientState.isOverwriteConfirmationActive
     && !sessionTransientState.isDeleteConfirmationActive
     && !sessionTransientState.isLoadConfirmationActive
+    && !sessionTransientState.isRevisionBrowseActive
+    && !sessionTransientState.isDiffViewActive
   ) {
     listScroll.addEventListener("wheel", (event) => {
       event.preventDefault();
@@ -424,6 +655,8 @@ export function renderSessionList(ctx: SessionContext): void {
     && !sessionTransientState.isOverwriteConfirmationActive
     && !sessionTransientState.isDeleteConfirmationActive
     && !sessionTransientState.isLoadConfirmationActive
+    && !sessionTransientState.isRevisionBrowseActive
+    && !sessionTransientState.isDiffViewActive
   ) {
     if (sessionTransientState.sessionListFocusTarget === "filter") {
       setSessionListPaneFocus("filter");
@@ -522,7 +755,7 @@ async function replaceSession(ctx: SessionContext, idx: number): Promise<void> {
     const oldName = ctx.sessions[idx].name;
     const result = await replaceSessionByName(oldName, ctx.pendingSaveName);
     if (result.ok) {
-      showFeedback(toastMessages.sessionSaveReplacing(ctx.pendingSaveName, oldName));
+      showFeedback(toastMessages.sessionSaveReplacing(parseSessionLabel(ctx.pendingSaveName).name, oldName));
     } else {
       showFeedback(result.reason || toastMessages.sessionSaveFailed);
     }
@@ -580,16 +813,22 @@ export function handleReplaceSessionKey(ctx: SessionContext, event: KeyboardEven
   return true;
 }
 
-export async function saveSession(ctx: SessionContext, name: string): Promise<void> {
+export async function saveSession(
+  ctx: SessionContext,
+  name: string,
+  kind?: TabManagerSessionKind,
+): Promise<void> {
   if (!name.trim()) return;
   try {
-    const result = await saveSessionByName(name.trim());
+    const result = kind === "window"
+      ? await saveWindowSessionByName(name.trim())
+      : await saveSessionByName(name.trim());
     if (result.ok) {
       ctx.setPendingSaveName("");
-      showFeedback(toastMessages.sessionSave(name.trim()));
+      showFeedback(toastMessages.sessionSave(parseSessionLabel(name).name));
       ctx.setViewMode("tabManager");
       ctx.render();
-    } else if (result.reason && result.reason.includes(`Max ${MAX_SESSIONS}`)) {
+    } else if (result.reason && result.reason.startsWith("Max ") && kind !== "window") {
       // At capacity — prompt user to pick a session to replace
       ctx.setPendingSaveName(name.trim());
       const sessions = await listSessions();
@@ -616,10 +855,14 @@ export async function saveSession(ctx: SessionContext, name: string): Promise<vo
   }
 }
 
-export async function loadSession(ctx: SessionContext, session: TabManagerSession): Promise<void> {
+export async function loadSession(
+  ctx: SessionContext,
+  session: TabManagerSession,
+  windowOptions?: SessionLoadWindowOptions,
+): Promise<void> {
   try {
     ctx.close();
-    const result = await loadSessionByName(session.name);
+    const result = await loadSessionByName(session.name, windowOptions);
     if (result.ok) {
       const count = result.count ?? 0;
       showFeedback(toastMessages.sessionLoad(session.name, count));
@@ -629,6 +872,21 @@ export async function loadSession(ctx: SessionContext, session: TabManagerSessio
   }
 }
 
+export async function mergeSession(ctx: SessionContext, session: TabManagerSession): Promise<void> {
+  try {
+    ctx.close();
+    const result = await mergeSessionByName(session.name);
+    if (result.ok) {
+      const skipped = (result.duplicateCount ?? 0) + (result.dropCount ?? 0);
+      showFeedback(toastMessages.sessionMerge(session.name, result.count ?? 0, skipped));
+    } else {
+      showFeedback(result.reason || "Merge failed");
+    }
+  } catch (error) {
+    reportSessionError("Merge session failed", "Failed to merge session", error);
+  }
+}
+
 export async function deleteSession(ctx: SessionContext, idx: number): Promise<void> {
   const session = ctx.sessions[idx];
   if (!session) return;
@@ -702,6 +960,20 @@ export function handleSaveSessionKey(ctx: SessionContext, event: KeyboardEvent):
     }
     return true;
   }
+  if (matchesAction(event, ctx.config, "session", "saveWindow")) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (input && !input.value.trim()) {
+      showSaveSessionInlineError(ctx, "A session name is required");
+      return true;
+    }
+    if (input) {
+      void (async () => {
+        await saveSession(ctx, input.value, "window");
+      })();
+    }
+    return true;
+  }
   // Save view keeps text editing local to the input.
   event.stopPropagation();
   return true;
@@ -747,7 +1019,7 @@ export function handleSessionListKey(ctx: SessionContext, event: KeyboardEvent):
             const result = await renameSession(oldName, newName);
             setSessionTransientState(stopSessionRenameMode(sessionTransientState));
             if (result.ok) {
-              showFeedback(toastMessages.sessionRename(newName));
+              showFeedback(toastMessages.sessionRename(parseSessionLabel(newName).name));
               const sessions = await listSessions();
               ctx.setSessions(sessions);
             } else {
@@ -815,10 +1087,71 @@ export function handleSessionListKey(ctx: SessionContext, event: KeyboardEvent):
     } else if (isSessionConfirmNo) {
       setSessionTransientState(stopSessionLoadConfirmation(sessionTransientState));
       ctx.render();
+    } else if (
+      sessionTransientState.pendingLoadSummary?.mode !== "merge"
+      && matchesAction(event, ctx.config, "session", "loadTarget")
+    ) {
+      void cycleLoadTarget(ctx);
+    }
+    return true;
+  }
+
+  if (sessionTransientState.isRevisionBrowseActive) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (matchesAction(event, ctx.config, "tabManager", "moveDown")) {
+      setSessionTransientState(moveSessionRevisionSelection(sessionTransientState, "down"));
+      ctx.render();
+    } else if (matchesAction(event, ctx.config, "tabManager", "moveUp")) {
+      setSessionTransientState(moveSessionRevisionSelection(sessionTransientState, "up"));
+      ctx.render();
+    } else if (matchesAction(event, ctx.config, "tabManager", "jump")) {
+      void confirmRollbackSession(ctx);
+    } else if (
+      matchesAction(event, ctx.config, "tabManager", "close")
+      || matchesAction(event, ctx.config, "session", "history")
+    ) {
+      setSessionTransientState(stopSessionRevisionBrowse(sessionTransientState));
+      ctx.render();
     }
     return true;
   }
 
+  if (sessionTransientState.isDiffViewActive) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (matchesAction(event, ctx.config, "tabManager", "moveDown")) {
+      setSessionTransientState(moveSessionDiffSelection(sessionTransientState, "down"));
+      ctx.render();
+    } else if (matchesAction(event, ctx.config, "tabManager", "moveUp")) {
+      setSessionTransientState(moveSessionDiffSelection(sessionTransientState, "up"));
+      ctx.render();
+    } else if (matchesAction(event, ctx.config, "session", "copyLeft")) {
+      void copySelectedDiffEntry(ctx, "left");
+    } else if (matchesAction(event, ctx.config, "session", "copyRight")) {
+      void copySelectedDiffEntry(ctx, "right");
+    } else if (
+      matchesAction(event, ctx.config, "tabManager", "close")
+      || matchesAction(event, ctx.config, "session", "compare")
+    ) {
+      setSessionTransientState(stopSessionDiffView(sessionTransientState));
+      ctx.render();
+    }
+    return true;
+  }
+
+  // Escape while picking the second session cancels the compare, not the panel.
+  if (
+    sessionTransientState.isComparePickActive
+    && matchesAction(event, ctx.config, "tabManager", "close")
+  ) {
+    event.preventDefault();
+    event.stopPropagation();
+    setSessionTransientState(stopSessionComparePick(sessionTransientState));
+    ctx.render();
+    return true;
+  }
+
   if (matchesAction(event, ctx.config, "session", "clearSearch")) {
     event.preventDefault();
     event.stopPropagation();
@@ -878,7 +1211,7 @@ export function handleSessionListKey(ctx: SessionContext, event: KeyboardEvent):
       event.stopPropagation();
       if (getVisibleSelectedSession()) {
         setSessionTransientState(withSessionListFocusTarget(sessionTransientState, "list"));
-        void beginLoadConfirmation(ctx, ctx.sessionIndex);
+        openSelectedSession(ctx, ctx.sessionIndex);
       }
       return true;
     }
@@ -960,7 +1293,7 @@ export function handleSessionListKey(ctx: SessionContext, event: KeyboardEvent):
     event.stopPropagation();
     if (getVisibleSelectedSession()) {
       setSessionTransientState(withSessionListFocusTarget(sessionTransientState, "list"));
-      void beginLoadConfirmation(ctx, ctx.sessionIndex);
+      openSelectedSession(ctx, ctx.sessionIndex);
     }
     return true;
   }
@@ -970,6 +1303,38 @@ export function handleSessionListKey(ctx: SessionContext, event: KeyboardEvent):
     if (getVisibleSelectedSession()) beginDeleteConfirmation(ctx, ctx.sessionIndex);
     return true;
   }
+  if (matchesAction(event, ctx.config, "session", "history")) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (getVisibleSelectedSession()) {
+      setSessionTransientState(withSessionListFocusTarget(sessionTransientState, "list"));
+      void beginRevisionBrowse(ctx, ctx.sessionIndex);
+    }
+    return true;
+  }
+  if (matchesAction(event, ctx.config, "session", "compare")) {
+    event.preventDefault();
+    event.stopPropagation();
+    const selected = getVisibleSelectedSession();
+    if (!selected) return true;
+    setSessionTransientState(withSessionListFocusTarget(sessionTransientState, "list"));
+    if (sessionTransientState.isComparePickActive) {
+      void beginSessionDiff(ctx, ctx.sessionIndex);
+    } else {
+      setSessionTransientState(startSessionComparePick(sessionTransientState, selected.name));
+      ctx.render();
+    }
+    return true;
+  }
+  if (matchesAction(event, ctx.config, "session", "merge")) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (getVisibleSelectedSession()) {
+      setSessionTransientState(withSessionListFocusTarget(sessionTransientState, "list"));
+      void beginLoadConfirmation(ctx, ctx.sessionIndex, "merge");
+    }
+    return true;
+  }
 
   if (matchesAction(event, ctx.config, "session", "rename")) {
     event.preventDefault();
@@ -11,10 +11,20 @@ import {
 import { escapeHtml } from "../../../common/utils/helpers";
 import { showFeedback } from "../../../common/utils/feedback";
 import { toastMessages } from "../../../common/utils/toastMessages";
-import { listSessions, loadSessionByName } from "../../../adapters/runtime/sessionApi";
+import {
+  getAutoSnapshot,
+  listSessions,
+  loadSessionByName,
+  restoreAutoSnapshot,
+} from "../../../adapters/runtime/sessionApi";
 import { moveVisibleSelectionByDirection, moveVisibleSelectionFromWheel } from "../../../core/panel/panelListController";
 import restoreStyles from "./session.css";
 
+// The auto-saved working set is offered ahead of named sessions.
+type RestoreChoice =
+  | { kind: "snapshot"; snapshot: TabManagerAutoSnapshot }
+  | { kind: "session"; session: TabManagerSession };
+
 function reportSessionError(context: string, feedbackMessage: string, error: unknown): void {
   console.error(`[Harpoon Telescope] ${context}:`, error);
   showFeedback(feedbackMessage);
@@ -22,8 +32,15 @@ function reportSessionError(context: string, feedbackMessage: string, error: unk
 
 export async function openSessionRestoreOverlay(): Promise<void> {
   try {
-    const sessions = await listSessions();
-    if (sessions.length === 0) return;
+    const [sessions, snapshot] = await Promise.all([
+      listSessions(),
+      getAutoSnapshot().catch(() => null),
+    ]);
+    const choices: RestoreChoice[] = [
+      ...(snapshot ? [{ kind: "snapshot" as const, snapshot }] : []),
+      ...sessions.map((session) => ({ kind: "session" as const, session })),
+    ];
+    if (choices.length === 0) return;
 
     const config = await loadKeybindings();
     const { host, shadow } = createPanelHost();
@@ -83,9 +100,18 @@ export async function openSessionRestoreOverlay(): Promise<void> {
           </div>
           <div class="ht-session-restore-list">`;
 
-      for (let i = 0; i < sessions.length; i++) {
-        const session = sessions[i];
+      for (let i = 0; i < choices.length; i++) {
+        const choice = choices[i];
         const cls = i === activeIndex ? "ht-session-restore-item active" : "ht-session-restore-item";
+        if (choice.kind === "snapshot") {
+          const savedAt = new Date(choice.snapshot.savedAt).toLocaleString();
+          html += `<div class="${cls} ht-session-restore-snapshot" data-index="${i}">
+            <div class="ht-session-restore-name">Restore last working set</div>
+            <span class="ht-session-restore-meta">${choice.snapshot.entries.length} tabs &middot; ${escapeHtml(savedAt)}</span>
+          </div>`;
+          continue;
+        }
+        const session = choice.session;
         const date = new Date(session.savedAt).toLocaleDateString();
         html += `<div class="${cls}" data-index="${i}">
           <div class="ht-session-restore-name">${escapeHtml(session.name)}</div>
@@ -111,7 +137,7 @@ export async function openSessionRestoreOverlay(): Promise<void> {
         el.addEventListener("click", () => {
           const idx = parseInt((el as HTMLElement).dataset.index || "", 10);
           if (Number.isNaN(idx)) return;
-          void restoreSession(sessions[idx]);
+          if (choices[idx]) void restoreChoice(choices[idx]);
         });
       });
 
@@ -120,9 +146,8 @@ export async function openSessionRestoreOverlay(): Promise<void> {
         listEl.addEventListener("wheel", (event) => {
           event.preventDefault();
           event.stopPropagation();
-          if (sessions.length === 0) return;
           const next = moveVisibleSelectionFromWheel(
-            sessions.map((_, index) => index),
+            choices.map((_, index) => index),
             activeIndex,
             event.deltaY,
           );
@@ -136,12 +161,18 @@ export async function openSessionRestoreOverlay(): Promise<void> {
       if (activeEl) activeEl.scrollIntoView({ block: "nearest" });
     }
 
-    async function restoreSession(session: TabManagerSession): Promise<void> {
+    async function restoreChoice(choice: RestoreChoice): Promise<void> {
       try {
         close();
-        const result = await loadSessionByName(session.name);
+        if (choice.kind === "snapshot") {
+          const result = await restoreAutoSnapshot();
+          if (result.ok) showFeedback(toastMessages.workingSetRestore(result.count ?? 0));
+          else showFeedback(result.reason || "Failed to restore working set");
+          return;
+        }
+        const result = await loadSessionByName(choice.session.name);
         if (result.ok) {
-          showFeedback(toastMessages.sessionRestore(session.name, result.count ?? 0));
+          showFeedback(toastMessages.sessionRestore(choice.session.name, result.count ?? 0));
         }
       } catch (error) {
         reportSessionError("Restore session failed", "Failed to restore session", error);
@@ -163,14 +194,14 @@ export async function openSessionRestoreOverlay(): Promise<void> {
       if (matchesAction(event, config, "tabManager", "jump")) {
         event.preventDefault();
         event.stopPropagation();
-        if (sessions[activeIndex]) void restoreSession(sessions[activeIndex]);
+        if (choices[activeIndex]) void restoreChoice(choices[activeIndex]);
         return;
       }
       if (matchesAction(event, config, "tabManager", "moveDown")) {
         event.preventDefault();
         event.stopPropagation();
         activeIndex = moveVisibleSelectionByDirection(
-          sessions.map((_, index) => index),
+          choices.map((_, index) => index),
           activeIndex,
           "down",
         );
@@ -181,7 +212,7 @@ export async function openSessionRestoreOverlay(): Promise<void> {
         event.preventDefault();
         event.stopPropagation();
         activeIndex = moveVisibleSelectionByDirection(
-          sessions.map((_, index) => index),
+          choices.map((_, index) => index),
           activeIndex,
           "up",
         );
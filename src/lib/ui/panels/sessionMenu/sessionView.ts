@@ -1,7 +1,22 @@
 import { keyToDisplay } from "../../../common/contracts/keybindings";
 import { footerRowHtml } from "../../../common/utils/panelHost";
-import { escapeHtml, escapeRegex, extractDomain, buildFuzzyPattern } from "../../../common/utils/helpers";
+import {
+  escapeHtml,
+  escapeRegex,
+  extractDomain,
+  buildFuzzyPattern,
+  normalizeUrlForMatch,
+} from "../../../common/utils/helpers";
+import { parseSlashFilterQuery } from "../../../common/utils/filterInput";
 import { hasActiveSessionConfirmation, SessionTransientState } from "../../../core/sessionMenu/sessionCore";
+import { fuzzyMatch } from "../searchCurrentPage/grep/grepScoring";
+
+/** Saved tab that put a session in the filtered list when its name did not match */
+export interface SessionEntryMatch {
+  entryIndex: number;
+  field: "title" | "url";
+  score: number;
+}
 
 function scoreSessionMatch(
   lowerText: string,
@@ -16,28 +31,94 @@ function scoreSessionMatch(
   return -1;
 }
 
+function sessionAnnotationsMatch(session: TabManagerSession, substringRe: RegExp): boolean {
+  return (session.entries || []).some((entry) =>
+    (!!entry.label && substringRe.test(entry.label))
+    || (!!entry.note && substringRe.test(entry.note)));
+}
+
+function sessionNameMatches(name: string, query: string): boolean {
+  const fuzzyRe = buildFuzzyPattern(query);
+  return new RegExp(escapeRegex(query), "i").test(name) || (!!fuzzyRe && fuzzyRe.test(name));
+}
+
+/** Best-scoring saved tab for the query, by title then URL, scored like page grep.
+ *  Null when the query is empty or the session name already matches it. */
+export function getSessionEntryMatch(session: TabManagerSession, query: string): SessionEntryMatch | null {
+  const lowerQuery = query.toLowerCase().replace(/\s+/g, " ").trim();
+  if (!lowerQuery || sessionNameMatches(session.name || "", lowerQuery)) return null;
+  let best: SessionEntryMatch | null = null;
+  (session.entries || []).forEach((entry, entryIndex) => {
+    const titleScore = entry.title ? fuzzyMatch(lowerQuery, entry.title.toLowerCase()) : null;
+    const urlScore = entry.url ? fuzzyMatch(lowerQuery, entry.url.toLowerCase()) : null;
+    const candidate: SessionEntryMatch | null = titleScore !== null && (urlScore === null || titleScore >= urlScore)
+      ? { entryIndex, field: "title", score: titleScore }
+      : urlScore !== null ? { entryIndex, field: "url", score: urlScore } : null;
+    if (candidate && (!best || candidate.score > best.score)) best = candidate;
+  });
+  return best;
+}
+
+/** Leading `/tag` tokens narrow the list to sessions carrying every named tag. */
+export function parseSessionFilterQuery(
+  sessions: TabManagerSession[],
+  rawQuery: string,
+): { tags: string[]; query: string } {
+  const validTags: Record<string, string> = {};
+  for (const session of sessions) {
+    for (const tag of session.tags || []) validTags[`/${tag}`] = tag;
+  }
+  // Tags are stored lowercase; name matching is case-insensitive anyway.
+  const { filters, query } = parseSlashFilterQuery(rawQuery.toLowerCase(), validTags);
+  return { tags: filters, query };
+}
+
+/** Group by folder path (root first), keeping the saved order inside each folder. */
+function orderByFolder(sessions: TabManagerSession[], indices: number[]): number[] {
+  return indices
+    .map((index, position) => ({ index, position, folder: sessions[index].folder || "" }))
+    .sort((a, b) => a.folder.localeCompare(b.folder) || a.position - b.position)
+    .map((item) => item.index);
+}
+
 export function getFilteredSessionIndices(sessions: TabManagerSession[], rawQuery: string): number[] {
-  const trimmedQuery = rawQuery.trim();
-  if (!trimmedQuery) return sessions.map((_, index) => index);
+  const { tags, query: trimmedQuery } = parseSessionFilterQuery(sessions, rawQuery);
+  const candidates = sessions
+    .map((_, index) => index)
+    .filter((index) => tags.every((tag) => sessions[index].tags?.includes(tag)));
+  if (!trimmedQuery) return orderByFolder(sessions, candidates);
 
   const fuzzyRe = buildFuzzyPattern(trimmedQuery);
-  if (!fuzzyRe) return sessions.map((_, index) => index);
+  if (!fuzzyRe) return orderByFolder(sessions, candidates);
 
   const substringRe = new RegExp(escapeRegex(trimmedQuery), "i");
   const queryLower = trimmedQuery.toLowerCase();
-  const ranked: Array<{ index: number; score: number; nameLen: number }> = [];
+  const ranked: Array<{ index: number; score: number; nameLen: number; entryScore?: number }> = [];
 
-  for (let i = 0; i < sessions.length; i++) {
+  for (const i of candidates) {
     const name = sessions[i].name || "";
-    if (!(substringRe.test(name) || fuzzyRe.test(name))) continue;
-
-    const score = scoreSessionMatch(name.toLowerCase(), name, queryLower, fuzzyRe);
-    if (score < 0) continue;
-    ranked.push({ index: i, score, nameLen: name.length });
+    if (substringRe.test(name) || fuzzyRe.test(name)) {
+      const score = scoreSessionMatch(name.toLowerCase(), name, queryLower, fuzzyRe);
+      if (score >= 0) {
+        ranked.push({ index: i, score, nameLen: name.length });
+        continue;
+      }
+    }
+    // Folder paths, entry labels, and notes rank below any name hit and must match as a substring.
+    if (substringRe.test(sessions[i].folder || "") || sessionAnnotationsMatch(sessions[i], substringRe)) {
+      ranked.push({ index: i, score: 4, nameLen: name.length });
+      continue;
+    }
+    // Saved tab titles and URLs rank last, best fuzzy entry score first.
+    const entryMatch = getSessionEntryMatch(sessions[i], trimmedQuery);
+    if (entryMatch) {
+      ranked.push({ index: i, score: 5, nameLen: name.length, entryScore: entryMatch.score });
+    }
   }
 
   ranked.sort((a, b) => {
     if (a.score !== b.score) return a.score - b.score;
+    if ((a.entryScore ?? 0) !== (b.entryScore ?? 0)) return (b.entryScore ?? 0) - (a.entryScore ?? 0);
     if (a.nameLen !== b.nameLen) return a.nameLen - b.nameLen;
     return a.index - b.index;
   });
@@ -74,13 +155,71 @@ export function getSessionListHalfPageStep(shadow: ShadowRoot): number {
   return Math.max(1, Math.floor(rows / 2));
 }
 
+function renderPlanTabLabel(title?: string, url?: string): string {
+  const display = (title || "").trim() || extractDomain(url || "") || "Untitled";
+  return `&ldquo;${escapeHtml(display)}&rdquo;`;
+}
+
+function buildPlanRowHtml(row: SessionLoadSlotDiff): string {
+  if (row.change === "replace") {
+    return `<div class="ht-session-plan-row ht-session-plan-row-replace">
+      <span class="ht-session-plan-sign">~</span>
+      <span class="ht-session-plan-slot">${row.slot}</span>
+      <span class="ht-session-plan-text">${renderPlanTabLabel(row.currentTitle, row.currentUrl)} &rarr; ${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)}</span>
+    </div>`;
+  }
+  if (row.change === "fill") {
+    return `<div class="ht-session-plan-row ht-session-plan-row-add">
+      <span class="ht-session-plan-sign">+</span>
+      <span class="ht-session-plan-slot">${row.slot}</span>
+      <span class="ht-session-plan-text">${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)} (empty slot filled)</span>
+    </div>`;
+  }
+  if (row.change === "duplicate") {
+    return `<div class="ht-session-plan-row ht-session-plan-row-reuse">
+      <span class="ht-session-plan-sign">=</span>
+      <span class="ht-session-plan-slot">${row.slot}</span>
+      <span class="ht-session-plan-text">${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)} already in list (skipped)</span>
+    </div>`;
+  }
+  if (row.change === "drop") {
+    return `<div class="ht-session-plan-row ht-session-plan-row-remove">
+      <span class="ht-session-plan-sign">&times;</span>
+      <span class="ht-session-plan-slot">&ndash;</span>
+      <span class="ht-session-plan-text">${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)} (no free slot)</span>
+    </div>`;
+  }
+  if (row.change === "add") {
+    return `<div class="ht-session-plan-row ht-session-plan-row-add">
+      <span class="ht-session-plan-sign">+</span>
+      <span class="ht-session-plan-slot">${row.slot}</span>
+      <span class="ht-session-plan-text">${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)} (new tab)</span>
+    </div>`;
+  }
+  return `<div class="ht-session-plan-row ht-session-plan-row-remove">
+    <span class="ht-session-plan-sign">-</span>
+    <span class="ht-session-plan-slot">${row.slot}</span>
+    <span class="ht-session-plan-text">${renderPlanTabLabel(row.currentTitle, row.currentUrl)} (slot cleared)</span>
+  </div>`;
+}
+
+function describeLoadWindow(windowOptions: SessionLoadWindowOptions | null): string {
+  if (!windowOptions?.newWindow) return "current window";
+  return windowOptions.closeBlankTab ? "new window" : "new window, keep blank tab";
+}
+
 export function buildLoadSummaryHtml(
   summary: SessionLoadSummary,
   confirmKey: string,
   cancelKey: string,
+  windowOptions: SessionLoadWindowOptions | null = null,
+  loadTargetKey = "",
 ): string {
+  const isMerge = summary.mode === "merge";
+  // Dropped merge rows have no slot (0); list them after every slotted row.
+  const slotOrder = (row: SessionLoadSlotDiff): number => row.slot || Number.MAX_SAFE_INTEGER;
   const slotDiffs = Array.isArray(summary.slotDiffs)
-    ? [...summary.slotDiffs].sort((a, b) => a.slot - b.slot)
+    ? [...summary.slotDiffs].sort((a, b) => slotOrder(a) - slotOrder(b))
     : [];
   const reuseMatches = Array.isArray(summary.reuseMatches) ? summary.reuseMatches : [];
   const reuseBySlot = new Map<number, SessionLoadReuseMatch>();
@@ -88,11 +227,6 @@ export function buildLoadSummaryHtml(
     reuseBySlot.set(match.slot, match);
   }
 
-  const renderTabLabel = (title?: string, url?: string): string => {
-    const display = (title || "").trim() || extractDomain(url || "") || "Untitled";
-    return `&ldquo;${escapeHtml(display)}&rdquo;`;
-  };
-
   const planRowsHtml = slotDiffs.length === 0
     ? `<div class="ht-session-plan-empty">No slot changes detected.</div>`
     : slotDiffs.map((row) => {
@@ -101,40 +235,33 @@ export function buildLoadSummaryHtml(
         return `<div class="ht-session-plan-row ht-session-plan-row-reuse">
           <span class="ht-session-plan-sign">=</span>
           <span class="ht-session-plan-slot">${row.slot}</span>
-          <span class="ht-session-plan-text">Session ${renderTabLabel(match.sessionTitle, match.sessionUrl)} &harr; Current ${renderTabLabel(match.openTabTitle, match.openTabUrl)}</span>
-        </div>`;
-      }
-      if (row.change === "replace") {
-        return `<div class="ht-session-plan-row ht-session-plan-row-replace">
-          <span class="ht-session-plan-sign">~</span>
-          <span class="ht-session-plan-slot">${row.slot}</span>
-          <span class="ht-session-plan-text">${renderTabLabel(row.currentTitle, row.currentUrl)} &rarr; ${renderTabLabel(row.incomingTitle, row.incomingUrl)}</span>
+          <span class="ht-session-plan-text">Session ${renderPlanTabLabel(match.sessionTitle, match.sessionUrl)} &harr; Current ${renderPlanTabLabel(match.openTabTitle, match.openTabUrl)}</span>
         </div>`;
       }
-      if (row.change === "add") {
-        return `<div class="ht-session-plan-row ht-session-plan-row-add">
-          <span class="ht-session-plan-sign">+</span>
-          <span class="ht-session-plan-slot">${row.slot}</span>
-          <span class="ht-session-plan-text">${renderTabLabel(row.incomingTitle, row.incomingUrl)} (new tab)</span>
-        </div>`;
-      }
-      return `<div class="ht-session-plan-row ht-session-plan-row-remove">
-        <span class="ht-session-plan-sign">-</span>
-        <span class="ht-session-plan-slot">${row.slot}</span>
-        <span class="ht-session-plan-text">${renderTabLabel(row.currentTitle, row.currentUrl)} (slot cleared)</span>
-      </div>`;
+      return buildPlanRowHtml(row);
     }).join("");
 
+  const totalsHtml = isMerge
+    ? `FILLED <strong>(+)</strong> ${summary.openCount} &middot; DUPLICATE <strong>(=)</strong> ${summary.duplicateCount ?? 0} &middot; DROPPED <strong>(&times;)</strong> ${summary.dropCount ?? 0}`
+    : `NEW <strong>(+)</strong> &middot; DELETED <strong>(-)</strong> &middot; REPLACED <strong>(~)</strong> &middot; UNCHANGED <strong>(=)</strong>`;
+
   return `<div class="ht-session-confirm">
-      <div class="ht-session-confirm-icon">&#x21bb;</div>
+      <div class="ht-session-confirm-icon">${isMerge ? "&#x2295;" : "&#x21bb;"}</div>
       <div class="ht-session-confirm-msg">
-        Load <span class="ht-session-confirm-title">&ldquo;${escapeHtml(summary.sessionName)}&rdquo;</span>?
+        ${isMerge ? "Merge" : "Load"} <span class="ht-session-confirm-title">&ldquo;${escapeHtml(summary.sessionName)}&rdquo;</span>${isMerge ? " into the current list" : ""}?
         <div class="ht-session-confirm-path">${summary.totalCount} saved ${pluralize(summary.totalCount, "tab")}</div>
       </div>
       <div class="ht-session-plan-totals">
-        NEW <strong>(+)</strong> &middot; DELETED <strong>(-)</strong> &middot; REPLACED <strong>(~)</strong> &middot; UNCHANGED <strong>(=)</strong>
+        ${totalsHtml}
       </div>
       <div class="ht-session-plan-list">${planRowsHtml}</div>
+      ${!isMerge && summary.extraCount ? `<div class="ht-session-plan-extra">
+        +${summary.extraCount} more window ${pluralize(summary.extraCount, "tab")} reopen without a slot
+      </div>` : ""}
+      ${!isMerge && loadTargetKey ? `<div class="ht-session-plan-target">
+        Open in <strong>${describeLoadWindow(windowOptions)}</strong>${windowOptions?.newWindow ? " &middot; only tabs already in it are reused" : ""}
+        &middot; <span class="ht-confirm-key">${escapeHtml(loadTargetKey)}</span> change
+      </div>` : ""}
       <div class="ht-session-confirm-hint">
         <span class="ht-confirm-key ht-confirm-key-yes">${escapeHtml(confirmKey)}</span> confirm
         &middot;
@@ -143,6 +270,142 @@ export function buildLoadSummaryHtml(
     </div>`;
 }
 
+const REVISION_REASON_LABELS: Record<SessionRevisionReason, string> = {
+  update: "overwritten",
+  replace: "replaced",
+  import: "import overwrote",
+  rollback: "rolled back",
+  copy: "entries copied in",
+};
+
+function formatRevisionDiff(diff: SessionRevisionDiffSummary): string {
+  const parts: string[] = [];
+  if (diff.added) parts.push(`+${diff.added}`);
+  if (diff.removed) parts.push(`-${diff.removed}`);
+  if (diff.replaced) parts.push(`~${diff.replaced}`);
+  if (diff.unchanged) parts.push(`=${diff.unchanged}`);
+  return parts.join(" ") || "no slot changes";
+}
+
+/** Revision browser: revision list with the slot diffs a rollback to the selected one applies */
+export function buildRevisionBrowserHtml(
+  sessionName: string,
+  revisions: SessionRevisionView[],
+  selectedIndex: number,
+  rollbackKey: string,
+  closeKey: string,
+): string {
+  if (revisions.length === 0) {
+    return `<div class="ht-session-confirm">
+      <div class="ht-session-confirm-icon">&#x21ba;</div>
+      <div class="ht-session-confirm-msg">
+        No earlier versions of <span class="ht-session-confirm-title">&ldquo;${escapeHtml(sessionName)}&rdquo;</span>
+        <div class="ht-session-confirm-path">Overwriting or replacing it keeps the previous version here.</div>
+      </div>
+      <div class="ht-session-confirm-hint">
+        <span class="ht-confirm-key ht-confirm-key-no">${escapeHtml(closeKey)}</span> back
+      </div>
+    </div>`;
+  }
+
+  const selected = revisions[selectedIndex] ?? revisions[0];
+  const revisionRowsHtml = revisions.map((revision, index) => {
+    const when = new Date(revision.replacedAt).toLocaleString();
+    const cls = index === selectedIndex ? "ht-session-revision-row active" : "ht-session-revision-row";
+    return `<div class="${cls}" data-revision-index="${index}">
+      <span class="ht-session-revision-when">${escapeHtml(when)}</span>
+      <span class="ht-session-revision-meta">${REVISION_REASON_LABELS[revision.reason] ?? revision.reason} &middot; ${revision.entries.length} ${pluralize(revision.entries.length, "tab")} &middot; ${formatRevisionDiff(revision.diff)}</span>
+    </div>`;
+  }).join("");
+
+  const planRowsHtml = selected.slotDiffs.length === 0
+    ? `<div class="ht-session-plan-empty">Same as the saved session.</div>`
+    : selected.slotDiffs.map((row) => {
+      const unchanged = row.change === "replace"
+        && normalizeUrlForMatch(row.currentUrl || "") === normalizeUrlForMatch(row.incomingUrl || "");
+      if (!unchanged) return buildPlanRowHtml(row);
+      return `<div class="ht-session-plan-row ht-session-plan-row-reuse">
+        <span class="ht-session-plan-sign">=</span>
+        <span class="ht-session-plan-slot">${row.slot}</span>
+        <span class="ht-session-plan-text">${renderPlanTabLabel(row.incomingTitle, row.incomingUrl)}</span>
+      </div>`;
+    }).join("");
+
+  return `<div class="ht-session-confirm">
+      <div class="ht-session-confirm-icon">&#x21ba;</div>
+      <div class="ht-session-confirm-msg">
+        History of <span class="ht-session-confirm-title">&ldquo;${escapeHtml(sessionName)}&rdquo;</span>
+        <div class="ht-session-confirm-path">${revisions.length} earlier ${pluralize(revisions.length, "version")}, newest first</div>
+      </div>
+      <div class="ht-session-revision-list">${revisionRowsHtml}</div>
+      <div class="ht-session-plan-totals">
+        Rolling back changes the saved session: NEW <strong>(+)</strong> &middot; DELETED <strong>(-)</strong> &middot; REPLACED <strong>(~)</strong> &middot; UNCHANGED <strong>(=)</strong>
+      </div>
+      <div class="ht-session-plan-list">${planRowsHtml}</div>
+      <div class="ht-session-confirm-hint">
+        <span class="ht-confirm-key ht-confirm-key-yes">${escapeHtml(rollbackKey)}</span> roll back
+        &middot;
+        <span class="ht-confirm-key ht-confirm-key-no">${escapeHtml(closeKey)}</span> back
+      </div>
+    </div>`;
+}
+
+const DIFF_SIGNS: Record<SessionDiffChange, string> = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+  same: "=",
+};
+
+function renderDiffCell(entry: TabManagerSessionEntry | undefined): string {
+  if (!entry) return `<span class="ht-session-diff-cell ht-session-diff-cell-empty">&ndash;</span>`;
+  return `<span class="ht-session-diff-cell" title="${escapeHtml(entry.url)}">${renderPlanTabLabel(entry.label || entry.title, entry.url)}</span>`;
+}
+
+/** Side-by-side diff of two saved sessions; the selected row is what the copy keys act on */
+export function buildSessionDiffHtml(
+  leftName: string,
+  rightName: string,
+  rows: SessionDiffRow[],
+  selectedIndex: number,
+  copyLeftKey: string,
+  copyRightKey: string,
+  closeKey: string,
+): string {
+  const counts: Record<SessionDiffChange, number> = { added: 0, removed: 0, changed: 0, same: 0 };
+  for (const row of rows) counts[row.change]++;
+
+  const rowsHtml = rows.length === 0
+    ? `<div class="ht-session-plan-empty">Both sessions are empty.</div>`
+    : rows.map((row, index) => {
+      const cls = `ht-session-diff-row ht-session-diff-row-${row.change}${index === selectedIndex ? " active" : ""}`;
+      return `<div class="${cls}" data-diff-index="${index}">
+        <span class="ht-session-plan-sign">${DIFF_SIGNS[row.change]}</span>
+        ${renderDiffCell(row.left)}
+        ${renderDiffCell(row.right)}
+      </div>`;
+    }).join("");
+
+  return `<div class="ht-session-confirm">
+      <div class="ht-session-confirm-icon">&#x21c4;</div>
+      <div class="ht-session-confirm-msg">
+        <span class="ht-session-confirm-title">&ldquo;${escapeHtml(leftName)}&rdquo;</span> vs <span class="ht-session-confirm-title">&ldquo;${escapeHtml(rightName)}&rdquo;</span>
+        <div class="ht-session-confirm-path">Matched by URL, left to right</div>
+      </div>
+      <div class="ht-session-plan-totals">
+        ADDED <strong>(+)</strong> ${counts.added} &middot; REMOVED <strong>(-)</strong> ${counts.removed} &middot; CHANGED <strong>(~)</strong> ${counts.changed} &middot; SAME <strong>(=)</strong> ${counts.same}
+      </div>
+      <div class="ht-session-diff-list">${rowsHtml}</div>
+      <div class="ht-session-confirm-hint">
+        <span class="ht-confirm-key">${escapeHtml(copyLeftKey)}</span> copy into left
+        &middot;
+        <span class="ht-confirm-key">${escapeHtml(copyRightKey)}</span> copy into right
+        &middot;
+        <span class="ht-confirm-key ht-confirm-key-no">${escapeHtml(closeKey)}</span> back
+      </div>
+    </div>`;
+}
+
 export function buildOverwriteConfirmationHtml(
   session: TabManagerSession | undefined,
   confirmKey: string,
@@ -188,20 +451,40 @@ export function buildDeleteConfirmationHtml(
 export interface SessionPreviewEntryLike {
   title?: string;
   url?: string;
+  label?: string;
+  note?: string;
+  pinned?: boolean;
+  anchorSlot?: number;
 }
 
-export function buildPreviewEntriesHtml(entries: SessionPreviewEntryLike[], emptyText: string): string {
+/** Window snapshots number only their anchored tabs; the rest show a dot in the slot column.
+ *  The entry a session search matched is highlighted (matchedEntryIndex, -1 for none). */
+export function buildPreviewEntriesHtml(
+  entries: SessionPreviewEntryLike[],
+  emptyText: string,
+  windowSnapshot = false,
+  matchedEntryIndex = -1,
+): string {
   let html = `<div class="ht-session-preview-list">`;
   if (entries.length === 0) {
     html += `<div class="ht-session-preview-empty">${escapeHtml(emptyText)}</div>`;
   } else {
     for (let i = 0; i < entries.length; i++) {
       const entry = entries[i];
-      html += `<div class="ht-session-preview-item">
-        <span class="ht-session-preview-slot">${i + 1}</span>
+      const slotHtml = !windowSnapshot
+        ? `<span class="ht-session-preview-slot">${i + 1}</span>`
+        : entry.anchorSlot != null
+          ? `<span class="ht-session-preview-slot ht-session-preview-slot-anchored">${entry.anchorSlot}</span>`
+          : `<span class="ht-session-preview-slot">&middot;</span>`;
+      const itemCls = i === matchedEntryIndex
+        ? "ht-session-preview-item ht-session-preview-item-match"
+        : "ht-session-preview-item";
+      html += `<div class="${itemCls}">
+        ${slotHtml}
         <div class="ht-session-preview-info">
-          <div class="ht-session-preview-title">${escapeHtml(entry.title || "Untitled")}</div>
-          <div class="ht-session-preview-url">${escapeHtml(extractDomain(entry.url || ""))}</div>
+          <div class="ht-session-preview-title">${escapeHtml(entry.label || entry.title || "Untitled")}</div>
+          <div class="ht-session-preview-url">${escapeHtml(extractDomain(entry.url || ""))}${entry.pinned ? " &middot; pinned" : ""}</div>
+          ${entry.note ? `<div class="ht-session-preview-note">${escapeHtml(entry.note)}</div>` : ""}
         </div>
       </div>`;
     }
@@ -210,9 +493,17 @@ export function buildPreviewEntriesHtml(entries: SessionPreviewEntryLike[], empt
   return html;
 }
 
-export function buildSessionPreviewHtml(session: TabManagerSession | undefined): string {
+export function buildSessionPreviewHtml(
+  session: TabManagerSession | undefined,
+  matchedEntryIndex = -1,
+): string {
   if (!session) return "";
-  return buildPreviewEntriesHtml(session.entries, "No tabs in this session.");
+  return buildPreviewEntriesHtml(
+    session.entries,
+    "No tabs in this session.",
+    session.kind === "window",
+    matchedEntryIndex,
+  );
 }
 
 export function buildSessionPreviewPaneHtml(
@@ -232,8 +523,10 @@ export function buildSessionPreviewPaneHtml(
 }
 
 export function buildSaveSessionFooterHtml(config: KeybindingsConfig, saveKey: string, closeKey: string): string {
+  const saveWindowKey = keyToDisplay(config.bindings.session.saveWindow.key);
   return footerRowHtml([
     { key: saveKey, desc: "save" },
+    { key: saveWindowKey, desc: "save whole window" },
     { key: closeKey, desc: "close" },
   ]);
 }
@@ -253,6 +546,9 @@ export function buildSessionListFooterHtml(
   const clearSearchKey = keyToDisplay(config.bindings.session.clearSearch.key);
   const renameKey = keyToDisplay(config.bindings.session.rename.key);
   const overwriteKey = keyToDisplay(config.bindings.session.overwrite.key);
+  const mergeKey = keyToDisplay(config.bindings.session.merge.key);
+  const historyKey = keyToDisplay(config.bindings.session.history.key);
+  const compareKey = keyToDisplay(config.bindings.session.compare.key);
   const removeKey = keyToDisplay(config.bindings.tabManager.remove.key);
   const loadKey = keyToDisplay(config.bindings.tabManager.jump.key);
   const closeKey = keyToDisplay(config.bindings.tabManager.close.key);
@@ -266,6 +562,14 @@ export function buildSessionListFooterHtml(
       { key: `${moveUpKey}/${moveDownKey}`, desc: "nav" },
     ];
 
+  if (transientState.isComparePickActive) {
+    return `${footerRowHtml(navHints)}
+    ${footerRowHtml([
+      { key: `${loadKey}/${compareKey}`, desc: "compare with selected" },
+      { key: closeKey, desc: "cancel" },
+    ])}`;
+  }
+
   return `${footerRowHtml(navHints)}
     ${footerRowHtml([
       { key: focusListKey, desc: "list" },
@@ -275,6 +579,9 @@ export function buildSessionListFooterHtml(
       { key: overwriteKey, desc: "overwrite" },
       { key: removeKey, desc: "del" },
       { key: loadKey, desc: "load" },
+      { key: mergeKey, desc: "merge" },
+      { key: historyKey, desc: "history" },
+      { key: compareKey, desc: "compare" },
       { key: closeKey, desc: "close" },
     ])}`;
 }
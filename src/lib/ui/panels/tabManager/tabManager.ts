@@ -1,7 +1,13 @@
-// Tab Manager overlay — curated list of up to 4 tabs with scroll memory.
-// Supports arrow and built-in j/k navigation, numeric jumps, swap mode, and undo.
+// Tab Manager overlay — curated list of up to the configured slot count with scroll memory.
+// Supports arrow and built-in j/k navigation, numeric jumps, swap mode, inline label/note
+// editing, and undo/redo of any list change through the background history.
 
-import { MAX_TAB_MANAGER_SLOTS, matchesAction, keyToDisplay } from "../../../common/contracts/keybindings";
+import {
+  getTabManagerSlotCount,
+  isLocalMarkName,
+  matchesAction,
+  keyToDisplay,
+} from "../../../common/contracts/keybindings";
 import {
   createPanelHost,
   removePanelHost,
@@ -16,11 +22,17 @@ import { showFeedback } from "../../../common/utils/feedback";
 import { toastMessages } from "../../../common/utils/toastMessages";
 import tabManagerStyles from "./tabManager.css";
 import {
+  annotateTabManagerEntry,
+  jumpToTabManagerMark,
   jumpToTabManagerSlot,
   listTabManagerEntries,
   listTabManagerEntriesWithRetry,
+  listTabManagerWorkspaces,
   removeTabManagerEntry,
+  redoTabManagerChange,
   reorderTabManagerEntries,
+  toggleTabManagerLock,
+  undoTabManagerChange,
 } from "../../../adapters/runtime/tabManagerApi";
 import {
   movePanelListIndex,
@@ -44,13 +56,22 @@ export async function openTabManager(
 
     let list = await listTabManagerEntriesWithRetry();
     let activeIndex = 0;
+    const slotCount = getTabManagerSlotCount(config);
+    // Name the active workspace in the title once the user has more than one.
+    const workspaces = await listTabManagerWorkspaces().catch(() => []);
+    const activeWorkspace = workspaces.length > 1
+      ? workspaces.find((workspace) => workspace.active)?.name ?? null
+      : null;
 
     // Swap mode keeps the source slot selected until a target is chosen.
     let swapMode = false;
     let swapSourceIndex: number | null = null;
 
-    // Single-step undo for the most recent delete action.
-    let undoEntry: { entry: TabManagerEntry; index: number } | null = null;
+    // The jumpToMark key (default `'`) then a-z jumps to that mark on the selected slot.
+    let markJumpPending = false;
+
+    // Inline editor for the selected row's label or note; Enter saves, Escape cancels.
+    let editField: TabManagerAnnotationField | null = null;
 
     const moveUpKey = keyToDisplay(config.bindings.tabManager.moveUp.key);
     const moveDownKey = keyToDisplay(config.bindings.tabManager.moveDown.key);
@@ -58,6 +79,11 @@ export async function openTabManager(
     const removeKey = keyToDisplay(config.bindings.tabManager.remove.key);
     const swapKey = keyToDisplay(config.bindings.tabManager.swap.key);
     const undoKey = keyToDisplay(config.bindings.tabManager.undo.key);
+    const redoKey = keyToDisplay(config.bindings.tabManager.redo.key);
+    const lockKey = keyToDisplay(config.bindings.tabManager.lock.key);
+    const labelKey = keyToDisplay(config.bindings.tabManager.label.key);
+    const noteKey = keyToDisplay(config.bindings.tabManager.note.key);
+    const markKey = keyToDisplay(config.bindings.tabManager.jumpToMark.key);
     const closeKey = keyToDisplay(config.bindings.tabManager.close.key);
 
     function close(): void {
@@ -84,6 +110,12 @@ export async function openTabManager(
     }
 
     function buildTabManagerFooterHtml(): string {
+      if (editField) {
+        return footerRowHtml([
+          { key: "Enter", desc: `save ${editField}` },
+          { key: "Escape", desc: "cancel" },
+        ]);
+      }
       const navHints = config.navigationMode === "standard"
         ? [
           { key: "j/k", desc: "nav" },
@@ -96,7 +128,10 @@ export async function openTabManager(
 
       return `${footerRowHtml(navHints)}
       ${footerRowHtml([
-        { key: undoKey, desc: "undo" },
+        { key: `${markKey}a-z`, desc: "mark" },
+        { key: `${undoKey}/${redoKey}`, desc: "undo/redo" },
+        { key: lockKey, desc: "lock" },
+        { key: `${labelKey}/${noteKey}`, desc: "label/note" },
         { key: swapKey, desc: "swap", active: swapMode },
         { key: removeKey, desc: "del" },
         { key: jumpKey, desc: "jump" },
@@ -116,7 +151,7 @@ export async function openTabManager(
 
     function renderTabManager(): void {
       const titleText = !swapMode
-        ? "Tab Manager"
+        ? activeWorkspace ? `Tab Manager — ${escapeHtml(activeWorkspace)}` : "Tab Manager"
         : swapSourceIndex === null
           ? "Select source item"
           : "Select target to swap";
@@ -132,19 +167,41 @@ export async function openTabManager(
           </div>
           <div class="ht-tab-manager-list">`;
 
-      for (let i = 0; i < MAX_TAB_MANAGER_SLOTS; i++) {
+      for (let i = 0; i < slotCount; i++) {
         const item = list[i];
         if (item) {
           const shortUrl = extractDomain(item.url);
+          const markNames = Object.keys(item.marks || {}).sort();
+          const marksHtml = markNames.length > 0
+            ? `<div class="ht-tab-manager-item-marks">${
+              markNames.map((name) => `<span class="ht-tab-manager-mark">'${escapeHtml(name)}</span>`).join("")
+            }</div>`
+            : "";
+          const lockHtml = item.locked
+            ? `<span class="ht-tab-manager-lock" title="Locked to this URL">locked</span>`
+            : "";
           const classes = ["ht-tab-manager-item"];
           if (i === activeIndex) classes.push("active");
           if (i === swapSourceIndex) classes.push("swap-source");
           if (item.closed) classes.push("closed");
+          const editing = editField != null && i === activeIndex;
+          const titleHtml = editing && editField === "label"
+            ? editInputHtml("label", item.label, item.title || "Untitled")
+            : `<div class="ht-tab-manager-item-title"${
+              item.label ? ` title="${escapeHtml(item.title || "")}"` : ""
+            }>${escapeHtml(item.label || item.title || "Untitled")}</div>`;
+          const noteHtml = editing && editField === "note"
+            ? editInputHtml("note", item.note, "Add a note")
+            : item.note
+              ? `<div class="ht-tab-manager-item-note">${escapeHtml(item.note)}</div>`
+              : "";
           html += `<div class="${classes.join(" ")}" data-index="${i}">
             <span class="ht-tab-manager-slot">${item.slot}</span>
             <div class="ht-tab-manager-info">
-              <div class="ht-tab-manager-item-title">${escapeHtml(item.title || "Untitled")}</div>
-              <div class="ht-tab-manager-item-url">${escapeHtml(shortUrl)}</div>
+              ${titleHtml}
+              <div class="ht-tab-manager-item-url">${lockHtml}${escapeHtml(shortUrl)}</div>
+              ${noteHtml}
+              ${marksHtml}
             </div>
             <button class="ht-tab-manager-delete" data-tab-id="${item.tabId}" title="Remove">\u00d7</button>
           </div>`;
@@ -194,8 +251,6 @@ export async function openTabManager(
           event.stopPropagation();
           try {
             const tabId = parseInt((el as HTMLElement).dataset.tabId!);
-            const idx = list.findIndex((item) => item.tabId === tabId);
-            if (idx !== -1) undoEntry = { entry: { ...list[idx] }, index: idx };
             await removeTabManagerEntry(tabId);
             list = await listTabManagerEntries();
             activeIndex = Math.min(activeIndex, Math.max(list.length - 1, 0));
@@ -210,12 +265,19 @@ export async function openTabManager(
       const activeEl = shadow.querySelector(".ht-tab-manager-item.active");
       if (activeEl) activeEl.scrollIntoView({ block: "nearest" });
 
+      const editInput = shadow.querySelector(".ht-tab-manager-edit-input") as HTMLInputElement | null;
+      if (editInput) {
+        editInput.addEventListener("click", (event) => event.stopPropagation());
+        editInput.focus();
+        editInput.setSelectionRange(editInput.value.length, editInput.value.length);
+      }
+
       const listEl = shadow.querySelector(".ht-tab-manager-list") as HTMLElement | null;
       if (listEl) {
         listEl.addEventListener("wheel", (event) => {
           event.preventDefault();
           event.stopPropagation();
-          if (list.length === 0) return;
+          if (list.length === 0 || editField) return;
           const next = movePanelListIndexFromWheel(list.length, activeIndex, event.deltaY);
           if (swapMode) {
             activeIndex = next;
@@ -231,6 +293,45 @@ export async function openTabManager(
       renderTabManager();
     }
 
+    function editInputHtml(field: TabManagerAnnotationField, value: string | undefined, placeholder: string): string {
+      return `<input type="text" class="ht-tab-manager-edit-input" data-field="${field}"
+        maxlength="${field === "label" ? 60 : 200}" placeholder="${escapeHtml(placeholder)}"
+        value="${escapeHtml(value || "")}">`;
+    }
+
+    function startEdit(field: TabManagerAnnotationField): void {
+      if (swapMode || !list[activeIndex]) return;
+      markJumpPending = false;
+      editField = field;
+      render();
+    }
+
+    function cancelEdit(): void {
+      editField = null;
+      render();
+      host.focus();
+    }
+
+    async function commitEdit(): Promise<void> {
+      const field = editField;
+      const item = list[activeIndex];
+      const editInput = shadow.querySelector(".ht-tab-manager-edit-input") as HTMLInputElement | null;
+      editField = null;
+      if (!field || !item || !editInput) {
+        render();
+        return;
+      }
+      try {
+        const result = await annotateTabManagerEntry(item.tabId, field, editInput.value);
+        if (!result.ok) showFeedback(result.reason || toastMessages.tabManagerActionFailed);
+        list = await listTabManagerEntries();
+        render();
+        host.focus();
+      } catch (error) {
+        failToSafeTabManagerState("Edit tab-manager entry failed", error);
+      }
+    }
+
     /** Toggle .active class without rebuilding the DOM (arrow key navigation) */
     function setActiveIndex(newIndex: number): void {
       if (newIndex === activeIndex) return;
@@ -279,6 +380,49 @@ export async function openTabManager(
       }
     }
 
+    async function jumpToMark(item: TabManagerEntry, mark: string): Promise<void> {
+      close();
+      try {
+        const result = await jumpToTabManagerMark(mark, item.slot);
+        if (!result.ok) showFeedback(result.reason || toastMessages.markActionFailed);
+      } catch (error) {
+        console.error("[Harpoon Telescope] Jump to mark failed:", error);
+        showFeedback(toastMessages.tabManagerJumpFailed);
+      }
+    }
+
+    async function toggleLock(item: TabManagerEntry): Promise<void> {
+      try {
+        const result = await toggleTabManagerLock(item.tabId);
+        if (!result.ok) {
+          showFeedback(result.reason || toastMessages.tabManagerActionFailed);
+          return;
+        }
+        showFeedback(toastMessages.tabManagerLock(item.slot, result.locked === true));
+        list = await listTabManagerEntries();
+        render();
+      } catch (error) {
+        failToSafeTabManagerState("Toggle tab-manager lock failed", error);
+      }
+    }
+
+    async function stepHistory(direction: "undo" | "redo"): Promise<void> {
+      try {
+        const result = direction === "undo"
+          ? await undoTabManagerChange()
+          : await redoTabManagerChange();
+        if (!result.ok) {
+          if (result.reason) showFeedback(result.reason);
+          return;
+        }
+        list = await listTabManagerEntries();
+        activeIndex = Math.min(activeIndex, Math.max(list.length - 1, 0));
+        render();
+      } catch (error) {
+        failToSafeTabManagerState(`Tab-manager ${direction} failed`, error);
+      }
+    }
+
     async function jumpToSlot(item: TabManagerEntry): Promise<void> {
       if (!item) return;
       close();
@@ -337,10 +481,38 @@ export async function openTabManager(
         }
       }
 
+      // While editing, only Enter/Escape are ours; other keys type into the input.
+      if (editField) {
+        if (event.key === "Enter" || event.key === "Escape") {
+          event.preventDefault();
+          event.stopPropagation();
+          if (event.key === "Enter") void commitEdit();
+          else cancelEdit();
+          return;
+        }
+        event.stopPropagation();
+        return;
+      }
+
+      const plainKey = !event.ctrlKey && !event.altKey && !event.metaKey;
+      if (markJumpPending && plainKey && event.key !== "Shift") {
+        event.preventDefault();
+        event.stopPropagation();
+        markJumpPending = false;
+        if (isLocalMarkName(event.key) && list[activeIndex]) jumpToMark(list[activeIndex], event.key);
+        return;
+      }
+      if (!swapMode && matchesAction(event, config, "tabManager", "jumpToMark")) {
+        event.preventDefault();
+        event.stopPropagation();
+        markJumpPending = list[activeIndex] != null;
+        return;
+      }
+
       // Numeric shortcuts jump directly by stable slot number, not row index.
       if (!event.ctrlKey && !event.altKey && !event.shiftKey && !event.metaKey) {
         const num = parseInt(event.key);
-        if (num >= 1 && num <= MAX_TAB_MANAGER_SLOTS) {
+        if (num >= 1 && num <= slotCount) {
           event.preventDefault();
           event.stopPropagation();
           const item = list.find((it) => it.slot === num);
@@ -409,7 +581,6 @@ export async function openTabManager(
         if (list[activeIndex]) {
           (async () => {
             try {
-              undoEntry = { entry: { ...list[activeIndex] }, index: activeIndex };
               await removeTabManagerEntry(list[activeIndex].tabId);
               list = await listTabManagerEntries();
               activeIndex = Math.min(
@@ -422,28 +593,28 @@ export async function openTabManager(
             }
           })();
         }
+      } else if (matchesAction(event, config, "tabManager", "lock")) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (!swapMode && list[activeIndex]) void toggleLock(list[activeIndex]);
+      } else if (matchesAction(event, config, "tabManager", "label")) {
+        event.preventDefault();
+        event.stopPropagation();
+        startEdit("label");
+      } else if (matchesAction(event, config, "tabManager", "note")) {
+        event.preventDefault();
+        event.stopPropagation();
+        startEdit("note");
       } else if (matchesAction(event, config, "tabManager", "undo")) {
         event.preventDefault();
         event.stopPropagation();
-        if (!undoEntry) return;
-        if (list.length >= MAX_TAB_MANAGER_SLOTS) {
-          undoEntry = null;
-          showFeedback(toastMessages.tabManagerFull(MAX_TAB_MANAGER_SLOTS));
-          return;
-        }
-        (async () => {
-          try {
-            const restoreIdx = Math.min(undoEntry!.index, list.length);
-            list.splice(restoreIdx, 0, undoEntry!.entry);
-            undoEntry = null;
-            await reorderTabManagerEntries(list);
-            list = await listTabManagerEntries();
-            activeIndex = restoreIdx;
-            render();
-          } catch (error) {
-            failToSafeTabManagerState("Undo tab-manager remove failed", error);
-          }
-        })();
+        if (swapMode) exitSwapMode();
+        void stepHistory("undo");
+      } else if (matchesAction(event, config, "tabManager", "redo")) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (swapMode) exitSwapMode();
+        void stepHistory("redo");
       } else {
         // Keep host-page shortcuts from firing while panel key handler is active.
         event.stopPropagation();
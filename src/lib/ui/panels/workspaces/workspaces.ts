@@ -0,0 +1,386 @@
+// Workspaces overlay — switch between named Tab Manager lists without closing tabs.
+// Typing a name that does not exist offers to create it as a new, empty list.
+
+import { matchesAction, keyToDisplay } from "../../../common/contracts/keybindings";
+import {
+  createPanelHost,
+  removePanelHost,
+  registerPanelCleanup,
+  getBaseStyles,
+  footerRowHtml,
+  vimBadgeHtml,
+  dismissPanel,
+} from "../../../common/utils/panelHost";
+import { escapeHtml } from "../../../common/utils/helpers";
+import { showFeedback } from "../../../common/utils/feedback";
+import { toastMessages } from "../../../common/utils/toastMessages";
+import workspacesStyles from "./workspaces.css";
+import {
+  listTabManagerWorkspaces,
+  switchTabManagerWorkspace,
+  deleteTabManagerWorkspace,
+} from "../../../adapters/runtime/tabManagerApi";
+import {
+  movePanelListIndexByDirection,
+  movePanelListIndexFromWheel,
+  movePanelListIndexHalfPage,
+} from "../../../core/panel/panelListController";
+
+interface WorkspaceRow {
+  kind: "create" | "workspace";
+  name: string;
+  count: number;
+  active: boolean;
+}
+
+export async function openWorkspaces(
+  config: KeybindingsConfig,
+): Promise<void> {
+  try {
+    const { host, shadow } = createPanelHost();
+    let panelOpen = true;
+
+    const upKey = keyToDisplay(config.bindings.search.moveUp.key);
+    const downKey = keyToDisplay(config.bindings.search.moveDown.key);
+    const switchPaneKey = keyToDisplay(config.bindings.search.switchPane.key);
+    const focusSearchKey = keyToDisplay(config.bindings.search.focusSearch.key);
+    const acceptKey = keyToDisplay(config.bindings.search.accept.key);
+    const removeKey = keyToDisplay(config.bindings.tabManager.remove.key);
+    const closeKey = keyToDisplay(config.bindings.search.close.key);
+    function renderFooter(): void {
+      const navHints = config.navigationMode === "standard"
+        ? [
+          { key: "j/k", desc: "nav" },
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+        ]
+        : [
+          { key: `${upKey}/${downKey}`, desc: "nav" },
+        ];
+      footer.innerHTML = `${footerRowHtml(navHints)}
+      ${footerRowHtml([
+        { key: switchPaneKey, desc: "list" },
+        { key: focusSearchKey, desc: "name" },
+        { key: removeKey, desc: "del (list)" },
+        { key: acceptKey, desc: "switch" },
+        { key: closeKey, desc: "close" },
+      ])}`;
+    }
+
+    function onNavigationModeChanged(): void {
+      renderFooter();
+    }
+
+    const style = document.createElement("style");
+    style.textContent = getBaseStyles() + workspacesStyles;
+    shadow.appendChild(style);
+
+    const backdrop = document.createElement("div");
+    backdrop.className = "ht-backdrop";
+    shadow.appendChild(backdrop);
+
+    const panel = document.createElement("div");
+    panel.className = "ht-workspaces-container";
+    shadow.appendChild(panel);
+
+    const titlebar = document.createElement("div");
+    titlebar.className = "ht-titlebar";
+    titlebar.innerHTML = `
+      <div class="ht-traffic-lights">
+        <button class="ht-dot ht-dot-close" title="Close (${escapeHtml(closeKey)})"></button>
+      </div>
+      <span class="ht-titlebar-text">Workspaces</span>
+      ${vimBadgeHtml(config)}`;
+    panel.appendChild(titlebar);
+
+    const inputWrap = document.createElement("div");
+    inputWrap.className = "ht-workspaces-input-wrap ht-ui-input-wrap";
+    inputWrap.innerHTML = `<span class="ht-workspaces-prompt ht-ui-input-prompt">&gt;</span>`;
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "ht-workspaces-input ht-ui-input-field";
+    input.placeholder = "Filter or name a new workspace . . .";
+    input.maxLength = 60;
+    inputWrap.appendChild(input);
+    panel.appendChild(inputWrap);
+
+    const listEl = document.createElement("div");
+    listEl.className = "ht-workspaces-list";
+    panel.appendChild(listEl);
+
+    const footer = document.createElement("div");
+    footer.className = "ht-footer";
+    renderFooter();
+    panel.appendChild(footer);
+
+    let workspaces: TabManagerWorkspaceSummary[] = [];
+    let rows: WorkspaceRow[] = [];
+    let activeIndex = 0;
+    let activeItemEl: HTMLElement | null = null;
+    let busy = false;
+
+    function close(): void {
+      panelOpen = false;
+      document.removeEventListener("keydown", keyHandler, true);
+      window.removeEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+      removePanelHost();
+    }
+
+    /** Filter by substring; offer a create row when the typed name is new. */
+    function buildRows(): void {
+      const trimmed = input.value.trim();
+      const lower = trimmed.toLowerCase();
+      const matching = trimmed
+        ? workspaces.filter((workspace) => workspace.name.toLowerCase().includes(lower))
+        : workspaces;
+      rows = matching.map((workspace) => ({ kind: "workspace", ...workspace }));
+      const exists = workspaces.some((workspace) => workspace.name.toLowerCase() === lower);
+      if (trimmed && !exists) {
+        rows.unshift({ kind: "create", name: trimmed, count: 0, active: false });
+      }
+      activeIndex = Math.min(activeIndex, Math.max(0, rows.length - 1));
+    }
+
+    function renderList(): void {
+      listEl.textContent = "";
+      if (rows.length === 0) {
+        listEl.innerHTML = `<div class="ht-workspaces-empty">No matching workspaces</div>`;
+        activeItemEl = null;
+        return;
+      }
+
+      const frag = document.createDocumentFragment();
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const item = document.createElement("div");
+        item.className = i === activeIndex ? "ht-workspaces-item active" : "ht-workspaces-item";
+        item.dataset.index = String(i);
+        item.tabIndex = -1;
+
+        const marker = document.createElement("span");
+        marker.className = "ht-workspaces-marker";
+        marker.textContent = row.kind === "create" ? "+" : row.active ? "●" : "";
+
+        const name = document.createElement("span");
+        name.className = "ht-workspaces-name";
+        name.textContent = row.kind === "create" ? `Create "${row.name}"` : row.name;
+
+        const count = document.createElement("span");
+        count.className = "ht-workspaces-count";
+        count.textContent = row.kind === "create" ? "new" : `${row.count} ${row.count === 1 ? "tab" : "tabs"}`;
+
+        item.appendChild(marker);
+        item.appendChild(name);
+        item.appendChild(count);
+        frag.appendChild(item);
+      }
+      listEl.appendChild(frag);
+      activeItemEl = listEl.children[activeIndex] as HTMLElement | null;
+      if (activeItemEl) activeItemEl.scrollIntoView({ block: "nearest" });
+    }
+
+    function updateActiveHighlight(newIndex: number): void {
+      if (newIndex === activeIndex && activeItemEl) return;
+      if (activeItemEl) activeItemEl.classList.remove("active");
+      activeIndex = newIndex;
+      activeItemEl = (listEl.children[activeIndex] as HTMLElement) || null;
+      if (activeItemEl) {
+        activeItemEl.classList.add("active");
+        activeItemEl.scrollIntoView({ block: "nearest" });
+      }
+    }
+
+    async function acceptRow(row: WorkspaceRow | undefined): Promise<void> {
+      if (!row || busy) return;
+      if (row.active) {
+        close();
+        return;
+      }
+      busy = true;
+      try {
+        const result = await switchTabManagerWorkspace(row.name);
+        close();
+        if (result.ok && result.name) {
+          showFeedback(toastMessages.workspaceSwitch(result.name, result.count ?? 0));
+        } else {
+          showFeedback(result.reason || toastMessages.workspaceActionFailed);
+        }
+      } catch (error) {
+        console.error("[Harpoon Telescope] Workspace switch failed:", error);
+        close();
+        showFeedback(toastMessages.workspaceActionFailed);
+      }
+    }
+
+    async function deleteRow(row: WorkspaceRow | undefined): Promise<void> {
+      if (!row || row.kind !== "workspace" || busy) return;
+      busy = true;
+      try {
+        const result = await deleteTabManagerWorkspace(row.name);
+        if (!panelOpen) return;
+        if (!result.ok) {
+          showFeedback(result.reason || toastMessages.workspaceActionFailed);
+          return;
+        }
+        showFeedback(toastMessages.workspaceDelete(row.name));
+        workspaces = await listTabManagerWorkspaces();
+        if (!panelOpen) return;
+        buildRows();
+        renderList();
+        if (activeItemEl) activeItemEl.focus();
+      } catch (error) {
+        console.error("[Harpoon Telescope] Workspace delete failed:", error);
+        showFeedback(toastMessages.workspaceActionFailed);
+      } finally {
+        busy = false;
+      }
+    }
+
+    function getHalfPageStep(): number {
+      const first = listEl.querySelector(".ht-workspaces-item") as HTMLElement | null;
+      const itemHeight = Math.max(1, (first?.offsetHeight ?? activeItemEl?.offsetHeight ?? 32));
+      const viewportRows = Math.max(1, Math.floor(listEl.clientHeight / itemHeight));
+      return Math.max(1, Math.floor(viewportRows / 2));
+    }
+
+    function keyHandler(event: KeyboardEvent): void {
+      if (!panelOpen || !document.getElementById("ht-panel-host")) {
+        document.removeEventListener("keydown", keyHandler, true);
+        return;
+      }
+
+      const inputFocused = host.shadowRoot?.activeElement === input;
+      const standardNav = config.navigationMode === "standard";
+
+      if (matchesAction(event, config, "search", "close")) {
+        event.preventDefault();
+        event.stopPropagation();
+        close();
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "switchPane")) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (rows.length === 0) return;
+        if (inputFocused) {
+          if (activeItemEl) activeItemEl.focus();
+          listEl.classList.add("focused");
+        }
+        return;
+      }
+
+      if (
+        standardNav
+        && !inputFocused
+        && event.ctrlKey
+        && !event.altKey
+        && !event.metaKey
+      ) {
+        const lowerKey = event.key.toLowerCase();
+        if (lowerKey === "d" || lowerKey === "u") {
+          event.preventDefault();
+          event.stopPropagation();
+          if (rows.length > 0) {
+            updateActiveHighlight(movePanelListIndexHalfPage(
+              rows.length,
+              activeIndex,
+              getHalfPageStep(),
+              lowerKey === "d" ? "down" : "up",
+            ));
+            if (activeItemEl) activeItemEl.focus();
+          }
+          return;
+        }
+      }
+
+      if (matchesAction(event, config, "search", "focusSearch") && !inputFocused) {
+        event.preventDefault();
+        event.stopPropagation();
+        input.focus();
+        listEl.classList.remove("focused");
+        return;
+      }
+
+      if (matchesAction(event, config, "tabManager", "remove") && !inputFocused) {
+        event.preventDefault();
+        event.stopPropagation();
+        void deleteRow(rows[activeIndex]);
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "accept")) {
+        event.preventDefault();
+        event.stopPropagation();
+        void acceptRow(rows[activeIndex]);
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveDown")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (rows.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(rows.length, activeIndex, "down"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      if (matchesAction(event, config, "search", "moveUp")) {
+        const lk = event.key.toLowerCase();
+        if ((lk === "j" || lk === "k") && inputFocused) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (rows.length > 0) {
+          updateActiveHighlight(movePanelListIndexByDirection(rows.length, activeIndex, "up"));
+          if (!inputFocused && activeItemEl) activeItemEl.focus();
+        }
+        return;
+      }
+
+      // Prevent host-page shortcuts from firing while the panel owns focus.
+      event.stopPropagation();
+    }
+
+    backdrop.addEventListener("click", close);
+    backdrop.addEventListener("mousedown", (event) => event.preventDefault());
+    titlebar.querySelector(".ht-dot-close")!.addEventListener("click", close);
+    listEl.addEventListener("click", (event) => {
+      const item = (event.target as HTMLElement).closest(".ht-workspaces-item") as HTMLElement;
+      if (!item) return;
+      void acceptRow(rows[parseInt(item.dataset.index!)]);
+    });
+
+    listEl.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (rows.length === 0) return;
+      updateActiveHighlight(movePanelListIndexFromWheel(rows.length, activeIndex, event.deltaY));
+    });
+
+    input.addEventListener("focus", () => { listEl.classList.remove("focused"); });
+    listEl.addEventListener("focus", () => { listEl.classList.add("focused"); }, true);
+
+    input.addEventListener("input", () => {
+      activeIndex = 0;
+      buildRows();
+      renderList();
+    });
+
+    window.addEventListener("ht-navigation-mode-changed", onNavigationModeChanged);
+
+    workspaces = await listTabManagerWorkspaces();
+    // Start on the active workspace so Enter is a no-op until the user moves.
+    buildRows();
+    activeIndex = Math.max(0, rows.findIndex((row) => row.active));
+
+    document.addEventListener("keydown", keyHandler, true);
+    registerPanelCleanup(close);
+    renderList();
+    input.focus();
+  } catch (err) {
+    console.error("[Harpoon Telescope] Failed to open workspaces:", err);
+    dismissPanel();
+  }
+}
@@ -15,6 +15,45 @@ interface TabManagerEntry {
   scrollY: number;
   slot: number;
   closed?: boolean;  // tab was closed but entry persists for re-opening
+  marks?: Record<string, ScrollData>;  // vim-style named in-page marks (a-z)
+  scrollAnchor?: ScrollAnchor;  // content anchor for scrollX/scrollY
+  locked?: boolean;  // keep url anchored; jumps navigate back when the tab drifts
+  context?: TabContext;  // container / tab group to reopen into
+  label?: string;  // user label shown in place of the page title
+  note?: string;  // short free-text note shown under the entry
+}
+
+// Free-text fields the user can edit on a Tab Manager entry
+type TabManagerAnnotationField = "label" | "note";
+
+// Global (uppercase A-Z) mark: a URL plus scroll position, independent of slots
+interface GlobalMark {
+  name: string;
+  url: string;
+  title: string;
+  scrollX: number;
+  scrollY: number;
+  anchor?: ScrollAnchor;
+  savedAt: number;  // timestamp
+}
+
+// Inactive named Tab Manager list (the active list lives in tabManagerList)
+interface TabManagerWorkspace {
+  name: string;
+  entries: TabManagerEntry[];
+}
+
+// Anchored list owned by one browser window (per-window Tab Manager mode)
+interface TabManagerWindowList {
+  windowId: number;
+  entries: TabManagerEntry[];
+  closedAt?: number;  // window closed; kept so a restored window can reclaim the list
+}
+
+interface TabManagerWorkspaceSummary {
+  name: string;
+  count: number;
+  active: boolean;
 }
 
 // Keybinding configuration shape
@@ -25,6 +64,10 @@ interface KeyBinding {
 
 interface KeybindingsConfig {
   navigationMode: "standard";
+  tabManagerSlots: number;  // configured slot count (1-9); jump actions past it are inactive
+  tabManagerScope: "global" | "window";  // "window" keeps a separate anchored list per browser window
+  sessionLimit: number;  // max saved sessions; 0 = unlimited
+  sessionLoadMode: "eager" | "lazy";  // "lazy" opens background session tabs discarded until first visit
   bindings: {
     global: Record<string, KeyBinding>;
     tabManager: Record<string, KeyBinding>;
@@ -36,6 +79,10 @@ interface KeybindingsConfig {
 // Structural search filters for page grep
 type SearchFilter = "code" | "headings" | "links" | "images";
 
+// How the page-search query is matched: fuzzy subsequence (default), case-sensitive
+// substring, substring that is case-sensitive only when the query has uppercase, or regex.
+type SearchQueryMode = "fuzzy" | "exact" | "smartcase" | "regex";
+
 // Grep result from content script
 interface GrepResult {
   lineNumber: number;
@@ -47,6 +94,24 @@ interface GrepResult {
   ancestorHeading?: string; // nearest heading text above this element
   href?: string;           // link href (for A tags)
   domContext?: string[];   // context lines from same DOM parent (tag-aware)
+  frame?: string;          // same-origin iframe label when the match is not in the top document
+}
+
+// Tab a multi-tab grep can query (http/https/file page that isn't discarded)
+interface GrepTabTarget {
+  tabId: number;
+  windowId: number;
+  title: string;
+  url: string;
+  isCurrent: boolean;      // the tab the search panel was opened in
+}
+
+// One tab's answer to a multi-tab grep
+interface TabGrepResult {
+  ok: boolean;
+  reason?: string;
+  timedOut?: boolean;      // no answer within the per-tab timeout
+  results?: GrepResult[];
 }
 
 // Collision detection result
@@ -59,6 +124,15 @@ interface CollisionResult {
 interface ScrollData {
   scrollX: number;
   scrollY: number;
+  anchor?: ScrollAnchor;
+}
+
+// Text anchor for the viewport top: restores land on the same paragraph even
+// when the page reflows, falling back to the pixel offsets when not found
+interface ScrollAnchor {
+  heading?: string;  // nearest heading above the anchor
+  snippet: string;   // leading text of the anchor block
+  ratio: number;     // viewport top within the block, 0..1
 }
 
 interface PageContent {
@@ -77,32 +151,134 @@ interface FrecencyEntry {
 }
 
 // Saved tab manager session (detach/attach)
+// Where a tab lived: Firefox container and/or tab group (Chrome, Firefox 138+).
+// Group ids do not survive restarts, so title/color let reopen find or recreate it.
+interface TabGroupIdentity {
+  id: number;
+  title?: string;
+  color?: string;
+}
+
+interface TabContext {
+  cookieStoreId?: string;
+  group?: TabGroupIdentity;
+}
+
 interface TabManagerSessionEntry {
   url: string;
   title: string;
   scrollX: number;
   scrollY: number;
+  scrollAnchor?: ScrollAnchor;
+  locked?: boolean;
+  context?: TabContext;
+  label?: string;
+  note?: string;
+  pinned?: boolean;     // window snapshots: reopen as a pinned tab
+  anchorSlot?: number;  // window snapshots: Tab Manager slot this tab held when saved
 }
 
+// "window" sessions hold every tab in the window; anchored ones carry anchorSlot.
+// Absent means the session is the Tab Manager list itself.
+type TabManagerSessionKind = "window";
+
 interface TabManagerSession {
   name: string;
   entries: TabManagerSessionEntry[];
   savedAt: number;  // timestamp
+  folder?: string;  // slash-separated folder path, e.g. "work/client"
+  tags?: string[];  // lowercase tags, matched by /tag filters in the session list
+  kind?: TabManagerSessionKind;
+}
+
+/** Auto-saved copy of the live tab manager list, offered first by the restore prompt */
+interface TabManagerAutoSnapshot {
+  entries: TabManagerSessionEntry[];
+  savedAt: number;
+}
+
+// Why a saved version was superseded
+type SessionRevisionReason = "update" | "replace" | "import" | "rollback" | "copy";
+
+// Slot-wise change counts from a revision to the entries that replaced it
+interface SessionRevisionDiffSummary {
+  added: number;
+  removed: number;
+  replaced: number;
+  unchanged: number;
+}
+
+/** An earlier version of a saved session, stored under tabManagerSessionRevisions */
+interface TabManagerSessionRevision {
+  entries: TabManagerSessionEntry[];
+  savedAt: number;     // when this version was saved
+  replacedAt: number;  // when an overwrite superseded it
+  reason: SessionRevisionReason;
+  diff: SessionRevisionDiffSummary;
+}
+
+/** Revision as shown in the session menu, with slot diffs against the saved session */
+interface SessionRevisionView extends TabManagerSessionRevision {
+  slotDiffs: SessionLoadSlotDiff[];
+}
+
+// Entry-level change from the left session to the right one, matched by normalized URL
+type SessionDiffChange = "added" | "removed" | "changed" | "same";
+
+/** One matched (or unmatched) entry pair in a two-session diff */
+interface SessionDiffRow {
+  change: SessionDiffChange;
+  left?: TabManagerSessionEntry;   // absent when only the right session has the URL
+  right?: TabManagerSessionEntry;  // absent when only the left session has the URL
+}
+
+interface SessionDiffResult {
+  ok: boolean;
+  reason?: string;
+  leftName?: string;
+  rightName?: string;
+  rows?: SessionDiffRow[];
+}
+
+// Import name clash handling: keep both ("Name (2)") or replace the saved session
+type SessionImportConflictMode = "rename" | "overwrite";
+
+interface SessionImportResult {
+  ok: boolean;
+  reason?: string;
+  imported?: number;
+  renamed?: number;
+  overwritten?: number;
+  skipped?: number;  // dropped because the saved-session cap was reached
+}
+
+/** "replace" swaps the whole list; "merge" appends into the empty slots after it */
+type SessionLoadMode = "replace" | "merge";
+
+/** SESSION_LOAD target: a fresh window, optionally closing the blank tab it opens with */
+interface SessionLoadWindowOptions {
+  newWindow: boolean;
+  closeBlankTab?: boolean;
 }
 
 interface SessionLoadSummary {
   sessionName: string;
+  mode?: SessionLoadMode;
   totalCount: number;
   replaceCount: number;
   openCount: number;
   reuseCount: number;
   slotDiffs: SessionLoadSlotDiff[];
   reuseMatches: SessionLoadReuseMatch[];
+  duplicateCount?: number;
+  dropCount?: number;
+  extraCount?: number;  // window snapshots: tabs reopened without a slot
 }
 
 interface SessionLoadSlotDiff {
   slot: number;
-  change: "replace" | "remove" | "add";
+  // "fill" / "duplicate" / "drop" only appear in merge plans; drop rows use slot 0.
+  change: "replace" | "remove" | "add" | "fill" | "duplicate" | "drop";
   currentTitle?: string;
   currentUrl?: string;
   incomingTitle?: string;
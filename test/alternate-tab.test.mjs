@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+  ]);
+}
+
+const lifecycleHooks = { onTabClosed: async () => {}, onTabActivated: async () => {} };
+
+test("alternate tab walks back the recent-tab order across windows and restores the left scroll", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://docs.dev/a", active: true, lastAccessed: 300 },
+      { id: 2, windowId: 2, url: "https://docs.dev/b", active: true, lastAccessed: 200 },
+      { id: 3, windowId: 1, url: "https://docs.dev/c", lastAccessed: 100 },
+    ],
+    scroll: { 1: { scrollX: 0, scrollY: 750 } },
+  });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+  const realNow = Date.now;
+  let now = realNow();
+  Date.now = () => now;
+  t.after(() => {
+    Date.now = realNow;
+  });
+
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [2, { active: true }]);
+  assert.deepEqual(fake.calls.focused, [2]);
+  assert.deepEqual(fake.store.jumpList.entries.map((entry) => entry.tabId), [1]);
+
+  // A quick second press keeps walking back instead of toggling home.
+  now += 500;
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [3, { active: true }]);
+  now += 500;
+  assert.deepEqual(await tabManager.alternateTab(), { ok: false, reason: "No previous tab" });
+
+  // After a pause the cycle restarts from the most recent tabs, so presses toggle.
+  fake.activate(2);
+  now += 5000;
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [3, { active: true }]);
+  now += 5000;
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [2, { active: true }]);
+
+  // Walking on reaches tab 1, whose scroll was saved when the first press left it.
+  now += 500;
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [1, { active: true }]);
+  assert.deepEqual(tabManager.consumePendingScrollRestore(1), { scrollX: 0, scrollY: 750, anchor: undefined });
+});
+
+test("alternate tab restores the scroll of a tab left by a plain tab switch", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://docs.dev/a", active: true },
+      { id: 2, windowId: 1, url: "https://docs.dev/b" },
+    ],
+    scroll: { 1: { scrollX: 0, scrollY: 750 } },
+  });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+  tabManager.registerLifecycleListeners(lifecycleHooks);
+  await tabManager.captureInitialActiveTab();
+
+  // The user clicks tab 2 in the tab strip; the extension only sees onActivated.
+  fake.activate(2);
+  await fake.listeners["tabs.onActivated"]({ tabId: 2, windowId: 1 });
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(await tabManager.alternateTab(), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [1, { active: true }]);
+  assert.deepEqual(tabManager.consumePendingScrollRestore(1), { scrollX: 0, scrollY: 750, anchor: undefined });
+});
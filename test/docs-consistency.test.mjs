@@ -22,10 +22,10 @@ test("store and privacy docs match current slot/session limits", () => {
   const store = readText("STORE.md");
   const privacy = readText("PRIVACY.md");
 
-  assert.ok(store.includes("Anchor up to 4 tabs to numbered slots."));
-  assert.ok(store.includes("Keep up to 4 sessions."));
-  assert.ok(privacy.includes("Harpoon list") && privacy.includes("(up to 4)"));
-  assert.ok(privacy.includes("Saved sessions") && privacy.includes("(up to 4)"));
+  assert.ok(store.includes("Anchor up to 9 tabs to numbered slots (4 by default, configurable in options)."));
+  assert.ok(store.includes("Keep unlimited sessions (or set a cap in options), organized with folders and tags."));
+  assert.ok(privacy.includes("Harpoon list") && privacy.includes("(up to 9)"));
+  assert.ok(privacy.includes("Saved sessions") && privacy.includes("(unlimited unless capped in options)"));
 });
 
 test("store docs point frecency shortcut to Alt+Shift+F", () => {
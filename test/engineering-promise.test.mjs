@@ -11,11 +11,14 @@ function readText(relativePath) {
 
 const OVERLAY_CSS_FILES = [
   "src/lib/ui/panels/help/help.css",
+  "src/lib/ui/panels/marks/marks.css",
+  "src/lib/ui/panels/searchAllTabs/searchAllTabs.css",
   "src/lib/ui/panels/searchCurrentPage/searchCurrentPage.css",
   "src/lib/ui/panels/searchOpenTabs/searchOpenTabs.css",
   "src/lib/ui/panels/sessionMenu/sessionMenu.css",
   "src/lib/ui/panels/sessionMenu/session.css",
   "src/lib/ui/panels/tabManager/tabManager.css",
+  "src/lib/ui/panels/workspaces/workspaces.css",
 ];
 
 test("store and privacy docs include local-only/no-telemetry policy", () => {
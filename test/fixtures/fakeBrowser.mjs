@@ -0,0 +1,166 @@
+// Fake WebExtension runtime for background-domain tests: bundles real modules with
+// "webextension-polyfill" pointed at whatever fake the current test installed.
+
+import { resolve } from "node:path";
+import { build } from "esbuild";
+
+const ROOT = process.cwd();
+
+const fakeBrowserPlugin = {
+  name: "fake-browser",
+  setup(pluginBuild) {
+    pluginBuild.onResolve({ filter: /^webextension-polyfill$/ }, () => ({
+      path: "webextension-polyfill",
+      namespace: "fake-browser",
+    }));
+    pluginBuild.onLoad({ filter: /.*/, namespace: "fake-browser" }, () => ({
+      contents: "export default new Proxy({}, { get: (_, key) => globalThis.fakeBrowser[key] });",
+      loader: "js",
+    }));
+  },
+};
+
+let loadCount = 0;
+
+/** Bundle `modulePaths` (relative to the repo root) into one module. Every call is a
+ *  fresh instance, so module-level state never carries over between tests. */
+export async function loadWithFakeBrowser(modulePaths) {
+  const bundled = await build({
+    stdin: {
+      contents: [
+        ...modulePaths.map((modulePath) => `export * from "./${modulePath}";`),
+        `export const loadId = ${++loadCount};`,
+      ].join("\n"),
+      resolveDir: ROOT,
+      loader: "ts",
+    },
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+    plugins: [fakeBrowserPlugin],
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+/** Just enough of the WebExtension API for the tab domains: tabs live in an array,
+ *  GET_SCROLL answers from `scroll`, and every switch or create is recorded. */
+export function installFakeBrowser(t, options = {}) {
+  const store = structuredClone(options.storage ?? {});
+  const live = (options.tabs ?? []).map((tab) => ({ ...tab }));
+  const scroll = options.scroll ?? {};
+  const calls = { updated: [], created: [], focused: [], discarded: [] };
+  const listeners = {};
+  let focusedWindowId = options.focusedWindowId ?? 1;
+  let nextTabId = 100;
+  let clock = 1000;
+
+  const event = (name) => ({ addListener: (listener) => { listeners[name] = listener; } });
+  const findTab = (tabId) => live.find((tab) => tab.id === tabId);
+
+  globalThis.fakeBrowser = {
+    storage: {
+      local: {
+        get: async (keys) => {
+          const wanted = typeof keys === "string" ? [keys] : keys ?? Object.keys(store);
+          return Object.fromEntries(wanted.filter((key) => key in store)
+            .map((key) => [key, structuredClone(store[key])]));
+        },
+        set: async (items) => {
+          Object.assign(store, structuredClone(items));
+        },
+      },
+    },
+    tabs: {
+      query: async (info) => live
+        .filter((tab) => info.active === undefined || !!tab.active === info.active)
+        .filter((tab) => !info.currentWindow || tab.windowId === focusedWindowId)
+        .filter((tab) => info.windowId === undefined || tab.windowId === info.windowId)
+        .map((tab) => ({ ...tab })),
+      get: async (tabId) => {
+        const tab = findTab(tabId);
+        if (!tab) throw new Error(`Invalid tab ID: ${tabId}`);
+        return { ...tab };
+      },
+      update: async (tabId, props) => {
+        const tab = findTab(tabId);
+        if (!tab || options.rejectUpdate?.(tabId, props)) throw new Error(`Invalid tab ID: ${tabId}`);
+        calls.updated.push([tabId, props]);
+        if (props.active) {
+          for (const other of live) if (other.windowId === tab.windowId) other.active = false;
+          tab.active = true;
+          tab.lastAccessed = ++clock;
+        }
+        if (props.url) tab.url = props.url;
+        return { ...tab };
+      },
+      create: async (props) => {
+        if (options.rejectCreate?.(props)) throw new Error("Unsupported create property");
+        calls.created.push(props);
+        const tab = { id: nextTabId++, windowId: props.windowId ?? focusedWindowId, url: props.url, active: !!props.active };
+        live.push(tab);
+        return { ...tab };
+      },
+      sendMessage: async (tabId, message) => {
+        if (message.type === "GET_SCROLL" && scroll[tabId]) return scroll[tabId];
+        throw new Error("Could not establish connection. Receiving end does not exist.");
+      },
+      ...(options.discard ? { discard: async (tabId) => { calls.discarded.push(tabId); } } : {}),
+      onRemoved: event("tabs.onRemoved"),
+      onUpdated: event("tabs.onUpdated"),
+      onActivated: event("tabs.onActivated"),
+    },
+    runtime: {
+      getURL: (path) => `moz-extension://fake/${path}`,
+      onStartup: event("runtime.onStartup"),
+    },
+    windows: {
+      WINDOW_ID_NONE: -1,
+      update: async (windowId, props) => {
+        if (props.focused) {
+          calls.focused.push(windowId);
+          focusedWindowId = windowId;
+        }
+        return { id: windowId };
+      },
+      onRemoved: event("windows.onRemoved"),
+      onFocusChanged: event("windows.onFocusChanged"),
+    },
+  };
+  t.after(() => {
+    delete globalThis.fakeBrowser;
+  });
+
+  return {
+    store,
+    calls,
+    listeners,
+    closeTab: (tabId) => live.splice(live.indexOf(findTab(tabId)), 1),
+    navigate: (tabId, url) => {
+      findTab(tabId).url = url;
+    },
+    activate: (tabId) => {
+      const tab = findTab(tabId);
+      for (const other of live) if (other.windowId === tab.windowId) other.active = false;
+      tab.active = true;
+      tab.lastAccessed = ++clock;
+      focusedWindowId = tab.windowId;
+    },
+  };
+}
+
+/** TabManagerState stand-in that records queued scroll restores and hands
+ *  recorded jumps to `jumpList` when one is given. */
+export function recordingState(jumpList) {
+  const restores = [];
+  return {
+    restores,
+    queueScrollRestore: (tabId, scrollX, scrollY, anchor) => restores.push({ tabId, scrollX, scrollY, anchor }),
+    recordJump: async (fromTabId) => await jumpList?.record(fromTabId),
+  };
+}
+
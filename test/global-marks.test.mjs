@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser, recordingState } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/globalMarksDomain.ts",
+  ]);
+}
+
+test("global marks reject bad names and tabs whose scroll cannot be read", async (t) => {
+  const domains = await loadDomains();
+  const page = { id: 1, windowId: 1, url: "https://docs.dev/guide", title: "Guide" };
+  const fake = installFakeBrowser(t, { tabs: [page] });
+
+  assert.deepEqual(await domains.globalMarkSet(page, "a"), { ok: false, reason: "Global marks must be A-Z" });
+  assert.deepEqual(await domains.globalMarkSet({ id: 1 }, "A"), { ok: false, reason: "Active tab unavailable." });
+  assert.deepEqual(await domains.globalMarkSet(page, "A"), { ok: false, reason: "Page scroll unavailable" });
+  assert.equal(fake.store.globalMarks, undefined);
+});
+
+test("jumping to a global mark whose tab is gone reopens the page and restores the scroll", async (t) => {
+  const domains = await loadDomains();
+  const page = { id: 5, windowId: 1, url: "https://docs.dev/guide#install", title: "Guide", active: true };
+  const anchor = { snippet: "Install the CLI", ratio: 0 };
+  const fake = installFakeBrowser(t, {
+    tabs: [page, { id: 6, windowId: 1, url: "https://news.dev" }],
+    scroll: { 5: { scrollX: 0, scrollY: 640, anchor } },
+  });
+
+  assert.deepEqual(await domains.globalMarkSet(page, "D"), { ok: true });
+  assert.deepEqual(fake.store.globalMarks.map((mark) => [mark.name, mark.url, mark.scrollY]), [
+    ["D", page.url, 640],
+  ]);
+
+  fake.closeTab(5);
+  fake.activate(6);
+  const state = recordingState(domains.createJumpListDomain());
+  assert.deepEqual(await domains.globalMarkJump(state, "D"), { ok: true });
+  assert.deepEqual(fake.calls.created, [{ url: page.url, active: true }]);
+  assert.deepEqual(state.restores, [{ tabId: 100, scrollX: 0, scrollY: 640, anchor }]);
+  // The tab we left is on the jumplist, so Ctrl+O comes back to it.
+  assert.deepEqual(fake.store.jumpList.entries.map((entry) => entry.tabId), [6]);
+
+  assert.deepEqual(await domains.globalMarkJump(state, "Q"), { ok: false, reason: "Mark 'Q' not set" });
+});
+
+test("jumping to a global mark reuses an open tab, preferring the focused window", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://news.dev", active: true },
+      { id: 2, windowId: 2, url: "https://docs.dev/guide" },
+      { id: 3, windowId: 1, url: "https://www.docs.dev/guide/" },
+    ],
+    storage: {
+      globalMarks: [{ name: "D", url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 80, savedAt: 1 }],
+    },
+  });
+
+  const state = recordingState(domains.createJumpListDomain());
+  assert.deepEqual(await domains.globalMarkJump(state, "D"), { ok: true });
+  assert.deepEqual(fake.calls.created, []);
+  assert.deepEqual(fake.calls.updated, [[3, { active: true }]]);
+  assert.deepEqual(state.restores.map((restore) => restore.tabId), [3]);
+});
+
+test("a mark whose tab closes mid-jump reopens by URL instead of failing the jump", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://news.dev", active: true },
+      { id: 2, windowId: 1, url: "https://docs.dev/guide" },
+    ],
+    storage: {
+      globalMarks: [{ name: "D", url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 80, savedAt: 1 }],
+    },
+    // Tab 2 is still listed by tabs.query but is gone by the time it is activated.
+    rejectUpdate: (tabId) => tabId === 2,
+  });
+
+  const state = recordingState(domains.createJumpListDomain());
+  assert.deepEqual(await domains.globalMarkJump(state, "D"), { ok: true });
+  assert.deepEqual(fake.calls.created, [{ url: "https://docs.dev/guide", active: true }]);
+  assert.deepEqual(state.restores, [{ tabId: 100, scrollX: 0, scrollY: 80, anchor: undefined }]);
+});
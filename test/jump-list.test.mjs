@@ -0,0 +1,124 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser, recordingState } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+  ]);
+}
+
+test("the jumplist keeps one entry per tab and caps history at fifty positions", async (t) => {
+  const domains = await loadDomains();
+  const tabs = Array.from({ length: 60 }, (_, index) => ({
+    id: index + 1,
+    windowId: 1,
+    url: `https://docs.dev/${index + 1}`,
+  }));
+  const fake = installFakeBrowser(t, { tabs });
+  const jumpList = domains.createJumpListDomain();
+
+  for (const tab of tabs) await jumpList.record(tab.id);
+  const entries = fake.store.jumpList.entries;
+  assert.equal(entries.length, 50);
+  assert.deepEqual([entries[0].tabId, entries[49].tabId], [11, 60]);
+  assert.equal(fake.store.jumpList.index, 50);
+
+  // Recording a tab again moves it to the newest position instead of duplicating it.
+  await jumpList.record(30);
+  const tabIds = fake.store.jumpList.entries.map((entry) => entry.tabId);
+  assert.equal(tabIds.length, 50);
+  assert.equal(tabIds.filter((tabId) => tabId === 30).length, 1);
+  assert.equal(tabIds.at(-1), 30);
+
+  // Positions that cannot be read (closed tabs) are not recorded at all.
+  await jumpList.record(999);
+  assert.equal(fake.store.jumpList.entries.length, 50);
+});
+
+test("jumplist back and forward hop between recorded tabs and drop ones that moved on", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://docs.dev/a" },
+      { id: 2, windowId: 2, url: "https://docs.dev/b" },
+      { id: 3, windowId: 1, url: "https://docs.dev/c", active: true },
+    ],
+    scroll: { 2: { scrollX: 0, scrollY: 300 } },
+  });
+  const jumpList = domains.createJumpListDomain();
+  const state = recordingState(jumpList);
+
+  await jumpList.record(1);
+  await jumpList.record(2);
+
+  assert.deepEqual(await jumpList.back(state), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [2, { active: true }]);
+  assert.deepEqual(fake.calls.focused, [2]);
+  assert.deepEqual(state.restores.at(-1), { tabId: 2, scrollX: 0, scrollY: 300, anchor: undefined });
+
+  // Tab 1 navigated away from the recorded page: it is skipped and forgotten.
+  fake.navigate(1, "https://elsewhere.dev");
+  assert.deepEqual(await jumpList.back(state), { ok: false, reason: "No older jumps" });
+  assert.deepEqual(fake.store.jumpList.entries.map((entry) => entry.tabId), [2, 3]);
+
+  assert.deepEqual(await jumpList.forward(state), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [3, { active: true }]);
+  assert.deepEqual(await jumpList.forward(state), { ok: false, reason: "No newer jumps" });
+});
+
+test("jumping back from a page whose scroll cannot be read lands on the newest entry", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://docs.dev/a" },
+      { id: 2, windowId: 1, url: "https://docs.dev/b" },
+      { id: 3, windowId: 1, url: "", active: true },
+    ],
+  });
+  const jumpList = domains.createJumpListDomain();
+  const state = recordingState(jumpList);
+
+  await jumpList.record(1);
+  await jumpList.record(2);
+  // Tab 3 has no readable URL (a restricted page), so it cannot be pushed first.
+  assert.deepEqual(await jumpList.back(state), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [2, { active: true }]);
+  assert.deepEqual(await jumpList.back(state), { ok: true });
+  assert.deepEqual(fake.calls.updated.at(-1), [1, { active: true }]);
+});
+
+test("a slot jump that has to reopen its tab records the tab left only once", async (t) => {
+  const domains = await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+  ]);
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://news.dev", active: true },
+      { id: 2, windowId: 1, url: "https://docs.dev/guide" },
+    ],
+    storage: {
+      tabManagerList: [{ tabId: 2, url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 0, slot: 1 }],
+    },
+    // The slot's tab is gone by the time it is activated, so the jump reopens it.
+    rejectUpdate: (tabId) => tabId === 2,
+  });
+  const jumpList = domains.createJumpListDomain();
+  const recorded = [];
+  const tabManager = domains.createTabManagerDomain({
+    ...jumpList,
+    record: async (fromTabId) => {
+      recorded.push(fromTabId);
+      await jumpList.record(fromTabId);
+    },
+  });
+
+  await tabManager.jump(1);
+  assert.deepEqual(fake.calls.created, [{ url: "https://docs.dev/guide", active: true }]);
+  assert.deepEqual(recorded, [1]);
+  assert.deepEqual(fake.store.jumpList, {
+    entries: [{ tabId: 1, url: "https://news.dev", scrollX: 0, scrollY: 0 }],
+    index: 1,
+  });
+});
@@ -0,0 +1,31 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadLazyTabs() {
+  return await loadWithFakeBrowser([
+    "src/lib/adapters/browser/lazyTabCompat.ts",
+  ]);
+}
+
+test("lazy tabs open discarded, falling back to discard-after-create, and active tabs load", async (t) => {
+  const lazyTabs = await loadLazyTabs();
+
+  // Firefox: discarded tabs can be created directly, titled so the tab strip is readable.
+  let fake = installFakeBrowser(t, { discard: true });
+  await lazyTabs.createLazyTabInContext({ url: "https://docs.dev/a", active: false }, undefined, "Docs A");
+  assert.deepEqual(fake.calls.created, [{ url: "https://docs.dev/a", active: false, discarded: true, title: "Docs A" }]);
+  assert.deepEqual(fake.calls.discarded, []);
+
+  // Chrome: create rejects `discarded`, so the tab opens normally and is discarded after.
+  fake = installFakeBrowser(t, { discard: true, rejectCreate: (props) => "discarded" in props });
+  const { tab } = await lazyTabs.createLazyTabInContext({ url: "https://docs.dev/b", active: false }, undefined, "");
+  assert.deepEqual(fake.calls.created, [{ url: "https://docs.dev/b", active: false }]);
+  assert.deepEqual(fake.calls.discarded, [tab.id]);
+
+  // The tab the user lands on is never discarded.
+  fake = installFakeBrowser(t, { discard: true });
+  await lazyTabs.createLazyTabInContext({ url: "https://docs.dev/c", active: true }, undefined, "Docs C");
+  assert.deepEqual(fake.calls.created, [{ url: "https://docs.dev/c", active: true }]);
+  assert.deepEqual(fake.calls.discarded, []);
+});
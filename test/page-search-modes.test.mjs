@@ -0,0 +1,103 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { build } from "esbuild";
+
+const ROOT = process.cwd();
+
+async function loadBundledModule(relativePath) {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, relativePath)],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+const loadGrepQueryModule = () => loadBundledModule("src/lib/ui/panels/searchCurrentPage/grep/grepQuery.ts");
+const loadSearchRegexModule = () => loadBundledModule("src/lib/common/utils/searchRegex.ts");
+
+const line = (text) => ({ text, lower: text.toLowerCase(), tag: "P" });
+
+test("exact and smart-case modes match substrings with the right case rules", async () => {
+  const grepQuery = await loadGrepQueryModule();
+
+  const exact = grepQuery.compileGrepQuery("parseInput", "exact");
+  assert.equal(exact.ok, true);
+  assert.notEqual(exact.match(line("call parseInput(raw)")), null);
+  assert.equal(exact.match(line("call parseinput(raw)")), null);
+  // Whole-word hits outrank hits inside a longer identifier.
+  assert.ok(exact.match(line("parseInput here")) > exact.match(line("reparseInputs here")));
+
+  const smartLower = grepQuery.compileGrepQuery("error", "smartcase");
+  assert.notEqual(smartLower.match(line("Fatal ERROR")), null);
+  const smartUpper = grepQuery.compileGrepQuery("Error", "smartcase");
+  assert.equal(smartUpper.match(line("fatal error")), null);
+  assert.notEqual(smartUpper.match(line("TypeError: boom")), null);
+});
+
+test("regex mode compiles with smart case and rejects catastrophic patterns", async () => {
+  const grepQuery = await loadGrepQueryModule();
+  const searchRegex = await loadSearchRegexModule();
+
+  const regex = grepQuery.compileGrepQuery("err(or)?\\d+", "regex");
+  assert.equal(regex.ok, true);
+  assert.ok(regex.timeBudgetMs > 0);
+  assert.notEqual(regex.match(line("Saw ERROR42 twice")), null);
+  assert.equal(regex.match(line("error without code")), null);
+  // Uppercase in the pattern (but not in escapes like \D) makes it case-sensitive.
+  assert.equal(grepQuery.compileGrepQuery("Err\\D", "regex").match(line("error x")), null);
+
+  assert.equal(searchRegex.hasNestedQuantifier("(a+)+"), true);
+  assert.equal(searchRegex.hasNestedQuantifier("(?:\\w*\\s?)*$"), true);
+  assert.equal(searchRegex.hasNestedQuantifier("((ab)+c)*"), true);
+  assert.equal(searchRegex.hasNestedQuantifier("(foo|bar)+\\d{2,}"), false);
+  assert.equal(searchRegex.hasNestedQuantifier("[(a+)]+"), false);
+
+  assert.equal(grepQuery.compileGrepQuery("(a+)+$", "regex").ok, false);
+  assert.equal(grepQuery.compileGrepQuery("err(", "regex").ok, false);
+  assert.equal(grepQuery.compileGrepQuery("x*", "regex").ok, false);
+  assert.equal(grepQuery.compileGrepQuery("a".repeat(300), "regex").ok, false);
+});
+
+test("regex mode rejects repeated alternation and overlapping back-to-back quantifiers", async () => {
+  const grepQuery = await loadGrepQueryModule();
+  const searchRegex = await loadSearchRegexModule();
+
+  assert.equal(searchRegex.hasQuantifiedAlternation("(a|a)*b"), true);
+  assert.equal(searchRegex.hasQuantifiedAlternation("(a|aa)*c"), true);
+  assert.equal(searchRegex.hasQuantifiedAlternation("((a|b)c)+"), true);
+  assert.equal(searchRegex.hasQuantifiedAlternation("(foo|bar)?\\d+"), false);
+  assert.equal(searchRegex.hasQuantifiedAlternation("[a|b]+"), false);
+
+  assert.equal(searchRegex.hasOverlappingQuantifiers("\\w*\\w*\\w*\\w*!"), true);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("\\d+\\w*"), true);
+  // An optional atom in between does not separate the two runs.
+  assert.equal(searchRegex.hasOverlappingQuantifiers("\\w*-?\\w*"), true);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("A+a+"), false);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("A+a+", "i"), true);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("\\w+\\s+\\w+"), false);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("\\d+\\.\\d+"), false);
+  assert.equal(searchRegex.hasOverlappingQuantifiers("[a-z]+\\d+"), false);
+
+  for (const pattern of ["(a|a)*b", "(a|aa)*c", "\\w*\\w*\\w*\\w*!"]) {
+    assert.equal(grepQuery.compileGrepQuery(pattern, "regex").ok, false, pattern);
+  }
+  assert.equal(grepQuery.compileGrepQuery(".*foo.*", "regex").ok, true);
+});
+
+test("regex mode finds matches anywhere in long lines", async () => {
+  const grepQuery = await loadGrepQueryModule();
+
+  const regex = grepQuery.compileGrepQuery("need(le)?", "regex");
+  const padding = "x".repeat(5000);
+  assert.notEqual(regex.match(line(`needle ${padding}`)), null);
+  assert.notEqual(regex.match(line(`${padding} needle`)), null);
+  assert.equal(regex.match(line(padding)), null);
+});
@@ -19,6 +19,9 @@ const SINGLE_PANEL_FILES = [
   "src/lib/ui/panels/tabManager/tabManager.css",
   "src/lib/ui/panels/sessionMenu/session.css",
   "src/lib/ui/panels/help/help.css",
+  "src/lib/ui/panels/workspaces/workspaces.css",
+  "src/lib/ui/panels/marks/marks.css",
+  "src/lib/ui/panels/searchAllTabs/searchAllTabs.css",
 ];
 
 test("split overlays stack into vertical layout on narrow viewports", () => {
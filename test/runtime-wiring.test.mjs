@@ -24,7 +24,10 @@ test("background runtime entry composes handlers/domains/lifecycle modules", ()
   assert.match(source, /registerRuntimeMessageRouter\(\s*\[/);
   assert.match(source, /createTabManagerMessageHandler\(tabManager\)/);
   assert.match(source, /createSessionMessageHandler\(tabManager\.state\)/);
-  assert.match(source, /miscMessageHandler/);
+  assert.match(source, /createGlobalMarksMessageHandler\(tabManager\.state\)/);
+  assert.match(source, /createTabManagerDomain\(jumpList\)/);
+  assert.match(source, /createJumpListMessageHandler\(jumpList, tabManager\.state\)/);
+  assert.match(source, /createMiscMessageHandler\(jumpList\)/);
 
   assert.match(source, /registerStartupRestore\(/);
   assert.match(source, /clearTabManager:\s*async\s*\(\)\s*=>\s*await tabManager\.clearAll\(\)/);
@@ -35,20 +38,68 @@ test("session runtime handler preserves save-load-delete-rename routing", () =>
 
   assert.match(source, /case "SESSION_SAVE":[\s\S]*sessionSave\(tabManagerState,\s*message\.name\)/);
   assert.match(source, /case "SESSION_LIST":[\s\S]*sessionList\(\)/);
-  assert.match(source, /case "SESSION_LOAD_PLAN":[\s\S]*sessionLoadPlan\(tabManagerState,\s*message\.name\)/);
-  assert.match(source, /case "SESSION_LOAD":[\s\S]*sessionLoad\(tabManagerState,\s*message\.name\)/);
+  assert.match(source, /case "SESSION_LOAD_PLAN":[\s\S]*sessionLoadPlan\(tabManagerState,\s*message\.name,\s*message\.window\)/);
+  assert.match(source, /case "SESSION_LOAD":[\s\S]*sessionLoad\(tabManagerState,\s*message\.name,\s*message\.window\)/);
   assert.match(source, /case "SESSION_DELETE":[\s\S]*sessionDelete\(message\.name\)/);
   assert.match(source, /case "SESSION_RENAME":[\s\S]*sessionRename\(message\.oldName,\s*message\.newName\)/);
   assert.match(source, /case "SESSION_UPDATE":[\s\S]*sessionUpdate\(tabManagerState,\s*message\.name\)/);
   assert.match(source, /case "SESSION_REPLACE":[\s\S]*sessionReplace\(tabManagerState,\s*message\.oldName,\s*message\.newName\)/);
 });
 
+test("tab manager runtime handler routes workspace list-switch-delete", () => {
+  const source = readText("src/lib/backgroundRuntime/handlers/tabManagerMessageHandler.ts");
+
+  assert.match(source, /case "TAB_MANAGER_WORKSPACE_LIST":[\s\S]*domain\.listWorkspaces\(\)/);
+  assert.match(source, /case "TAB_MANAGER_WORKSPACE_SWITCH":[\s\S]*domain\.switchWorkspace\(message\.name\)/);
+  assert.match(source, /case "TAB_MANAGER_WORKSPACE_DELETE":[\s\S]*domain\.deleteWorkspace\(message\.name\)/);
+});
+
+test("tab manager undo history snapshots every list mutation", () => {
+  const handler = readText("src/lib/backgroundRuntime/handlers/tabManagerMessageHandler.ts");
+  assert.match(handler, /case "TAB_MANAGER_UNDO":[\s\S]*domain\.undo\(\)/);
+  assert.match(handler, /case "TAB_MANAGER_REDO":[\s\S]*domain\.redo\(\)/);
+
+  const domain = readText("src/lib/backgroundRuntime/domains/tabManagerDomain.ts");
+  for (const fn of ["tabManagerAdd", "tabManagerRemove", "reorder", "toggleLock", "clearAll"]) {
+    const body = domain.match(new RegExp(`async function ${fn}\\([\\s\\S]*?\\n  }\\n`))?.[0] || "";
+    assert.match(body, /recordListChange\(\)/, `${fn} should record an undo snapshot`);
+  }
+  assert.match(domain, /setList: \(list\) => \{\s*recordListChange\(\);/);
+  // Lowering the slot count must leave the dropped entries in undo history.
+  assert.match(domain, /recordListChange\(\);\s*tabManagerList = tabManagerList\.slice\(0, slotLimit\);/);
+});
+
+test("tab manager domain keys per-window lists and reclaims them on window restore", () => {
+  const source = readText("src/lib/backgroundRuntime/domains/tabManagerDomain.ts");
+
+  assert.match(source, /browser\.windows\.onRemoved\.addListener\(/);
+  assert.match(source, /async function reconcileTabManager\([\s\S]*adoptRestoredWindowLists\(tabs\)/);
+  assert.match(source, /tabManagerWindowLists:\s*\[\.\.\.windowLists\.values\(\)\]/);
+});
+
 test("session panel keeps save/load preflight + execution wiring", () => {
   const source = readText("src/lib/ui/panels/sessionMenu/session.ts");
 
   assert.match(source, /loadSessionPlanByName\(target\.name\)/);
-  assert.match(source, /await loadSessionByName\(session\.name\)/);
+  assert.match(source, /await loadSessionByName\(session\.name,\s*windowOptions\)/);
   assert.match(source, /await saveSessionByName\(name\.trim\(\)\)/);
   assert.match(source, /await updateSession\(session\.name\)/);
   assert.match(source, /await deleteSessionByNameRemote\(name\)/);
 });
+
+test("background tab grep checks the regex guard before messaging the tab", () => {
+  const source = readText("src/lib/backgroundRuntime/domains/pageSearchDomain.ts");
+  const grepTab = source.slice(source.indexOf("export async function grepTab("));
+
+  assert.match(source, /from "\.\.\/\.\.\/common\/utils\/searchRegex"/);
+  assert.ok(grepTab.indexOf("validateSearchQuery(query, mode)") !== -1);
+  assert.ok(grepTab.indexOf("validateSearchQuery(query, mode)") < grepTab.indexOf("sendMessage"));
+});
+
+test("session merge opens tabs with the same create properties as a session load", () => {
+  const source = readText("src/lib/backgroundRuntime/domains/sessionDomain.ts");
+  const merge = source.slice(source.indexOf("export async function sessionMerge("));
+
+  assert.match(merge, /openSessionTab\(state, entry, createPropertiesFor\(entry, targetWindowId\), lazy\)/);
+  assert.doesNotMatch(merge.slice(0, merge.indexOf("\n}\n")), /\{ url: entry\.url, active: false \}/);
+});
@@ -0,0 +1,152 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { build } from "esbuild";
+
+const ROOT = process.cwd();
+
+async function loadScrollModule() {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/scroll.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+/** Minimal page for the anchor walk: text blocks at absolute offsets, headings as
+ *  their own blocks. Only what captureScrollAnchor/restoreScrollPosition touch. */
+function installPage(scrollY, blocks) {
+  const scrolls = [];
+  const textNodes = blocks.map((block) => {
+    const el = {
+      tagName: block.heading ? "H2" : "P",
+      textContent: block.text,
+      closest: () => (block.heading ? el : null),
+      getBoundingClientRect: () => {
+        const top = block.top - globalThis.window.scrollY;
+        const height = block.height ?? 40;
+        return { top, bottom: top + height, height };
+      },
+    };
+    return { textContent: block.text, parentElement: el };
+  });
+  globalThis.NodeFilter = { SHOW_TEXT: 4 };
+  globalThis.document = {
+    body: {},
+    createTreeWalker: () => {
+      let index = 0;
+      return { nextNode: () => textNodes[index++] ?? null };
+    },
+  };
+  globalThis.window = {
+    scrollY,
+    scrollTo: (x, y) => scrolls.push([x, y]),
+  };
+  return scrolls;
+}
+
+function uninstallPage() {
+  delete globalThis.NodeFilter;
+  delete globalThis.document;
+  delete globalThis.window;
+}
+
+const paragraph = (id) => `Paragraph ${id} has enough text to act as a scroll anchor.`;
+
+test("scroll anchor captures the block crossing the viewport top with its heading and ratio", async (t) => {
+  const scroll = await loadScrollModule();
+  t.after(uninstallPage);
+
+  installPage(0, [{ text: paragraph(1), top: 0 }]);
+  assert.equal(scroll.captureScrollAnchor(), null);
+
+  installPage(1010, [
+    { text: "Setup", top: 900, heading: true },
+    { text: "short", top: 950 },
+    { text: paragraph(1), top: 960, height: 40 },
+    { text: paragraph(2), top: 1000, height: 40 },
+    { text: paragraph(3), top: 1040, height: 40 },
+  ]);
+  assert.deepEqual(scroll.captureScrollAnchor(), {
+    snippet: paragraph(2).slice(0, 80),
+    ratio: 0.25,
+    heading: "Setup",
+  });
+});
+
+test("scroll anchor capture reuses the last walk until the page scrolls or changes height", async (t) => {
+  const scroll = await loadScrollModule();
+  t.after(uninstallPage);
+
+  installPage(2000, [
+    { text: paragraph(1), top: 1990, height: 40 },
+    { text: paragraph(2), top: 2030, height: 40 },
+  ]);
+  let walks = 0;
+  const createTreeWalker = globalThis.document.createTreeWalker;
+  globalThis.document.createTreeWalker = (...args) => {
+    walks++;
+    return createTreeWalker(...args);
+  };
+  globalThis.document.body.scrollHeight = 5000;
+
+  const first = scroll.captureScrollAnchor();
+  assert.deepEqual(scroll.captureScrollAnchor(), first);
+  assert.equal(walks, 1);
+
+  globalThis.window.scrollY = 2040;
+  assert.equal(scroll.captureScrollAnchor().snippet, paragraph(2).slice(0, 80));
+  assert.equal(walks, 2);
+
+  // Content loaded in below the fold: the same offset may now sit on different text.
+  globalThis.document.body.scrollHeight = 6000;
+  scroll.captureScrollAnchor();
+  assert.equal(walks, 3);
+});
+
+test("scroll restore prefers the snippet under the saved heading, then the nearest copy", async (t) => {
+  const scroll = await loadScrollModule();
+  t.after(uninstallPage);
+  const repeated = paragraph("repeated");
+  const page = [
+    { text: "Intro", top: 0, heading: true },
+    { text: repeated, top: 400, height: 100 },
+    { text: "Usage", top: 2000, heading: true },
+    { text: repeated, top: 3000, height: 100 },
+  ];
+
+  // Same heading beats a copy closer to the saved pixel offset; the ratio lands inside the block.
+  let scrolls = installPage(0, page);
+  scroll.restoreScrollPosition(0, 500, { snippet: repeated, ratio: 0.5, heading: "Usage" });
+  assert.deepEqual(scrolls, [[0, 3050]]);
+
+  // With no heading to go on, the copy nearest the saved offset wins.
+  scrolls = installPage(0, page);
+  scroll.restoreScrollPosition(0, 2900, { snippet: repeated, ratio: 0 });
+  assert.deepEqual(scrolls, [[0, 3000]]);
+
+  // A heading that no longer exists falls back to the nearest copy, not to pixels.
+  scrolls = installPage(0, page);
+  scroll.restoreScrollPosition(0, 450, { snippet: repeated, ratio: 0, heading: "Gone" });
+  assert.deepEqual(scrolls, [[0, 400]]);
+});
+
+test("scroll restore falls back to pixels when the snippet is gone", async (t) => {
+  const scroll = await loadScrollModule();
+  t.after(uninstallPage);
+
+  let scrolls = installPage(0, [{ text: paragraph(1), top: 400 }]);
+  scroll.restoreScrollPosition(10, 1234, { snippet: paragraph(9), ratio: 0.5 });
+  assert.deepEqual(scrolls, [[10, 1234]]);
+
+  scrolls = installPage(0, [{ text: paragraph(1), top: 400 }]);
+  scroll.restoreScrollPosition(0, 777);
+  assert.deepEqual(scrolls, [[0, 777]]);
+});
@@ -0,0 +1,121 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { build } from "esbuild";
+
+const ROOT = process.cwd();
+
+async function loadSearchAllTabsCoreModule() {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/core/searchAllTabs/searchAllTabsCore.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+const target = (tabId) => ({ tabId, windowId: 1, title: `Tab ${tabId}`, url: `https://t${tabId}.dev`, isCurrent: false });
+const result = (text, score) => ({ lineNumber: 1, text, score });
+
+test("tab grep fan-out never exceeds the concurrency cap and stops when cancelled", async () => {
+  const core = await loadSearchAllTabsCoreModule();
+
+  let inFlight = 0;
+  let peak = 0;
+  const visited = [];
+  await core.runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, 5));
+    visited.push(item);
+    inFlight--;
+  });
+  assert.equal(peak, 3);
+  assert.deepEqual([...visited].sort(), [1, 2, 3, 4, 5, 6, 7]);
+
+  let started = 0;
+  let cancelled = false;
+  await core.runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+    started++;
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, 5));
+    cancelled = true;
+  }, () => cancelled);
+  assert.equal(started, 2);
+});
+
+test("streamed tab answers merge into groups ranked by best match", async () => {
+  const core = await loadSearchAllTabsCoreModule();
+
+  assert.equal(core.createTabGrepGroup(target(1), 0, []), null);
+
+  const many = Array.from({ length: 30 }, (_, index) => result(`line ${index}`, index));
+  const first = core.createTabGrepGroup(target(1), 0, many);
+  assert.equal(first.results.length, core.MAX_RESULTS_PER_TAB);
+  assert.equal(first.results[0].score, 29);
+
+  const weak = core.createTabGrepGroup(target(2), 1, [result("weak", 5)]);
+  const strong = core.createTabGrepGroup(target(3), 2, [result("strong", 50), result("other", 1)]);
+  let groups = core.insertTabGrepGroup([], weak);
+  groups = core.insertTabGrepGroup(groups, first);
+  groups = core.insertTabGrepGroup(groups, strong);
+  assert.deepEqual(groups.map((group) => group.target.tabId), [3, 1, 2]);
+
+  const hits = core.flattenTabGrepGroups(groups);
+  assert.equal(hits.length, 2 + core.MAX_RESULTS_PER_TAB + 1);
+  assert.equal(hits[0].result.text, "strong");
+
+  // Selection follows the same hit when a better tab streams in above it.
+  const selected = hits[2];
+  const better = core.createTabGrepGroup(target(4), 3, [result("best", 99)]);
+  const reranked = core.flattenTabGrepGroups(core.insertTabGrepGroup(groups, better));
+  assert.equal(core.findHitIndex(reranked, selected, 2), 3);
+
+  assert.equal(
+    core.describeTabGrepProgress({ done: 3, total: 5, timedOut: 1, failed: 0 }),
+    "3/5 tabs · 1 timed out",
+  );
+});
+
+test("a query the regex guard rejects is never sent to any tab", async () => {
+  const core = await loadSearchAllTabsCoreModule();
+
+  const sent = [];
+  let listed = 0;
+  const fanOut = {
+    listTargets: async () => {
+      listed++;
+      return [target(1), target(2), target(3)];
+    },
+    grep: async (tab) => {
+      sent.push(tab.tabId);
+      return { ok: true, results: [result("hit", 1)] };
+    },
+    onTargets: () => {},
+    onAnswer: () => {},
+    isCancelled: () => false,
+  };
+
+  for (const pattern of ["(a|a)*b", "(a|aa)*c", "\\w*\\w*\\w*\\w*!", "(a+)+$"]) {
+    const outcome = await core.grepAllTabs(pattern, "regex", fanOut);
+    assert.equal(outcome.ok, false, pattern);
+    assert.ok(outcome.reason);
+  }
+  assert.equal(listed, 0);
+  assert.deepEqual(sent, []);
+
+  // The same text is harmless as a fuzzy query and is sent everywhere.
+  const answered = [];
+  const outcome = await core.grepAllTabs("(a|a)*b", "fuzzy", {
+    ...fanOut,
+    onAnswer: (tab, order, response) => answered.push([tab.tabId, order, response.ok]),
+  });
+  assert.equal(outcome.ok, true);
+  assert.deepEqual([...sent].sort(), [1, 2, 3]);
+  assert.deepEqual(answered.sort(), [[1, 0, true], [2, 1, true], [3, 2, true]]);
+});
@@ -0,0 +1,202 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { transform } from "esbuild";
+
+const ROOT = process.cwd();
+
+async function loadSearchRootsModule() {
+  const source = readFileSync(resolve(ROOT, "src/lib/common/utils/searchRoots.ts"), "utf8");
+  const transformed = await transform(source, { loader: "ts", format: "esm", target: "es2022" });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(transformed.code, "utf8").toString("base64")}`
+  );
+}
+
+const NodeFilter = { SHOW_ELEMENT: 1, FILTER_ACCEPT: 1, FILTER_REJECT: 2, FILTER_SKIP: 3 };
+
+function descendants(node) {
+  return node.children.flatMap((child) => [child, ...descendants(child)]);
+}
+
+/** Light-DOM element; only the frame selector is supported, so a full "*" scan fails loudly */
+function element(tagName, props = {}, children = []) {
+  const el = { tagName, id: "", ...props, children };
+  el.querySelectorAll = (selector) => {
+    assert.equal(selector, "iframe, frame");
+    return descendants(el).filter((child) => child.tagName === "IFRAME" || child.tagName === "FRAME");
+  };
+  return el;
+}
+
+/** Document stand-in whose TreeWalker honors accept, skip, and reject like the real one */
+function fakeDocument(body, visited) {
+  return {
+    body,
+    createTreeWalker(walkRoot, whatToShow, filter) {
+      assert.equal(whatToShow, NodeFilter.SHOW_ELEMENT);
+      const accepted = [];
+      const walk = (node) => {
+        for (const child of node.children) {
+          visited.push(child);
+          const verdict = filter.acceptNode(child);
+          if (verdict === NodeFilter.FILTER_ACCEPT) accepted.push(child);
+          if (verdict !== NodeFilter.FILTER_REJECT) walk(child);
+        }
+      };
+      walk(walkRoot);
+      return { nextNode: () => accepted.shift() ?? null };
+    },
+  };
+}
+
+function root(children = []) {
+  return element("#root", {}, children);
+}
+
+function frameDocument(title, url, children = []) {
+  const body = element("BODY", {}, children);
+  body.ownerDocument = { title, URL: url, ...fakeDocument(body, []) };
+  return body.ownerDocument;
+}
+
+function iframe(props, frameDoc) {
+  return element("IFRAME", { ...props, contentDocument: frameDoc });
+}
+
+function crossOriginFrame() {
+  const el = element("IFRAME", { title: "Ads" });
+  Object.defineProperty(el, "contentDocument", {
+    get() {
+      throw new Error("SecurityError: cross-origin frame");
+    },
+  });
+  return el;
+}
+
+function collectWithBody(searchRoots, body, visited = []) {
+  globalThis.document = fakeDocument(body, visited);
+  globalThis.NodeFilter = NodeFilter;
+  try {
+    return searchRoots.collectSearchRoots();
+  } finally {
+    delete globalThis.document;
+    delete globalThis.NodeFilter;
+  }
+}
+
+test("search roots include open shadow roots but never the extension's own panel host", async () => {
+  const searchRoots = await loadSearchRootsModule();
+
+  const widgetShadow = root([element("P")]);
+  const panelShadow = root([element("INPUT")]);
+  const panelChild = element("SPAN");
+  const body = element("BODY", {}, [
+    element("MY-WIDGET", { shadowRoot: widgetShadow }),
+    element("DIV", { id: "ht-panel-host", shadowRoot: panelShadow }, [panelChild]),
+  ]);
+
+  const visited = [];
+  const roots = collectWithBody(searchRoots, body, visited);
+  assert.deepEqual(roots.map((entry) => entry.node), [body, widgetShadow]);
+  assert.ok(roots.every((entry) => entry.frame === undefined));
+  // The panel host is rejected outright, so nothing beneath it is even looked at.
+  assert.equal(visited.includes(panelChild), false);
+});
+
+test("search roots skip cross-origin and empty frames and label frames from title, name or URL", async () => {
+  const searchRoots = await loadSearchRootsModule();
+
+  const named = frameDocument("", "https://x.dev/a", [element("P")]);
+  const titled = frameDocument("Doc title", "https://x.dev/b", [element("P")]);
+  const byUrl = frameDocument("", "https://x.dev/embed/player", [element("P")]);
+  const body = element("BODY", {}, [
+    crossOriginFrame(),
+    iframe({ title: "Blank" }, null),
+    iframe({ name: "sidebar" }, named),
+    iframe({}, titled),
+    iframe({}, byUrl),
+  ]);
+
+  const roots = collectWithBody(searchRoots, body);
+  assert.deepEqual(roots.map((entry) => entry.frame), [undefined, "sidebar", "Doc title", "player"]);
+  assert.deepEqual(roots.slice(1).map((entry) => entry.node), [named.body, titled.body, byUrl.body]);
+});
+
+test("search roots give repeated frame labels unique suffixes in document order", async () => {
+  const searchRoots = await loadSearchRootsModule();
+
+  const first = frameDocument("", "https://x.dev/1", [element("P")]);
+  const second = frameDocument("", "https://x.dev/2", [element("P")]);
+  const nestedInner = frameDocument("", "https://x.dev/inner", [element("P")]);
+  const outer = frameDocument("", "https://x.dev/outer", [
+    iframe({ title: "Comments" }, nestedInner),
+  ]);
+  const body = element("BODY", {}, [
+    iframe({ title: "Comments" }, first),
+    iframe({ title: "Comments" }, second),
+    iframe({ title: "Thread" }, outer),
+  ]);
+
+  const roots = collectWithBody(searchRoots, body);
+  const byFrame = new Map(roots.map((entry) => [entry.frame, entry.node]));
+  // Each label maps to exactly one root, so scrolling by label hits the right frame.
+  assert.equal(byFrame.size, roots.length);
+  assert.equal(byFrame.get("Comments"), first.body);
+  assert.equal(byFrame.get("Comments (2)"), second.body);
+  assert.equal(byFrame.get("Thread › Comments"), nestedInner.body);
+
+  // A second walk produces the same labels, which is what scroll-to-text relies on.
+  assert.deepEqual(collectWithBody(searchRoots, body).map((entry) => entry.frame), roots.map((entry) => entry.frame));
+});
+
+test("search roots stop descending into nested frames after three levels", async () => {
+  const searchRoots = await loadSearchRootsModule();
+
+  let innermost = frameDocument("", "https://x.dev/level4", [element("P")]);
+  for (const level of [3, 2, 1]) {
+    innermost = frameDocument("", `https://x.dev/level${level}`, [
+      iframe({ title: `L${level + 1}` }, innermost),
+    ]);
+  }
+  const body = element("BODY", {}, [iframe({ title: "L1" }, innermost)]);
+
+  const roots = collectWithBody(searchRoots, body);
+  assert.deepEqual(roots.map((entry) => entry.frame), [
+    undefined,
+    "L1",
+    "L1 › L2",
+    "L1 › L2 › L3",
+  ]);
+});
+
+test("link and heading lookups stop at the body of the match's own frame document", async () => {
+  const source = readFileSync(resolve(ROOT, "src/lib/ui/panels/searchCurrentPage/grep/grepDom.ts"), "utf8");
+  const transformed = await transform(source, { loader: "ts", format: "esm", target: "es2022" });
+  const grepDom = await import(
+    `data:text/javascript;base64,${Buffer.from(transformed.code, "utf8").toString("base64")}`
+  );
+
+  // Frame body whose parent must never be read: the walk ends at the frame's own body.
+  const frameBody = { tagName: "BODY", previousElementSibling: null };
+  Object.defineProperty(frameBody, "parentElement", {
+    get() {
+      throw new Error("walked past the frame body");
+    },
+  });
+  const frameDoc = { body: frameBody };
+  const link = { tagName: "A", href: "https://x.dev/docs", parentElement: frameBody, previousElementSibling: null, ownerDocument: frameDoc };
+  const span = { tagName: "SPAN", nodeType: 1, parentElement: link, previousElementSibling: null, ownerDocument: frameDoc };
+  frameBody.ownerDocument = frameDoc;
+
+  globalThis.Node = { ELEMENT_NODE: 1 };
+  globalThis.document = { body: { tagName: "BODY" } };
+  try {
+    assert.equal(grepDom.findHref(span), "https://x.dev/docs");
+    assert.equal(grepDom.findAncestorHeading(span), undefined);
+  } finally {
+    delete globalThis.Node;
+    delete globalThis.document;
+  }
+});
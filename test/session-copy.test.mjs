@@ -0,0 +1,36 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadSessionDomain() {
+  return await loadWithFakeBrowser(["src/lib/backgroundRuntime/domains/sessionDomain.ts"]);
+}
+
+const tab = (url) => ({ url, title: "", scrollX: 0, scrollY: 0 });
+const urls = (count, host) => Array.from({ length: count }, (_, index) => `https://${host}.dev/${index + 1}`);
+
+test("copying into a full plain session is refused instead of dropped on load", async (t) => {
+  const domains = await loadSessionDomain();
+  const fake = installFakeBrowser(t, {
+    storage: {
+      tabManagerSessions: [
+        { name: "Full", savedAt: 1, entries: urls(4, "full").map(tab) },
+        { name: "Window", savedAt: 1, kind: "window", entries: urls(4, "win").map(tab) },
+        { name: "Source", savedAt: 1, entries: [tab("https://new.dev"), tab("https://full.dev/2")] },
+      ],
+    },
+  });
+
+  assert.deepEqual(
+    await domains.sessionCopyEntries("Source", "Full", ["https://new.dev"]),
+    { ok: false, reason: "\"Full\" is full (4 slots)" },
+  );
+  assert.equal(fake.store.tabManagerSessions[0].entries.length, 4);
+
+  // Updating a page the session already has does not grow it.
+  assert.deepEqual(await domains.sessionCopyEntries("Source", "Full", ["https://full.dev/2"]), { ok: true, count: 1 });
+
+  // Window snapshots reopen every tab, so they take extra entries past the slots.
+  assert.deepEqual(await domains.sessionCopyEntries("Source", "Window", ["https://new.dev"]), { ok: true, count: 1 });
+  assert.equal(fake.store.tabManagerSessions[1].entries.length, 5);
+});
@@ -2,7 +2,7 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
-import { transform } from "esbuild";
+import { build, transform } from "esbuild";
 
 const ROOT = process.cwd();
 
@@ -65,6 +65,45 @@ test("sessionCore load confirmation transition stores plan context", async () =>
   assert.equal(next.pendingDeleteSessionName, "");
 });
 
+test("sessionCore load target cycles current, new window, new window keeping blank tab", async () => {
+  const core = await loadSessionCoreModule();
+  const summary = { sessionName: "alpha", totalCount: 1, replaceCount: 1, openCount: 1, reuseCount: 0, slotDiffs: [], reuseMatches: [] };
+  const loading = core.startSessionLoadConfirmation(core.createSessionTransientState(), "alpha", summary);
+  assert.equal(loading.pendingLoadWindow, null);
+
+  const newWindow = core.cycleSessionLoadWindow(loading);
+  assert.deepEqual(newWindow.pendingLoadWindow, { newWindow: true, closeBlankTab: true });
+  const keepBlank = core.cycleSessionLoadWindow(newWindow);
+  assert.deepEqual(keepBlank.pendingLoadWindow, { newWindow: true, closeBlankTab: false });
+  assert.equal(core.cycleSessionLoadWindow(keepBlank).pendingLoadWindow, null);
+  assert.equal(core.stopSessionLoadConfirmation(newWindow).pendingLoadWindow, null);
+
+  // A plan recomputed for the new target replaces the summary but keeps the target.
+  const retargeted = core.updateSessionLoadSummary(newWindow, { ...summary, reuseCount: 0 });
+  assert.equal(retargeted.pendingLoadSummary.reuseCount, 0);
+  assert.deepEqual(retargeted.pendingLoadWindow, newWindow.pendingLoadWindow);
+  const closed = core.stopSessionLoadConfirmation(newWindow);
+  assert.equal(core.updateSessionLoadSummary(closed, summary), closed);
+});
+
+test("sessionCore revision browse clamps selection and blocks the list", async () => {
+  const core = await loadSessionCoreModule();
+  const revisions = [{ replacedAt: 2 }, { replacedAt: 1 }];
+  const browsing = core.startSessionRevisionBrowse(core.createSessionTransientState(), "alpha", revisions);
+
+  assert.equal(core.hasActiveSessionConfirmation(browsing), true);
+  assert.equal(browsing.revisionIndex, 0);
+  assert.equal(core.moveSessionRevisionSelection(browsing, "up").revisionIndex, 0);
+  const older = core.moveSessionRevisionSelection(browsing, "down");
+  assert.equal(older.revisionIndex, 1);
+  assert.equal(core.moveSessionRevisionSelection(older, "down").revisionIndex, 1);
+  assert.equal(core.selectSessionRevision(older, 5).revisionIndex, 1);
+
+  const stopped = core.stopSessionRevisionBrowse(older);
+  assert.equal(stopped.isRevisionBrowseActive, false);
+  assert.deepEqual(stopped.pendingRevisions, []);
+});
+
 test("sessionCore delete confirmation transition clears conflicting transient modes", async () => {
   const core = await loadSessionCoreModule();
   const summary = { sessionName: "alpha", totalCount: 1, replaceCount: 1, openCount: 1, reuseCount: 0, slotDiffs: [], reuseMatches: [] };
@@ -130,3 +169,264 @@ test("sessionCore hasActiveSessionConfirmation only tracks confirm sub-modes", a
   const withDelete = core.startSessionDeleteConfirmation(clean, "beta");
   assert.equal(core.hasActiveSessionConfirmation(withDelete), true);
 });
+
+test("session labels split folder path and #tags and round-trip through the formatter", async () => {
+  const source = readFileSync(resolve(ROOT, "src/lib/common/utils/sessionLabels.ts"), "utf8");
+  const transformed = await transform(source, { loader: "ts", format: "esm", target: "es2022" });
+  const labels = await import(
+    `data:text/javascript;base64,${Buffer.from(transformed.code, "utf8").toString("base64")}`
+  );
+
+  const parts = labels.parseSessionLabel(" work / client/Research  #Debug #q3 #debug ");
+  assert.deepEqual(parts, { name: "Research", folder: "work/client", tags: ["debug", "q3"] });
+  assert.equal(labels.formatSessionLabel(parts), "work/client/Research #debug #q3");
+  assert.deepEqual(labels.parseSessionLabel("Plain name"), { name: "Plain name" });
+  assert.equal(labels.parseSessionLabel("#only-tags").name, "");
+
+  // Names saved before folders existed keep their slash through a rename round-trip.
+  const legacy = { name: "TODO 1/2", tags: ["home"] };
+  const prefilled = labels.formatSessionLabel(legacy);
+  assert.equal(prefilled, "TODO 1\\/2 #home");
+  assert.deepEqual(labels.parseSessionLabel(prefilled), legacy);
+  assert.deepEqual(labels.parseSessionLabel("work/a\\/b\\\\c"), { name: "a/b\\c", folder: "work" });
+  assert.deepEqual(
+    labels.parseSessionLabel(labels.formatSessionLabel({ name: "x\\", folder: "f" })),
+    { name: "x\\", folder: "f" },
+  );
+
+  // A "#word" inside a legacy name stays part of the name instead of turning into a tag.
+  const hashed = { name: "Bug #42 and #q3 notes", tags: ["triage"] };
+  assert.equal(labels.formatSessionLabel(hashed), "Bug \\#42 and \\#q3 notes #triage");
+  assert.deepEqual(labels.parseSessionLabel(labels.formatSessionLabel(hashed)), hashed);
+  assert.deepEqual(labels.parseSessionLabel("C\\# tips #dev"), { name: "C# tips", tags: ["dev"] });
+});
+
+test("session transfer round-trips JSON exports and URL lists through validation", async () => {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/sessionTransfer.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  const transfer = await import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+
+  const sessions = sampleSessions();
+  sessions[0].entries[0].scrollY = 420;
+  sessions[0].tags = ["work"];
+  const fromJson = transfer.parseSessionImport(transfer.buildSessionExportJson(sessions), "Fallback", 4);
+  assert.equal(fromJson.ok, true);
+  assert.deepEqual(fromJson.sessions.map((session) => session.name), ["alpha", "beta"]);
+  assert.equal(fromJson.sessions[0].entries[0].scrollY, 420);
+  assert.deepEqual(fromJson.sessions[0].tags, ["work"]);
+
+  const newer = JSON.stringify({ format: transfer.SESSION_EXPORT_FORMAT, version: 99, sessions });
+  assert.equal(transfer.parseSessionImport(newer, "Fallback", 4).ok, false);
+
+  const fromList = transfer.parseSessionImport(transfer.buildSessionUrlList(sessions), "Fallback", 4);
+  assert.deepEqual(fromList.sessions.map((session) => session.name), ["alpha", "beta"]);
+
+  const plain = transfer.parseSessionImport("https://x.dev\nnot a url\n\nhttps://y.dev\n", "Pasted", 4);
+  assert.equal(plain.skipped, 1);
+  assert.deepEqual(plain.sessions[0].entries.map((entry) => entry.url), ["https://x.dev", "https://y.dev"]);
+  assert.equal(plain.sessions[0].name, "Pasted");
+  assert.equal(plain.sessions[0].kind, undefined);
+
+  // JSON exports go through the same URL check as pasted lists.
+  const unsafe = JSON.stringify({
+    format: transfer.SESSION_EXPORT_FORMAT,
+    version: 1,
+    sessions: [
+      { name: "mixed", entries: [{ url: "javascript:alert(1)" }, { url: "https://ok.dev" }, { url: "data:text/html,hi" }] },
+      { name: "scripts", entries: [{ url: "javascript:void 0" }] },
+    ],
+  });
+  const filtered = transfer.parseSessionImport(unsafe, "Fallback", 4);
+  assert.deepEqual(filtered.sessions.map((session) => session.name), ["mixed"]);
+  assert.deepEqual(filtered.sessions[0].entries.map((entry) => entry.url), ["https://ok.dev"]);
+  assert.equal(filtered.skipped, 4);
+});
+
+test("session import turns lists longer than the slot count into window snapshots", async () => {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/sessionTransfer.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  const transfer = await import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+  const urls = Array.from({ length: 6 }, (_, index) => `https://site.dev/${index + 1}`);
+
+  const [long] = transfer.parseSessionImport(urls.join("\n"), "Reading", 4).sessions;
+  assert.equal(long.kind, "window");
+  assert.deepEqual(long.entries.map((entry) => entry.anchorSlot), [1, 2, 3, 4, undefined, undefined]);
+
+  const [fits] = transfer.parseSessionImport(urls.join("\n"), "Reading", 6).sessions;
+  assert.equal(fits.kind, undefined);
+  assert.equal(fits.entries.some((entry) => "anchorSlot" in entry), false);
+
+  const exported = transfer.buildSessionExportJson([
+    { name: "big", savedAt: 1, entries: urls.map((url) => ({ url, title: "", scrollX: 0, scrollY: 0 })) },
+  ]);
+  assert.equal(transfer.parseSessionImport(exported, "Fallback", 4).sessions[0].kind, "window");
+});
+
+test("session diff matches entries by normalized URL and copies them across", async () => {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/sessionDiff.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  const diff = await import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+
+  const entry = (url, title) => ({ url, title, scrollX: 0, scrollY: 0 });
+  const left = [entry("https://a.dev/", "A"), entry("https://b.dev", "B"), entry("https://gone.dev", "Gone")];
+  const right = [entry("https://www.a.dev", "A"), entry("https://new.dev", "New"), entry("https://b.dev", "B2")];
+
+  const rows = diff.diffSessionEntries(left, right);
+  assert.deepEqual(rows.map((row) => row.change), ["same", "changed", "removed", "added"]);
+  assert.equal(rows[3].right.url, "https://new.dev");
+
+  const copied = diff.copySessionEntries(left, right, ["https://new.dev", "https://b.dev"]);
+  assert.equal(copied.copied, 2);
+  assert.deepEqual(copied.entries.map((item) => item.title), ["A", "B2", "Gone", "New"]);
+  assert.equal(left[1].title, "B");
+
+  // Between window snapshots a copy takes the target's slot, never the source's.
+  const windowLeft = [{ ...entry("https://a.dev", "A"), anchorSlot: 1 }, { ...entry("https://b.dev", "B"), anchorSlot: 2 }];
+  const windowRight = [{ ...entry("https://c.dev", "C"), anchorSlot: 1 }, { ...entry("https://b.dev", "B2"), anchorSlot: 3 }];
+  const anchored = diff.copySessionEntries(windowLeft, windowRight, ["https://c.dev", "https://b.dev"]);
+  assert.deepEqual(
+    anchored.entries.map((item) => [item.url, item.anchorSlot]),
+    [["https://a.dev", 1], ["https://b.dev", 2], ["https://c.dev", undefined]],
+  );
+});
+
+async function loadSessionPlansModule() {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/sessionPlans.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+const savedEntry = (url, title = "") => ({ url, title, scrollX: 0, scrollY: 0 });
+const liveEntry = (slot, url, title = "") => ({ tabId: 100 + slot, slot, url, title, scrollX: 0, scrollY: 0 });
+
+test("session merge fills the empty slots after the current list in session order", async () => {
+  const plans = await loadSessionPlansModule();
+
+  const current = [liveEntry(1, "https://a.dev", "A")];
+  const merge = plans.computeSessionMerge(
+    [savedEntry("https://b.dev", "B"), savedEntry("https://c.dev")],
+    current,
+    4,
+  );
+  assert.deepEqual(merge.fillEntries.map((entry) => entry.url), ["https://b.dev", "https://c.dev"]);
+  assert.deepEqual(
+    merge.slotDiffs.map((row) => [row.slot, row.change, row.incomingTitle]),
+    [[2, "fill", "B"], [3, "fill", "https://c.dev"]],
+  );
+  assert.equal(merge.duplicateCount, 0);
+  assert.equal(merge.dropCount, 0);
+
+  const intoEmpty = plans.computeSessionMerge([savedEntry("https://b.dev", "B")], [], 4);
+  assert.deepEqual(intoEmpty.slotDiffs.map((row) => row.slot), [1]);
+});
+
+test("session merge skips URLs already in the list or repeated in the session", async () => {
+  const plans = await loadSessionPlansModule();
+
+  const current = [liveEntry(1, "https://a.dev/", "A"), liveEntry(2, "https://b.dev", "B")];
+  const merge = plans.computeSessionMerge(
+    [
+      savedEntry("https://www.a.dev", "A again"),
+      savedEntry("https://c.dev", "C"),
+      savedEntry("https://c.dev/#top", "C twice"),
+    ],
+    current,
+    9,
+  );
+  assert.deepEqual(merge.fillEntries.map((entry) => entry.title), ["C"]);
+  assert.equal(merge.duplicateCount, 2);
+  const duplicates = merge.slotDiffs.filter((row) => row.change === "duplicate");
+  // Each duplicate points at the slot that already holds the page.
+  assert.deepEqual(duplicates.map((row) => [row.slot, row.currentTitle]), [[1, "A"], [3, "C"]]);
+});
+
+test("session merge drops entries past the slot limit without counting duplicates", async () => {
+  const plans = await loadSessionPlansModule();
+
+  const current = [liveEntry(1, "https://a.dev"), liveEntry(2, "https://b.dev")];
+  const merge = plans.computeSessionMerge(
+    [
+      savedEntry("https://c.dev", "C"),
+      savedEntry("https://a.dev", "A"),
+      savedEntry("https://d.dev", "D"),
+      savedEntry("https://e.dev", "E"),
+    ],
+    current,
+    3,
+  );
+  assert.deepEqual(merge.fillEntries.map((entry) => entry.title), ["C"]);
+  assert.equal(merge.duplicateCount, 1);
+  assert.equal(merge.dropCount, 2);
+  assert.deepEqual(
+    merge.slotDiffs.filter((row) => row.change === "drop").map((row) => [row.slot, row.incomingTitle]),
+    [[0, "D"], [0, "E"]],
+  );
+
+  const full = plans.computeSessionMerge([savedEntry("https://z.dev")], current, 2);
+  assert.equal(full.fillEntries.length, 0);
+  assert.equal(full.dropCount, 1);
+});
+
+test("window snapshots split anchored tabs into slots and keep the rest in saved order", async () => {
+  const plans = await loadSessionPlansModule();
+
+  const free1 = savedEntry("https://free1.dev");
+  const anchored3 = { ...savedEntry("https://three.dev"), anchorSlot: 3 };
+  const free2 = savedEntry("https://free2.dev");
+  const anchored1 = { ...savedEntry("https://one.dev"), anchorSlot: 1 };
+  const anchored2 = { ...savedEntry("https://two.dev"), anchorSlot: 2 };
+  const window = { kind: "window", entries: [free1, anchored3, free2, anchored1, anchored2] };
+
+  const split = plans.splitSessionEntries(window, 9);
+  assert.deepEqual(split.slotEntries, [anchored1, anchored2, anchored3]);
+  assert.deepEqual(split.extraEntries, [free1, free2]);
+
+  // Anchored tabs past the slot count reopen without a slot instead of vanishing.
+  const narrow = plans.splitSessionEntries(window, 2);
+  assert.deepEqual(narrow.slotEntries, [anchored1, anchored2]);
+  assert.deepEqual(narrow.extraEntries, [free1, anchored3, free2]);
+
+  const list = plans.splitSessionEntries({ entries: [free1, anchored3, free2] }, 2);
+  assert.deepEqual(list.slotEntries, [free1, anchored3]);
+  assert.deepEqual(list.extraEntries, []);
+
+  // Slot tabs open first; moving them back follows the saved tab strip, skipping failures.
+  const opened = new Map([[anchored1, 11], [anchored2, 12], [anchored3, 13], [free2, 15]]);
+  assert.deepEqual(plans.savedTabStripOrder(window.entries, opened), [13, 15, 11, 12]);
+});
@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+    "src/lib/backgroundRuntime/domains/sessionDomain.ts",
+  ]);
+}
+
+const docs = { url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 0 };
+const mail = { url: "https://mail.dev/inbox", title: "Inbox", scrollX: 0, scrollY: 0 };
+
+function installDocsWindow(t, keybindings) {
+  return installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: docs.url, active: true },
+      { id: 2, windowId: 1, url: mail.url },
+    ],
+    storage: {
+      tabManagerList: [{ ...docs, tabId: 1, slot: 1 }, { ...mail, tabId: 2, slot: 2 }],
+      tabManagerSessions: [{ name: "Work", savedAt: 1, entries: [docs, { ...mail, url: "https://mail.dev/sent" }] }],
+      ...(keybindings ? { keybindings } : {}),
+    },
+  });
+}
+
+test("load plan for a new window reuses no current tabs", async (t) => {
+  const domains = await loadDomains();
+  installDocsWindow(t);
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  const here = (await domains.sessionLoadPlan(tabManager.state, "Work")).summary;
+  assert.deepEqual([here.reuseCount, here.openCount, here.replaceCount], [1, 1, 2]);
+  assert.equal(here.reuseMatches.length, 1);
+
+  // The shared list is still replaced, but every tab opens fresh in the new window.
+  const fresh = (await domains.sessionLoadPlan(tabManager.state, "Work", { newWindow: true })).summary;
+  assert.deepEqual([fresh.reuseCount, fresh.openCount, fresh.replaceCount], [0, 2, 2]);
+  assert.deepEqual(fresh.reuseMatches, []);
+  assert.deepEqual(fresh.slotDiffs.map((row) => row.change), ["replace", "replace"]);
+});
+
+test("load plan for a new window with per-window lists starts from an empty list", async (t) => {
+  const domains = await loadDomains();
+  installDocsWindow(t, { tabManagerScope: "window" });
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  const fresh = (await domains.sessionLoadPlan(tabManager.state, "Work", { newWindow: true })).summary;
+  assert.deepEqual([fresh.reuseCount, fresh.openCount, fresh.replaceCount], [0, 2, 0]);
+  assert.deepEqual(fresh.slotDiffs.map((row) => row.change), ["add", "add"]);
+});
@@ -0,0 +1,37 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadSessionView() {
+  return await loadWithFakeBrowser(["src/lib/ui/panels/sessionMenu/sessionView.ts"]);
+}
+
+const tab = (url, title) => ({ url, title, scrollX: 0, scrollY: 0 });
+
+function searchSessions() {
+  return [
+    { name: "Reading", savedAt: 1, entries: [tab("https://blog.dev/rust-async", "Async Rust in practice")] },
+    { name: "Work", savedAt: 2, entries: [tab("https://mail.dev", "Inbox"), tab("https://ci.dev/kubernetes/builds", "Builds")] },
+    { name: "Kubernetes notes", savedAt: 3, entries: [tab("https://k8s.io/docs", "Docs")] },
+  ];
+}
+
+test("session search matches saved tab titles and URLs below session names", async (t) => {
+  installFakeBrowser(t);
+  const view = await loadSessionView();
+  const sessions = searchSessions();
+
+  // A name hit ranks ahead of a session that only matches through a saved URL.
+  assert.deepEqual(view.getFilteredSessionIndices(sessions, "kubernetes"), [2, 1]);
+  const urlMatch = view.getSessionEntryMatch(sessions[1], "kubernetes");
+  assert.deepEqual([urlMatch.entryIndex, urlMatch.field], [1, "url"]);
+  assert.equal(view.getSessionEntryMatch(sessions[2], "kubernetes"), null);
+
+  // Titles match too, and the matched tab is what the preview points at.
+  assert.deepEqual(view.getFilteredSessionIndices(sessions, "in practice"), [0]);
+  assert.equal(view.getSessionEntryMatch(sessions[0], "in practice").field, "title");
+  assert.match(view.buildSessionPreviewHtml(sessions[0], 0), /ht-session-preview-item-match/);
+
+  assert.deepEqual(view.getFilteredSessionIndices(sessions, "nothing here"), []);
+  assert.equal(view.getSessionEntryMatch(sessions[0], ""), null);
+});
@@ -0,0 +1,47 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+    "src/lib/backgroundRuntime/lifecycle/startupRestore.ts",
+  ]);
+}
+
+const lifecycleHooks = { onTabClosed: async () => {}, onTabActivated: async () => {} };
+
+test("a browser restart leaves the auto-snapshot of the old working set untouched", async (t) => {
+  const domains = await loadDomains();
+  const snapshot = {
+    savedAt: 500,
+    entries: [{ url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 40 }],
+  };
+  // After the restart, tab 1 is an unrelated page that happens to reuse the old ID.
+  const fake = installFakeBrowser(t, {
+    tabs: [{ id: 1, windowId: 1, url: "https://news.dev", active: true }],
+    storage: {
+      tabManagerList: [{ tabId: 1, url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 40, slot: 1 }],
+      tabManagerAutoSnapshot: snapshot,
+    },
+  });
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+  tabManager.registerLifecycleListeners(lifecycleHooks);
+  domains.registerStartupRestore({ clearTabManager: async () => await tabManager.clearAll() });
+
+  await fake.listeners["runtime.onStartup"]();
+  assert.deepEqual(tabManager.list(), []);
+
+  // The unrelated tab loading no longer touches the list, so nothing re-snapshots it.
+  fake.navigate(1, "https://news.dev/today");
+  await fake.listeners["tabs.onUpdated"](1, { url: "https://news.dev/today" }, { id: 1, url: "https://news.dev/today" });
+  t.mock.timers.tick(5000);
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepEqual(fake.store.tabManagerAutoSnapshot, snapshot);
+
+  // Declining the prompt still leaves the old list one undo away.
+  assert.equal((await tabManager.undo()).ok, true);
+  assert.equal(tabManager.list()[0].url, "https://docs.dev/guide");
+});
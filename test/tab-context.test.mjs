@@ -0,0 +1,90 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadTabContext() {
+  return await loadWithFakeBrowser(["src/lib/adapters/browser/tabContextCompat.ts"]);
+}
+
+/** Tab group support on top of the fake browser: `groups` are the live groups. */
+function installTabGroups(groups) {
+  const calls = { grouped: [], groupUpdates: [] };
+  let nextGroupId = 500;
+  globalThis.fakeBrowser.tabs.group = async ({ tabIds, groupId, createProperties }) => {
+    const id = groupId ?? nextGroupId++;
+    if (groupId == null) groups.push({ id, windowId: createProperties?.windowId, title: "", color: "grey" });
+    calls.grouped.push({ tabIds, groupId: id });
+    return id;
+  };
+  globalThis.fakeBrowser.tabGroups = {
+    get: async (groupId) => {
+      const group = groups.find((candidate) => candidate.id === groupId);
+      if (!group) throw new Error(`No group with id: ${groupId}`);
+      return { ...group };
+    },
+    query: async ({ title, windowId }) => groups
+      .filter((group) => group.title === title && group.windowId === windowId),
+    update: async (groupId, props) => {
+      calls.groupUpdates.push([groupId, props]);
+      Object.assign(groups.find((group) => group.id === groupId), props);
+    },
+  };
+  return calls;
+}
+
+test("tab context records custom containers and group details, never default stores", async (t) => {
+  const tabContext = await loadTabContext();
+  installFakeBrowser(t);
+  installTabGroups([{ id: 7, windowId: 1, title: "Research", color: "blue" }]);
+
+  assert.deepEqual(await tabContext.readTabContext({ id: 1, cookieStoreId: "firefox-default", groupId: -1 }), {});
+  assert.deepEqual(await tabContext.readTabContext({ id: 1, cookieStoreId: "firefox-container-2", groupId: 7 }), {
+    cookieStoreId: "firefox-container-2",
+    group: { id: 7, title: "Research", color: "blue" },
+  });
+  assert.equal(tabContext.hasTabContext({}), false);
+});
+
+test("reopening into a container falls back to a plain tab when the container is gone", async (t) => {
+  const tabContext = await loadTabContext();
+  let fake = installFakeBrowser(t);
+  const context = { cookieStoreId: "firefox-container-2" };
+
+  const reopened = await tabContext.createTabInContext({ url: "https://mail.dev", active: true }, context);
+  assert.deepEqual(fake.calls.created, [{ url: "https://mail.dev", active: true, cookieStoreId: "firefox-container-2" }]);
+  assert.deepEqual(reopened.context, context);
+
+  fake = installFakeBrowser(t, { rejectCreate: (props) => "cookieStoreId" in props });
+  const plain = await tabContext.createTabInContext({ url: "https://mail.dev", active: true }, context);
+  assert.deepEqual(fake.calls.created, [{ url: "https://mail.dev", active: true }]);
+  assert.equal(plain.tab.url, "https://mail.dev");
+});
+
+test("reopening into a group after a restart joins the same-titled group or recreates it", async (t) => {
+  const tabContext = await loadTabContext();
+  const recorded = { group: { id: 7, title: "Research", color: "blue" } };
+
+  // Group ids changed across the restart; a same-titled, same-colored group in the window is reused.
+  installFakeBrowser(t);
+  let calls = installTabGroups([
+    { id: 30, windowId: 1, title: "Research", color: "red" },
+    { id: 31, windowId: 1, title: "Research", color: "blue" },
+  ]);
+  let reopened = await tabContext.createTabInContext({ url: "https://docs.dev", windowId: 1 }, recorded);
+  assert.deepEqual(calls.grouped, [{ tabIds: reopened.tab.id, groupId: 31 }]);
+  assert.deepEqual(reopened.context.group, { id: 31, title: "Research", color: "blue" });
+
+  // No such group anymore: a new one is created and given the recorded title and color.
+  installFakeBrowser(t);
+  calls = installTabGroups([]);
+  reopened = await tabContext.createTabInContext({ url: "https://docs.dev", windowId: 1 }, recorded);
+  assert.deepEqual(calls.grouped, [{ tabIds: reopened.tab.id, groupId: 500 }]);
+  assert.deepEqual(calls.groupUpdates, [[500, { title: "Research", color: "blue" }]]);
+  assert.equal(reopened.context.group.id, 500);
+
+  // Without tab group support the tab simply opens and the recorded context is kept.
+  const fake = installFakeBrowser(t);
+  reopened = await tabContext.createTabInContext({ url: "https://docs.dev", windowId: 1 }, recorded);
+  assert.equal(fake.calls.created.length, 1);
+  assert.deepEqual(reopened.context, recorded);
+});
@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+    "src/lib/backgroundRuntime/domains/sessionDomain.ts",
+  ]);
+}
+
+const guideEntry = { tabId: 1, url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 0, slot: 1 };
+
+test("labels and notes are tidied, persisted and survive a background restart", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [{ id: 1, windowId: 1, url: guideEntry.url, active: true }],
+    storage: { tabManagerList: [guideEntry] },
+  });
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  assert.deepEqual(await tabManager.annotate(1, "label", "  API\n  reference  "), { ok: true, slot: 1 });
+  assert.deepEqual(await tabManager.annotate(1, "note", "x".repeat(250)), { ok: true, slot: 1 });
+  assert.deepEqual(await tabManager.annotate(2, "label", "Other"), { ok: false, reason: "Tab is not in Tab Manager" });
+
+  const [stored] = fake.store.tabManagerList;
+  assert.equal(stored.label, "API reference");
+  assert.equal(stored.note, "x".repeat(200));
+
+  // A fresh domain (service-worker restart) reads them back from storage.
+  const restarted = domains.createTabManagerDomain(domains.createJumpListDomain());
+  await restarted.reconcile();
+  assert.equal(restarted.list()[0].label, "API reference");
+
+  // Clearing a field removes it instead of storing an empty string.
+  await restarted.annotate(1, "label", "   ");
+  assert.equal("label" in fake.store.tabManagerList[0], false);
+  assert.equal(fake.store.tabManagerList[0].note, "x".repeat(200));
+});
+
+test("labels and notes travel through a saved session and back onto the list", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [{ id: 1, windowId: 1, url: guideEntry.url, active: true }],
+    storage: { tabManagerList: [{ ...guideEntry, label: "API", note: "check auth section" }] },
+  });
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  assert.deepEqual(await domains.sessionSave(tabManager.state, "Docs"), { ok: true });
+  const [savedEntry] = fake.store.tabManagerSessions[0].entries;
+  assert.deepEqual([savedEntry.label, savedEntry.note], ["API", "check auth section"]);
+
+  await tabManager.clearAll();
+  fake.closeTab(1);
+  const outcome = await domains.sessionLoad(tabManager.state, "Docs");
+  assert.equal(outcome.ok, true);
+  const [loaded] = tabManager.list();
+  assert.deepEqual([loaded.url, loaded.label, loaded.note], [guideEntry.url, "API", "check auth section"]);
+});
@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+  ]);
+}
+
+const lifecycleHooks = { onTabClosed: async () => {}, onTabActivated: async () => {} };
+
+test("a locked entry keeps its anchored URL when the tab navigates elsewhere", async (t) => {
+  const domains = await loadDomains();
+  const anchoredUrl = "https://docs.dev/guide";
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: anchoredUrl },
+      { id: 2, windowId: 1, url: "https://news.dev", active: true },
+    ],
+    storage: {
+      tabManagerList: [{ tabId: 1, url: anchoredUrl, title: "Guide", scrollX: 0, scrollY: 420, slot: 1 }],
+    },
+  });
+  // Hold back the debounced saves so none of them outlive the test.
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+  tabManager.registerLifecycleListeners(lifecycleHooks);
+  const onUpdated = fake.listeners["tabs.onUpdated"];
+
+  assert.deepEqual(await tabManager.toggleLock(1), { ok: true, slot: 1, locked: true });
+  const [entry] = tabManager.list();
+
+  await onUpdated(1, { url: "https://docs.dev/other" }, { id: 1, url: "https://docs.dev/other" });
+  await onUpdated(1, { title: "Other page" }, { id: 1, url: "https://docs.dev/other" });
+  assert.equal(entry.url, anchoredUrl);
+  assert.equal(entry.title, "Guide");
+
+  // Back on the anchored page the title follows again.
+  await onUpdated(1, { title: "Guide v2" }, { id: 1, url: `${anchoredUrl}/` });
+  assert.equal(entry.title, "Guide v2");
+
+  // Jumping to a drifted locked entry navigates it home and waits for the page to restore.
+  fake.navigate(1, "https://docs.dev/other");
+  await tabManager.jump(1);
+  assert.deepEqual(fake.calls.updated.slice(-2), [[1, { active: true }], [1, { url: anchoredUrl }]]);
+  assert.deepEqual(tabManager.consumePendingScrollRestore(1), { scrollX: 0, scrollY: 420, anchor: undefined });
+
+  assert.deepEqual(await tabManager.toggleLock(1), { ok: true, slot: 1, locked: false });
+  await onUpdated(1, { url: "https://docs.dev/other" }, { id: 1, url: "https://docs.dev/other" });
+  assert.equal(entry.url, "https://docs.dev/other");
+});
+
+test("a locked entry whose tab was closed reopens on its anchored URL", async (t) => {
+  const domains = await loadDomains();
+  const anchoredUrl = "https://docs.dev/guide";
+  const fake = installFakeBrowser(t, {
+    tabs: [{ id: 2, windowId: 1, url: "https://news.dev", active: true }],
+    storage: {
+      tabManagerList: [
+        { tabId: 1, url: anchoredUrl, title: "Guide", scrollX: 0, scrollY: 420, slot: 1, locked: true, closed: true },
+      ],
+    },
+  });
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  await tabManager.jump(1);
+  assert.deepEqual(fake.calls.created, [{ url: anchoredUrl, active: true }]);
+  const [entry] = tabManager.list();
+  assert.equal(entry.tabId, 100);
+  assert.equal(entry.locked, true);
+  assert.deepEqual(tabManager.consumePendingScrollRestore(100), { scrollX: 0, scrollY: 420, anchor: undefined });
+});
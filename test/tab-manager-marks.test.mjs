@@ -0,0 +1,51 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { installFakeBrowser, loadWithFakeBrowser } from "./fixtures/fakeBrowser.mjs";
+
+async function loadDomains() {
+  return await loadWithFakeBrowser([
+    "src/lib/backgroundRuntime/domains/jumpListDomain.ts",
+    "src/lib/backgroundRuntime/domains/tabManagerDomain.ts",
+  ]);
+}
+
+test("local marks are a-z, belong to anchored tabs and jump back to the marked scroll", async (t) => {
+  const domains = await loadDomains();
+  const fake = installFakeBrowser(t, {
+    tabs: [
+      { id: 1, windowId: 1, url: "https://docs.dev/guide", active: true },
+      { id: 2, windowId: 1, url: "https://news.dev" },
+    ],
+    storage: {
+      tabManagerList: [{ tabId: 1, url: "https://docs.dev/guide", title: "Guide", scrollX: 0, scrollY: 0, slot: 1 }],
+    },
+    scroll: { 1: { scrollX: 0, scrollY: 900 } },
+  });
+  const tabManager = domains.createTabManagerDomain(domains.createJumpListDomain());
+
+  assert.deepEqual(await tabManager.setMark(1, "A"), { ok: false, reason: "Marks must be a-z" });
+  assert.deepEqual(await tabManager.setMark(2, "a"), { ok: false, reason: "Tab is not in Tab Manager" });
+  assert.deepEqual(await tabManager.setMark(1, "a"), { ok: true, slot: 1 });
+  assert.deepEqual(fake.store.tabManagerList[0].marks, { a: { scrollX: 0, scrollY: 900 } });
+
+  assert.deepEqual(await tabManager.jumpToMark(1, "b"), { ok: false, reason: "Mark 'b' not set" });
+  assert.deepEqual(await tabManager.jumpToMark(4, "a"), { ok: false, reason: "Slot 4 is empty" });
+
+  fake.activate(2);
+  assert.deepEqual(await tabManager.jumpToMark(1, "a"), { ok: true, slot: 1 });
+  assert.deepEqual(fake.calls.updated.at(-1), [1, { active: true }]);
+  assert.deepEqual(tabManager.consumePendingScrollRestore(1), { scrollX: 0, scrollY: 900, anchor: undefined });
+});
+
+test("the panel's jump-to-mark key is a rebindable Tab Manager binding", async () => {
+  const keybindings = await loadWithFakeBrowser(["src/lib/common/contracts/keybindings.ts"]);
+  const config = structuredClone(keybindings.DEFAULT_KEYBINDINGS);
+  const press = (key) => ({ key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false });
+
+  assert.equal(config.bindings.tabManager.jumpToMark.default, "'");
+  assert.ok(keybindings.matchesAction(press("'"), config, "tabManager", "jumpToMark"));
+
+  config.bindings.tabManager.jumpToMark.key = "M";
+  assert.ok(!keybindings.matchesAction(press("'"), config, "tabManager", "jumpToMark"));
+  assert.ok(keybindings.matchesAction(press("m"), config, "tabManager", "jumpToMark"));
+});
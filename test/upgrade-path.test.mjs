@@ -39,7 +39,7 @@ test("stable storage keys remain backward-compatible", () => {
 
   const startupRestore = readText("src/lib/backgroundRuntime/lifecycle/startupRestore.ts");
   assert.match(startupRestore, /\(stored\.tabManagerSessions as TabManagerSession\[\]\) \|\| \[\]/);
-  assert.match(startupRestore, /if \(sessions\.length === 0\) return;/);
+  assert.match(startupRestore, /if \(sessions\.length === 0 && !snapshot\) return;/);
 
   const frecency = readText("src/lib/common/utils/frecencyScoring.ts");
   assert.match(frecency, /browser\.storage\.local\.get\("frecencyData"\)/);
@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { build } from "esbuild";
+
+const ROOT = process.cwd();
+
+async function loadWindowListMatchModule() {
+  const bundled = await build({
+    entryPoints: [resolve(ROOT, "src/lib/common/utils/windowListMatch.ts")],
+    bundle: true,
+    format: "esm",
+    platform: "neutral",
+    target: "es2022",
+    write: false,
+    logLevel: "silent",
+  });
+  return import(
+    `data:text/javascript;base64,${Buffer.from(bundled.outputFiles[0].text, "utf8").toString("base64")}`
+  );
+}
+
+const entry = (url) => ({ url, tabId: -1 });
+let nextTabId = 1;
+const tab = (windowId, url) => ({ id: nextTabId++, windowId, url });
+
+test("a restored window adopts a list once at least half of its URLs line up", async () => {
+  const match = await loadWindowListMatchModule();
+  const list = [entry("https://a.dev"), entry("https://b.dev"), entry("https://c.dev"), entry("https://d.dev")];
+
+  const half = [tab(7, "https://a.dev/"), tab(7, "https://www.b.dev"), tab(7, "https://other.dev")];
+  const adopted = match.findRestoredWindowMatch(list, half, [7]);
+  assert.equal(adopted.windowId, 7);
+  assert.deepEqual([...adopted.matches.keys()], [list[0], list[1]]);
+  assert.deepEqual([...adopted.matches.values()].map((matched) => matched.id), [half[0].id, half[1].id]);
+
+  const belowHalf = [tab(8, "https://a.dev"), tab(8, "https://x.dev"), tab(8, "https://y.dev")];
+  assert.equal(match.findRestoredWindowMatch(list, belowHalf, [8]), null);
+});
+
+test("window list matching handles empty lists, empty windows and repeated URLs", async () => {
+  const match = await loadWindowListMatchModule();
+
+  assert.equal(match.findRestoredWindowMatch([], [tab(1, "https://a.dev")], [1]), null);
+  assert.equal(match.findRestoredWindowMatch([entry("https://a.dev")], [], [1]), null);
+  assert.equal(match.findRestoredWindowMatch([entry("https://a.dev")], [tab(1, "https://a.dev")], []), null);
+
+  // Two entries for the same page need two tabs; one tab only satisfies one entry.
+  const twice = [entry("https://a.dev"), entry("https://a.dev")];
+  const oneTab = match.matchEntriesToTabs(twice, [tab(1, "https://a.dev")]);
+  assert.equal(oneTab.size, 1);
+  const twoTabs = match.matchEntriesToTabs(twice, [tab(1, "https://a.dev"), tab(1, "https://a.dev")]);
+  assert.equal(new Set([...twoTabs.values()].map((matched) => matched.id)).size, 2);
+});
+
+test("two windows with similar URLs: the closer match wins and only candidates are considered", async () => {
+  const match = await loadWindowListMatchModule();
+  const list = [entry("https://docs.dev/a"), entry("https://docs.dev/b"), entry("https://docs.dev/c")];
+  const tabs = [
+    tab(1, "https://docs.dev/a"),
+    tab(1, "https://docs.dev/b"),
+    tab(2, "https://docs.dev/a"),
+    tab(2, "https://docs.dev/b"),
+    tab(2, "https://docs.dev/c"),
+  ];
+
+  assert.equal(match.findRestoredWindowMatch(list, tabs, [1, 2]).windowId, 2);
+  assert.equal(match.findRestoredWindowMatch(list, tabs, [2, 1]).windowId, 2);
+  // Window 2 already has its own list, so window 1 (still two of three) adopts it.
+  const fallback = match.findRestoredWindowMatch(list, tabs, [1]);
+  assert.equal(fallback.windowId, 1);
+  assert.equal(fallback.matches.size, 2);
+
+  // Equal matches: the first candidate wins, so repeated runs are deterministic.
+  const tied = [tab(3, "https://docs.dev/a"), tab(3, "https://docs.dev/b"), tab(4, "https://docs.dev/a"), tab(4, "https://docs.dev/b")];
+  assert.equal(match.findRestoredWindowMatch(list, tied, [3, 4]).windowId, 3);
+  assert.equal(match.findRestoredWindowMatch(list, tied, [4, 3]).windowId, 4);
+});